@@ -0,0 +1,259 @@
+/*
+This file sets up the page side of the dialogue system: the settings for the ASR/TTS system, which speech actor
+to use, the actor running the dialogue manager (dmMachine from dm.ts) and the page elements that talk to it.
+
+@statelyai/inspect: This imports createBrowserInspector from @statelyai/inspect. This is a tool used for 
+inspecting and debugging XState state machines in a browser environment.
+
+speechstate: This imports Settings and speechstate from a custom speechstate module (Azure TTS/ASR).
+
+dmMachine uses the offline textspeech actor by default, which shows the system turns as text and takes the user
+turns from a text box in the page (no Azure key, microphone or network needed).
+*/
+
+import { createActor } from "xstate";
+import { Settings, speechstate } from "speechstate";
+import { createBrowserInspector } from "@statelyai/inspect";
+import { readPolicy } from "./availability";
+import availability from "./availability.json";
+import { BARGE_IN_UNSUPPORTED } from "./bargein";
+import { createStorageStore, toICS } from "./calendar";
+import { formatOf, parseContacts } from "./contacts";
+import { dmMachine } from "./dm";
+import { useContacts } from "./grammar";
+import { bundle, DEFAULT_LOCALE, findLocale } from "./locale";
+import { loadSession, saveSession } from "./persistence";
+import { createSessionRecorder, exportSession, SessionEntry } from "./session";
+
+/*
+This section configures the settings for the ASR/TTS system, including the Azure endpoint, 
+API key, region, timeouts, locale, and voice. These settings are passed to the speechstate module.
+*/
+
+// const inspector = createBrowserInspector();: 
+// This line creates an instance of the browser inspector, which will help you visualize and debug the state machine.
+const inspector = createBrowserInspector();
+
+/*
+KEY: the API key for Azure Cognitive Services, which will be used for speech recognition and synthesis. It lives
+in the local file azure.ts (not committed). We load it with import.meta.glob so that the page still builds and runs
+when the file is missing: in that case KEY is undefined and we fall back to the text mode below.
+*/
+const azureModules = import.meta.glob<{ KEY: string }>("./azure.ts", { eager: true });
+const KEY = azureModules["./azure.ts"]?.KEY;
+
+/*
+speechMode: which speech actor the dialogue manager talks to.
+- "azure": the real speechstate module (Azure TTS/ASR, needs KEY and a microphone);
+- "text": the offline textspeech module (system turns as text, user turns typed in the page).
+It can be chosen at startup with the URL parameter ?speech=text or ?speech=azure. Without the parameter we use
+"azure" if a KEY is available and "text" otherwise.
+*/
+export type SpeechMode = "azure" | "text";
+
+const requestedMode = new URLSearchParams(window.location.search).get("speech");
+export const speechMode: SpeechMode =
+  requestedMode === "azure" || requestedMode === "text" ? requestedMode : KEY ? "azure" : "text";
+
+/*
+locale: the language the dialogue starts in (see ./locale), chosen with the URL parameter ?lang=sv or
+?lang=it-IT; English by default. The user can switch to another one by voice during the dialogue.
+*/
+const locale = findLocale(new URLSearchParams(window.location.search).get("lang")) ?? DEFAULT_LOCALE;
+
+/*
+bargeIn: whether the user may answer a question before it is said to the end (see ./bargein), turned on with the
+URL parameter ?bargein. Only textspeech can listen while it speaks: in azure mode the dialogue would never listen,
+so barge-in stays off and the page says so (bargeInNotice, shown by main.ts).
+*/
+const bargeInRequested = new URLSearchParams(window.location.search).has("bargein");
+const bargeIn = bargeInRequested && speechMode === "text";
+export const bargeInNotice = bargeInRequested && !bargeIn ? BARGE_IN_UNSUPPORTED : null;
+
+const azureCredentials = {
+  endpoint:
+    "https://northeurope.api.cognitive.microsoft.com/sts/v1.0/issuetoken",
+  key: KEY ?? "",
+};
+
+const settings: Settings = {
+  azureCredentials: azureCredentials,
+  azureRegion: "northeurope",
+  asrDefaultCompleteTimeout: 0,
+  asrDefaultNoInputTimeout: 5000,
+  locale: bundle(locale).speech.locale,
+  ttsDefaultVoice: bundle(locale).speech.voice,
+};
+
+// when meetings can be booked: working hours, holidays and the days people do not work (see ./availability)
+const policy = readPolicy(availability);
+
+// the confirmed appointments are kept in the browser's localStorage, so they are still there after a reload
+const store = createStorageStore(window.localStorage);
+
+// so is the dialogue in progress (see ./persistence): a booking interrupted by a reload can be resumed
+const resume = loadSession(window.localStorage, new Date());
+
+/*
+session: the log of the whole dialogue (see ./session), shown in the transcript panel as it happens and
+downloaded with the export button. It is kept by watching the machine, together with the browser inspector.
+*/
+const transcriptListeners: ((entry: SessionEntry) => void)[] = [];
+const session = createSessionRecorder({
+  onEntry: (entry) => transcriptListeners.forEach((listener) => listener(entry)),
+});
+
+// In azure mode the offline textspeech actor is replaced by speechstate, which speaks exactly the same protocol.
+const dmActor = createActor(
+  speechMode === "azure"
+    ? dmMachine.provide({ actors: { speechstate } })
+    : dmMachine,
+  {
+    input: {
+      settings,
+      store,
+      policy,
+      pronounce: speechMode === "azure",
+      ssml: speechMode === "azure",
+      locale,
+      bargeIn,
+      resume,
+    },
+    inspect: (inspectionEvent) => {
+      inspector.inspect.next?.(inspectionEvent);
+      session.inspect(inspectionEvent);
+    },
+  },
+).start();
+
+dmActor.subscribe((snapshot) => saveSession(window.localStorage, snapshot.context, new Date()));
+
+dmActor.subscribe((state) => {
+  console.group("State update");
+  console.log("State value:", state.value);
+  console.log("State context:", state.context);
+  console.groupEnd();
+});
+
+export function setupButton(element: HTMLButtonElement) {
+  element.addEventListener("click", () => {
+    dmActor.send({ type: "CLICK" });
+  });
+  dmActor.subscribe((snapshot) => {
+    const meta: { view?: string } = Object.values(
+      snapshot.context.spstRef.getSnapshot().getMeta(),
+    )[0] || {
+      view: undefined,
+    };
+    element.innerHTML = `${meta.view}`;
+  });
+}
+
+/*
+setupTextInput: only used in text mode.
+The form's text box sends each user turn to the textspeech actor (TEXT_INPUT); an empty submission counts as
+no input. The turns are shown in the transcript (see setupTranscript).
+*/
+export function setupTextInput(form: HTMLFormElement) {
+  const textbox = form.querySelector<HTMLInputElement>("input")!;
+  const spstRef = dmActor.getSnapshot().context.spstRef;
+
+  form.addEventListener("submit", (e) => {
+    e.preventDefault();
+    spstRef.send({ type: "TEXT_INPUT", value: textbox.value });
+    textbox.value = "";
+  });
+}
+
+// a turn of the session log as a line of the transcript; the state transitions and markup errors are only in the
+// export
+function transcriptLine(entry: SessionEntry): string | null {
+  switch (entry.type) {
+    case "system":
+      return `System: ${entry.utterance}`;
+    case "user": {
+      const hypotheses = entry.hypotheses
+        .map((hypothesis) => `${hypothesis.utterance} (${hypothesis.confidence.toFixed(2)})`)
+        .join(" | ");
+      return `User: ${hypotheses}${entry.filled.length > 0 ? ` → ${entry.filled.join(", ")}` : ""}`;
+    }
+    case "noInput":
+      return "User: (no input)";
+    case "transition":
+    case "markupError":
+      return null;
+  }
+}
+
+/*
+setupTranscript:
+Shows every system prompt and every user turn in the element, as they happen: the recogniser's hypotheses with
+their confidence, and the slots the answer filled.
+*/
+export function setupTranscript(element: HTMLElement) {
+  const show = (entry: SessionEntry) => {
+    const text = transcriptLine(entry);
+    if (text != null) {
+      const line = document.createElement("p");
+      line.className = entry.type;
+      line.textContent = text;
+      element.appendChild(line);
+    }
+  };
+  session.log.entries.forEach(show);
+  transcriptListeners.push(show);
+}
+
+/*
+setupSessionExportButton:
+Downloads the whole session log as JSON (session-<start time>.json), with the time of every turn and every state
+transition, to look at the dialogue afterwards.
+*/
+export function setupSessionExportButton(element: HTMLButtonElement) {
+  element.addEventListener("click", () => {
+    const file = new Blob([exportSession(session.log)], { type: "application/json" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(file);
+    link.download = `session-${session.log.started}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  });
+}
+
+/*
+setupExportButton:
+Downloads every stored appointment as an iCalendar file (appointments.ics), which can be imported into 
+real calendars.
+*/
+export function setupExportButton(element: HTMLButtonElement) {
+  element.addEventListener("click", async () => {
+    const appointments = await store.list();
+    const file = new Blob([toICS(appointments)], { type: "text/calendar" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(file);
+    link.download = "appointments.ics";
+    link.click();
+    URL.revokeObjectURL(link.href);
+  });
+}
+
+/*
+setupContactsInput:
+Loads a contact directory (a .json or .csv file, see ./contacts) chosen in the page, instead of the default one.
+Choosing the file again reloads it, so the contacts can be edited while the dialogue is running.
+*/
+export function setupContactsInput(element: HTMLInputElement) {
+  element.addEventListener("change", async () => {
+    const file = element.files?.[0];
+    if (!file) {
+      return;
+    }
+    try {
+      useContacts(parseContacts(await file.text(), formatOf(file.name)));
+    } catch (error) {
+      console.error(`Could not load the contacts from ${file.name}:`, error);
+    } finally {
+      element.value = "";
+    }
+  });
+}
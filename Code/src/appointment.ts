@@ -0,0 +1,113 @@
+/*
+The appointment task, described as a form (see ./form): who the meeting is with, on which day, whether it takes the
+whole day and, if not, at what time and for how long. Once every slot is filled, the calendar is checked for clashes
+(CheckAvailability in dm.ts) before the confirmation. What is said is in the locale bundles (see ./locale).
+
+The duration is optional: without an answer, the meeting lasts as long as the availability policy says (an hour by
+default, see ./availability). It is said as a length ("for an hour and a half") or as the time the meeting ends
+("until 3"), which must come after the start time (see BadDuration in dm.ts).
+
+A meeting may also take place again and again: the user says it with the day ("every other Friday", "every week on
+Monday") and when it stops ("until June", "10 times"). It is not a question of the form: the day is asked for as
+usual, and the confirmation says how often the meeting takes place after it.
+*/
+
+import { anchorRecurrence, lengthOf, Recurrence } from "./datetime";
+import { Form } from "./form";
+import { bundle, Locale } from "./locale";
+import { literal } from "./markup";
+import { listPeople } from "./people";
+import { DMContext } from "./types";
+
+const texts = (slot: string) => (locale: Locale) => bundle(locale).appointment.slots[slot];
+
+/*
+meetingLength function:
+How long the meeting being booked lasts, in minutes: as the user said it, or else the duration of the policy. Null
+for a whole-day meeting, and while the end said ("until 3") has no start time yet.
+*/
+export function meetingLength(context: DMContext): number | null {
+  if (context.yesno === true) {
+    return null;
+  }
+  if (context.duration == null) {
+    return context.policy.duration;
+  }
+  return context.time != null ? lengthOf(context.duration, context.time) : null;
+}
+
+/*
+recurrenceOf function:
+How often the meeting being booked takes place, if it is a recurring one: a weekly meeting takes place on the day
+of the week of its first day, once that is known (so that "every Friday", moved to Monday, is every Monday).
+*/
+export function recurrenceOf(context: DMContext): Recurrence | null {
+  if (context.recurrence == null || context.day == null) {
+    return context.recurrence;
+  }
+  return anchorRecurrence(context.recurrence, context.day);
+}
+
+/*
+sayRecurrence function:
+How often the meeting takes place, in the language of the dialogue, with the days it is left out on: "every
+Monday, except on Monday the 21st of April".
+*/
+export function sayRecurrence(context: DMContext, rule: Recurrence): string {
+  const language = bundle(context.locale);
+  const repeats = language.formatRecurrence(rule, context.now());
+  const except = (rule.except ?? []).map((date) => language.formatDate(date, context.now()));
+  return except.length > 0 ? language.prompts.except(repeats, listPeople(except, language.and)) : repeats;
+}
+
+export const appointmentForm: Form = {
+  slots: [
+    {
+      name: "person",
+      entity: "person",
+      required: true,
+      texts: texts("person"),
+    },
+    {
+      name: "day",
+      entity: "day",
+      required: true,
+      texts: texts("day"),
+    },
+    {
+      // a time given before this question also tells us that the meeting does not take the whole day
+      name: "fullDay",
+      entity: "yesno",
+      required: true,
+      texts: texts("fullDay"),
+      reply: (context) => bundle(context.locale).appointment.fullDayReply(context.yesno === true),
+    },
+    {
+      name: "time",
+      entity: "time",
+      required: true,
+      condition: (context) => context.yesno !== true,
+      texts: texts("time"),
+    },
+    {
+      name: "duration",
+      entity: "duration",
+      required: false,
+      condition: (context) => context.yesno !== true,
+      texts: texts("duration"),
+    },
+  ],
+  done: "CheckAvailability",
+  confirmation: (context) => {
+    const language = bundle(context.locale);
+    const wholeDay = context.yesno === true;
+    const recurrence = recurrenceOf(context);
+    return language.appointment.confirmation(
+      listPeople(context.person!.map(literal), language.and),
+      language.formatDate(context.day!, context.now()),
+      wholeDay ? null : language.formatTime(context.time!),
+      wholeDay ? null : language.prompts.lasting(language.formatDuration(meetingLength(context)!)),
+      recurrence && sayRecurrence(context, recurrence),
+    );
+  },
+};
@@ -0,0 +1,326 @@
+/*
+Availability: when meetings can be booked at all, whatever is already in the calendar. The policy says:
+- workingHours: the hours meetings can take place on each day of the week (0 is Sunday, as in Date.getDay()); a
+  day without hours is not a working day;
+- holidays: the days nobody works, with their name ("Good Friday");
+- people: for each person, the days of the week they do not work, and the days they are away;
+- minimumNotice: how long before it starts a meeting must be booked, in minutes (null: no notice is needed);
+- duration: how long a meeting lasts, in minutes, when the user does not say it: it must end within the working
+  hours.
+
+The dialogue checks the day and time as soon as the user has given them (checkAvailability, see Grounded in
+dm.ts). What is wrong is told to the user ("Nayat Astaiza Soriano doesn't work on Fridays"), with the nearest day or
+time which is allowed (suggestAvailable). Each rule says which slot has to change: the day, or only the time. A
+recurring meeting is checked on every day it takes place, over a year. A day which is a holiday, or when one of the
+people is away, can be left out of it: we offer to book it on the other days. If another day cannot be booked (a
+day of the week without working hours, or a time outside them), the meeting cannot take place that often, and
+there is nothing to offer instead.
+
+The policy is read from JSON (see availability.json and readPolicy), where the days are written "2025-04-18", the
+times "08:00" and the days of the week by their English name:
+
+  {
+    "workingHours": { "monday": ["08:00", "18:00"], "saturday": null },
+    "holidays": [{ "date": "2025-04-18", "name": "Good Friday" }],
+    "people": { "Nayat Astaiza Soriano": { "daysOff": ["friday"], "away": ["2025-02-10"] } },
+    "minimumNotice": 60,
+    "duration": 60
+  }
+
+Without a policy, the dialogue uses ANY_TIME, which allows every day and time.
+*/
+
+import { DEFAULT_DURATION } from "./calendar";
+import {
+  addDays,
+  CalendarDate,
+  compareDates,
+  fromDate,
+  fromMinutes,
+  minutesOf,
+  occurrences,
+  Recurrence,
+  sameDate,
+  TimeOfDay,
+  toDate,
+  weekday,
+  WEEKDAYS,
+} from "./datetime";
+
+export interface WorkingHours {
+  start: TimeOfDay;
+  end: TimeOfDay;
+}
+
+export interface AvailabilityPolicy {
+  // by day of the week, 0 is Sunday; null: not a working day
+  workingHours: (WorkingHours | null)[];
+  holidays: { date: CalendarDate; name: string | null }[];
+  people: { [person: string]: { daysOff: number[]; away: CalendarDate[] } };
+  minimumNotice: number | null;
+  duration: number;
+}
+
+// every day, at any time: the default, when no policy is given
+export const ANY_TIME: AvailabilityPolicy = {
+  workingHours: Array(7).fill({ start: { hour: 0, minute: 0 }, end: { hour: 24, minute: 0 } }),
+  holidays: [],
+  people: {},
+  minimumNotice: null,
+  duration: DEFAULT_DURATION,
+};
+
+// why a day or time cannot be booked, and the slot which has to change for it
+export type Unavailability =
+  | { slot: "day"; reason: "holiday"; date: CalendarDate; name: string | null }
+  | { slot: "day"; reason: "dayOff"; person: string; weekday: number }
+  | { slot: "day"; reason: "away"; person: string; date: CalendarDate }
+  | { slot: "day"; reason: "closed"; weekday: number }
+  | { slot: "day" | "time"; reason: "tooSoon"; notice: number }
+  | { slot: "time"; reason: "outsideHours"; hours: WorkingHours }
+  // a later day a recurring meeting takes place on, and why it cannot be booked then
+  | { slot: "recurrence"; reason: "repeats"; date: CalendarDate; because: Unavailability }
+  // the later days it takes place on which can be left out of it (holidays, days away), and why
+  | { slot: "recurrence"; reason: "except"; days: { date: CalendarDate; because: Unavailability }[] };
+
+// what is known of the appointment being booked: a null field is not known yet
+export interface AvailabilityRequest {
+  people: string[] | null;
+  date: CalendarDate | null;
+  time: TimeOfDay | null;
+  wholeDay: boolean;
+  // in minutes; when it is not given, the duration of the policy
+  duration?: number;
+  // how often it takes place, from 'date' on
+  recurrence?: Recurrence;
+}
+
+function checkDay(policy: AvailabilityPolicy, request: AvailabilityRequest, date: CalendarDate): Unavailability | null {
+  const holiday = policy.holidays.find((holiday) => sameDate(holiday.date, date));
+  if (holiday) {
+    return { slot: "day", reason: "holiday", date, name: holiday.name };
+  }
+  for (const person of request.people ?? []) {
+    const rules = policy.people[person];
+    if (rules?.daysOff.includes(weekday(date))) {
+      return { slot: "day", reason: "dayOff", person, weekday: weekday(date) };
+    }
+    if (rules?.away.some((away) => sameDate(away, date))) {
+      return { slot: "day", reason: "away", person, date };
+    }
+  }
+  if (policy.workingHours[weekday(date)] == null) {
+    return { slot: "day", reason: "closed", weekday: weekday(date) };
+  }
+  return null;
+}
+
+function checkTime(
+  policy: AvailabilityPolicy,
+  date: CalendarDate,
+  time: TimeOfDay,
+  duration: number,
+  now: Date,
+): Unavailability | null {
+  const hours = policy.workingHours[weekday(date)]!;
+  const start = minutesOf(time);
+  if (start < minutesOf(hours.start) || start + duration > minutesOf(hours.end)) {
+    return { slot: "time", reason: "outsideHours", hours };
+  }
+  if (policy.minimumNotice != null && toDate(date, time).getTime() < now.getTime() + policy.minimumNotice * 60000) {
+    return { slot: "time", reason: "tooSoon", notice: policy.minimumNotice };
+  }
+  return null;
+}
+
+function checkDate(
+  policy: AvailabilityPolicy,
+  request: AvailabilityRequest,
+  date: CalendarDate,
+  now: Date,
+): Unavailability | null {
+  const day = checkDay(policy, request, date);
+  if (day) {
+    return day;
+  }
+  if (request.time == null || request.wholeDay) {
+    const notice = policy.minimumNotice;
+    const earliest = notice != null ? fromDate(new Date(now.getTime() + notice * 60000)) : null;
+    return earliest && compareDates(date, earliest) < 0 ? { slot: "day", reason: "tooSoon", notice: notice! } : null;
+  }
+  return checkTime(policy, date, request.time, request.duration ?? policy.duration, now);
+}
+
+// a recurring meeting is checked on the days it takes place over a year
+const RECURRENCE_HORIZON = 366;
+
+// the reasons a day can be left out of a recurring meeting: they only hold on that day
+const EXCEPTIONS: Unavailability["reason"][] = ["holiday", "away"];
+
+/*
+checkAvailability function:
+Why the appointment cannot be booked as far as it is known, or null if it can. The day is checked first (holidays,
+the days the people do not work, the days of the week without working hours), then the time. A whole-day
+appointment, or one without a time yet, only needs its day to be after the minimum notice. A recurring
+appointment is then checked on the other days it takes place: the first one which cannot be booked is told, unless
+it only has to leave out some holidays or days away, which are then all told.
+*/
+export function checkAvailability(
+  policy: AvailabilityPolicy,
+  request: AvailabilityRequest,
+  now: Date,
+): Unavailability | null {
+  if (request.date == null) {
+    return null;
+  }
+  const first = checkDate(policy, request, request.date, now);
+  if (first || !request.recurrence) {
+    return first;
+  }
+  const last = addDays(request.date, RECURRENCE_HORIZON);
+  const days = [];
+  for (const date of occurrences(request.date, request.recurrence, last).slice(1)) {
+    const because = checkDate(policy, request, date, now);
+    if (because && !EXCEPTIONS.includes(because.reason)) {
+      return { slot: "recurrence", reason: "repeats", date, because };
+    }
+    if (because) {
+      days.push({ date, because });
+    }
+  }
+  return days.length > 0 ? { slot: "recurrence", reason: "except", days } : null;
+}
+
+// the free days and times are looked for every half hour, and at most a month ahead
+const SLOT_STEP = 30;
+const SEARCH_DAYS = 31;
+
+/*
+suggestAvailable function:
+The nearest day or time which is allowed instead, for the slot which has to change ('unavailable.slot'): the next
+allowed day (for the same time, if it is known), or the allowed time of the same day closest to the one asked (the
+later one if two are as near). A recurring meeting is offered without the days it can leave out ('recurrence').
+Returns null if there is none, or if the meeting cannot take place that often.
+*/
+export function suggestAvailable(
+  policy: AvailabilityPolicy,
+  request: AvailabilityRequest,
+  unavailable: Unavailability,
+  now: Date,
+): { date: CalendarDate; time: TimeOfDay | null; recurrence?: Recurrence } | null {
+  const allowed = (candidate: Partial<AvailabilityRequest>) =>
+    checkAvailability(policy, { ...request, ...candidate }, now) == null;
+
+  if (unavailable.reason === "except") {
+    const except = [...(request.recurrence!.except ?? []), ...unavailable.days.map((day) => day.date)];
+    return { date: request.date!, time: null, recurrence: { ...request.recurrence!, except } };
+  }
+  if (unavailable.slot === "recurrence") {
+    return null;
+  }
+
+  if (unavailable.slot === "day") {
+    for (let ahead = 1; ahead <= SEARCH_DAYS; ahead++) {
+      const date = addDays(request.date!, ahead);
+      if (allowed({ date })) {
+        return { date, time: null };
+      }
+    }
+    return null;
+  }
+
+  const hours = policy.workingHours[weekday(request.date!)]!;
+  const requested = minutesOf(request.time!);
+  const duration = request.duration ?? policy.duration;
+  const candidates = [];
+  for (let start = minutesOf(hours.start); start + duration <= minutesOf(hours.end); start += SLOT_STEP) {
+    candidates.push(start);
+  }
+  candidates.sort((a, b) => Math.abs(a - requested) - Math.abs(b - requested) || b - a);
+  const start = candidates.find((minutes) => allowed({ time: fromMinutes(minutes) }));
+  return start !== undefined ? { date: request.date!, time: fromMinutes(start) } : null;
+}
+
+/*
+####################################################################################################
+Reading the policy
+####################################################################################################
+*/
+
+function readDate(text: unknown, where: string): CalendarDate {
+  const match = typeof text === "string" ? text.match(/^(\d{4})-(\d\d)-(\d\d)$/) : null;
+  if (!match) {
+    throw new Error(`${where}: not a date (year-month-day): ${JSON.stringify(text)}`);
+  }
+  return { year: parseInt(match[1]), month: parseInt(match[2]), day: parseInt(match[3]) };
+}
+
+function readTime(text: unknown, where: string): TimeOfDay {
+  const match = typeof text === "string" ? text.match(/^(\d\d?):(\d\d)$/) : null;
+  if (!match || parseInt(match[1]) > 24 || parseInt(match[2]) > 59) {
+    throw new Error(`${where}: not a time (hours:minutes): ${JSON.stringify(text)}`);
+  }
+  return { hour: parseInt(match[1]), minute: parseInt(match[2]) };
+}
+
+function readWeekday(name: unknown, where: string): number {
+  const index = typeof name === "string" ? WEEKDAYS.indexOf(name.toLowerCase()) : -1;
+  if (index < 0) {
+    throw new Error(`${where}: not a day of the week: ${JSON.stringify(name)}`);
+  }
+  return index;
+}
+
+function readMinutes(value: unknown, where: string): number {
+  if (typeof value !== "number" || !(value >= 0)) {
+    throw new Error(`${where} must be a number of minutes`);
+  }
+  return value;
+}
+
+/*
+readPolicy function:
+The policy as it is written in JSON (see above), once parsed. What is left out is taken from ANY_TIME, except the
+days of the week missing from the working hours, which are not working days. Throws an Error saying what is wrong.
+*/
+export function readPolicy(json: unknown): AvailabilityPolicy {
+  const fields = (json ?? {}) as {
+    workingHours?: { [day: string]: unknown };
+    holidays?: { date?: unknown; name?: unknown }[];
+    people?: { [person: string]: { daysOff?: unknown[]; away?: unknown[] } | null };
+    minimumNotice?: unknown;
+    duration?: unknown;
+  };
+  const policy: AvailabilityPolicy = { ...ANY_TIME, people: {} };
+
+  if (fields.workingHours != null) {
+    policy.workingHours = WEEKDAYS.map((day) => {
+      const hours = fields.workingHours![day];
+      if (hours == null) {
+        return null;
+      }
+      if (!Array.isArray(hours) || hours.length !== 2) {
+        throw new Error(`The working hours of ${day} must be a start and an end, like ["08:00", "18:00"]`);
+      }
+      return { start: readTime(hours[0], day), end: readTime(hours[1], day) };
+    });
+  }
+  policy.holidays = (fields.holidays ?? []).map((holiday, i) => ({
+    date: readDate(holiday.date, `Holiday number ${i + 1}`),
+    name: typeof holiday.name === "string" ? holiday.name : null,
+  }));
+  for (const [person, rules] of Object.entries(fields.people ?? {})) {
+    const { daysOff, away } = rules ?? {};
+    policy.people[person] = {
+      daysOff: (daysOff ?? []).map((day) => readWeekday(day, person)),
+      away: (away ?? []).map((date) => readDate(date, person)),
+    };
+  }
+  if (fields.minimumNotice != null) {
+    policy.minimumNotice = readMinutes(fields.minimumNotice, "The minimum notice");
+  }
+  if (fields.duration != null) {
+    policy.duration = readMinutes(fields.duration, "The duration");
+  }
+  return policy;
+}
@@ -0,0 +1,36 @@
+/*
+Barge-in: answering a question before the system has finished asking it.
+
+Normally an Ask state waits for SPEAK_COMPLETE before its Listen state tells the speech actor to listen, so the
+user has to hear the whole prompt (say, the full confirmation of the appointment) before answering. With barge-in
+('bargeIn' in the input of dmMachine), the prompts which allow it (the questions of the form, the confirmation and
+the free slot we offer after a conflict) are listened to while they are said:
+- "spst.speak" sends LISTEN right after SPEAK, and the Listen state does not send it again (see 'listening');
+- the speech actor stops speaking as soon as it hears the user, and sends what it recognised without a
+  SPEAK_COMPLETE;
+- the Ask state then goes on to its Listen state and hands it the RECOGNISED event, which is handled there as if
+  the prompt had been said to the end;
+- 'promptHeard' in the context tells whether the user heard the last of these prompts to the end.
+
+Only the offline textspeech actor listens while it speaks. The real speechstate drops a LISTEN sent while it
+speaks, and cannot hear the user then: its recogniser only starts once the prompt is over, so there is no speech
+to detect and stop the prompt for (STOP would even stop speechstate for good). With barge-in it would never
+listen, so app.ts refuses ?bargein in azure mode and shows BARGE_IN_UNSUPPORTED in the page instead.
+
+The transitions use the actions of dmMachine (see dm.ts).
+*/
+
+export const BARGE_IN_UNSUPPORTED =
+  "Barge-in (?bargein) only works in text mode (?speech=text): Azure speech cannot listen while it speaks. " +
+  "It is turned off.";
+
+// the SPEAK_COMPLETE and RECOGNISED transitions of a prompt the user may interrupt, answered in the state 'listen'
+export function bargeIn(listen: string) {
+  return {
+    SPEAK_COMPLETE: { actions: { type: "trackPrompt", params: { heard: true } }, target: listen },
+    RECOGNISED: {
+      actions: [{ type: "trackPrompt", params: { heard: false } }, { type: "handOver" }],
+      target: listen,
+    },
+  } as const;
+}
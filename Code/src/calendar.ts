@@ -0,0 +1,371 @@
+/*
+The calendar: where confirmed appointments are stored, and how they are exported as an iCalendar (.ics) file that
+can be imported into real calendars. A recurring appointment is stored once, with its first day and its rule (see
+Recurrence in ./datetime), which is exported as an RRULE.
+
+It also finds the appointments that clash with a new one, and the nearest free slot instead, and the appointments
+the user asks about, moves or cancels (findAppointments). Both look at every day a recurring appointment takes
+place on (see occurrences in ./datetime).
+
+The dialogue manager only knows the CalendarStore interface. Two stores are provided:
+- createMemoryStore(): keeps the appointments in memory (the default, e.g. for the tests);
+- createStorageStore(storage): keeps them as JSON in a key-value storage. In the browser this is localStorage;
+  under Node any object with getItem/setItem will do, e.g. one backed by a file.
+*/
+
+import {
+  addDays,
+  CalendarDate,
+  compareDates,
+  fromMinutes,
+  minutesOf,
+  nextOccurrence,
+  occurrences,
+  Recurrence,
+  sameDate,
+  TimeOfDay,
+} from "./datetime";
+import { listPeople } from "./people";
+
+export interface Appointment {
+  id: string;
+  // everyone the meeting is with
+  people: string[];
+  date: CalendarDate;
+  // the start time, null for a whole-day appointment
+  time: TimeOfDay | null;
+  wholeDay: boolean;
+  // how long an appointment with a start time lasts, in minutes (DEFAULT_DURATION if it was saved without it)
+  duration?: number;
+  // how often the appointment takes place after its first day ('date'), if it is a recurring one
+  recurrence?: Recurrence;
+  // when the appointment was created (ISO 8601)
+  created: string;
+}
+
+// what the dialogue knows when an appointment is confirmed; the store gives it an id and a creation time
+export type NewAppointment = Omit<Appointment, "id" | "created">;
+
+export interface CalendarStore {
+  list(): Promise<Appointment[]>;
+  add(appointment: NewAppointment): Promise<Appointment>;
+  // both reject with an UnknownAppointmentError if there is no appointment with this id
+  update(id: string, changes: Partial<NewAppointment>): Promise<Appointment>;
+  remove(id: string): Promise<void>;
+}
+
+export class UnknownAppointmentError extends Error {
+  constructor(id: string) {
+    super(`There is no appointment ${id}`);
+  }
+}
+
+// the part of the Web Storage API (localStorage) that createStorageStore needs
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function complete(appointment: NewAppointment): Appointment {
+  return { ...appointment, id: createId(), created: new Date().toISOString() };
+}
+
+function indexOf(appointments: Appointment[], id: string): number {
+  const index = appointments.findIndex((appointment) => appointment.id === id);
+  if (index < 0) {
+    throw new UnknownAppointmentError(id);
+  }
+  return index;
+}
+
+export function createMemoryStore(appointments: Appointment[] = []): CalendarStore {
+  return {
+    list: async () => [...appointments],
+    add: async (appointment) => {
+      const stored = complete(appointment);
+      appointments.push(stored);
+      return stored;
+    },
+    update: async (id, changes) => {
+      const index = indexOf(appointments, id);
+      appointments[index] = { ...appointments[index], ...changes };
+      return appointments[index];
+    },
+    remove: async (id) => {
+      appointments.splice(indexOf(appointments, id), 1);
+    },
+  };
+}
+
+export function createStorageStore(storage: KeyValueStorage, key = "appointments"): CalendarStore {
+  const read = (): Appointment[] => JSON.parse(storage.getItem(key) ?? "[]");
+  const write = (appointments: Appointment[]) => storage.setItem(key, JSON.stringify(appointments));
+  return {
+    list: async () => read(),
+    add: async (appointment) => {
+      const stored = complete(appointment);
+      write([...read(), stored]);
+      return stored;
+    },
+    update: async (id, changes) => {
+      const appointments = read();
+      const index = indexOf(appointments, id);
+      appointments[index] = { ...appointments[index], ...changes };
+      write(appointments);
+      return appointments[index];
+    },
+    remove: async (id) => {
+      const appointments = read();
+      appointments.splice(indexOf(appointments, id), 1);
+      write(appointments);
+    },
+  };
+}
+
+/*
+####################################################################################################
+Conflicts and free slots
+####################################################################################################
+*/
+
+// appointments with a start time last one hour, unless another duration is given
+export const DEFAULT_DURATION = 60;
+
+export function durationOf(appointment: NewAppointment): number {
+  return appointment.duration ?? DEFAULT_DURATION;
+}
+
+// free slots are only looked for between 8:00 and 20:00, every half hour, and at most a month ahead
+const DAY_START = 8 * 60;
+const DAY_END = 20 * 60;
+const SLOT_STEP = 30;
+const SEARCH_DAYS = 31;
+
+// recurring appointments are compared over a year (see firstClash)
+const RECURRENCE_HORIZON = 366;
+
+// the start and end (in minutes since midnight) of an appointment on its day
+function interval(appointment: NewAppointment): [number, number] {
+  if (appointment.wholeDay || !appointment.time) {
+    return [0, 24 * 60];
+  }
+  const start = minutesOf(appointment.time);
+  return [start, start + durationOf(appointment)];
+}
+
+// the days an appointment takes place on, up to 'last' (included)
+function daysOf(appointment: NewAppointment, last: CalendarDate): CalendarDate[] {
+  return occurrences(appointment.date, appointment.recurrence ?? null, last);
+}
+
+const dayKey = (date: CalendarDate) => `${date.year}-${date.month}-${date.day}`;
+
+/*
+firstClash function:
+The first day two appointments take place at the same time, or null if they never do. Every time a recurring
+appointment takes place is compared, not only its first day. Two recurring appointments which do not stop are only
+compared over RECURRENCE_HORIZON, from the first day of the later one.
+*/
+export function firstClash(a: NewAppointment, b: NewAppointment): CalendarDate | null {
+  const [startA, endA] = interval(a);
+  const [startB, endB] = interval(b);
+  if (!(startA < endB && startB < endA)) {
+    return null;
+  }
+  // a one-off appointment only takes place on its day, so there is no need to look further
+  let last = addDays(compareDates(a.date, b.date) > 0 ? a.date : b.date, RECURRENCE_HORIZON);
+  for (const appointment of [a, b]) {
+    if (!appointment.recurrence && compareDates(appointment.date, last) < 0) {
+      last = appointment.date;
+    }
+  }
+  const days = new Set(daysOf(a, last).map(dayKey));
+  return daysOf(b, last).find((day) => days.has(dayKey(day))) ?? null;
+}
+
+// the stored appointments which take (part of) the time of the proposed one, on any day either takes place
+export function findConflicts(appointments: Appointment[], proposal: NewAppointment): Appointment[] {
+  return appointments.filter((appointment) => firstClash(appointment, proposal) != null);
+}
+
+/*
+The free slot closest to the proposed one:
+- for an appointment with a time, the nearest free time on the same day (the later one if two are as near);
+- for a whole-day appointment, the next day without any appointment.
+Only the slots 'isAllowed' accepts are offered (see ./availability). Returns null if there is none.
+*/
+export function nearestFreeSlot(
+  appointments: Appointment[],
+  proposal: NewAppointment,
+  isAllowed: (candidate: NewAppointment) => boolean = () => true,
+): { date: CalendarDate; time: TimeOfDay | null } | null {
+  const isFree = (candidate: NewAppointment) =>
+    isAllowed(candidate) && findConflicts(appointments, candidate).length === 0;
+
+  if (proposal.wholeDay || !proposal.time) {
+    for (let ahead = 1; ahead <= SEARCH_DAYS; ahead++) {
+      const date = addDays(proposal.date, ahead);
+      if (isFree({ ...proposal, date })) {
+        return { date, time: null };
+      }
+    }
+    return null;
+  }
+
+  const requested = minutesOf(proposal.time);
+  const candidates = [];
+  for (let start = DAY_START; start + durationOf(proposal) <= DAY_END; start += SLOT_STEP) {
+    candidates.push(start);
+  }
+  candidates.sort((a, b) => Math.abs(a - requested) - Math.abs(b - requested) || b - a);
+  const start = candidates.find((minutes) => isFree({ ...proposal, time: fromMinutes(minutes) }));
+  return start !== undefined ? { date: proposal.date, time: fromMinutes(start) } : null;
+}
+
+/*
+####################################################################################################
+Finding appointments
+####################################################################################################
+*/
+
+// what the user says about the appointments they ask about, move or cancel: a null field is not said
+export interface AppointmentQuery {
+  // the appointment is with (at least) one of them
+  people: string[] | null;
+  date: CalendarDate | null;
+  time: TimeOfDay | null;
+}
+
+// the time of an appointment, for sorting: whole-day appointments first
+function startOf(appointment: Appointment): number {
+  return appointment.wholeDay || !appointment.time ? -1 : minutesOf(appointment.time);
+}
+
+/*
+The appointments matching the query, in the order they take place. A recurring appointment is found on every day
+it takes place ("what do I have on the 10th of February" finds the meeting every Monday). Without a date, only the
+appointments from 'today' on are found: "cancel my meeting with Lou" is about the next one, not one which is over.
+*/
+export function findAppointments(
+  appointments: Appointment[],
+  query: AppointmentQuery,
+  today: CalendarDate,
+): Appointment[] {
+  return appointments
+    .map((appointment) => ({
+      appointment,
+      // the day it takes place on, on the day asked about or next
+      day: nextOccurrence(appointment.date, appointment.recurrence ?? null, query.date ?? today),
+    }))
+    .filter(
+      ({ appointment, day }) =>
+        day != null &&
+        (query.date == null || sameDate(day, query.date)) &&
+        (query.people == null || query.people.some((person) => appointment.people.includes(person))) &&
+        (query.time == null ||
+          (appointment.time != null && minutesOf(appointment.time) === minutesOf(query.time))),
+    )
+    .sort((a, b) => compareDates(a.day!, b.day!) || startOf(a.appointment) - startOf(b.appointment))
+    .map(({ appointment }) => appointment);
+}
+
+/*
+####################################################################################################
+iCalendar export (RFC 5545)
+####################################################################################################
+*/
+
+const pad = (n: number, length = 2) => String(n).padStart(length, "0");
+
+function icsDate(date: CalendarDate): string {
+  return `${pad(date.year, 4)}${pad(date.month)}${pad(date.day)}`;
+}
+
+// a "floating" local time, which calendars show at the same hour whatever their time zone
+function icsDateTime(date: CalendarDate, time: TimeOfDay): string {
+  return `${icsDate(date)}T${pad(time.hour)}${pad(time.minute)}00`;
+}
+
+function icsTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\n/g, "\\n");
+}
+
+// lines longer than 75 characters are folded: the rest continues on the next line, after a space
+function fold(line: string): string {
+  const parts = [];
+  for (let i = 0; i < line.length; i += i === 0 ? 75 : 74) {
+    parts.push(line.slice(i, i + (i === 0 ? 75 : 74)));
+  }
+  return parts.join("\r\n ");
+}
+
+const ICS_WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// "FREQ=WEEKLY;INTERVAL=2;BYDAY=FR;UNTIL=20250531T235959": the last day is a date-time, unless the events take the
+// whole day, as their start must be of the same kind
+function rrule(recurrence: Recurrence, wholeDay: boolean): string {
+  const parts = [`FREQ=${recurrence.frequency.toUpperCase()}`];
+  if (recurrence.interval !== 1) {
+    parts.push(`INTERVAL=${recurrence.interval}`);
+  }
+  if (recurrence.weekday != null) {
+    parts.push(`BYDAY=${ICS_WEEKDAYS[recurrence.weekday]}`);
+  }
+  if (recurrence.until != null) {
+    parts.push(`UNTIL=${icsDate(recurrence.until)}${wholeDay ? "" : "T235959"}`);
+  } else if (recurrence.count != null) {
+    parts.push(`COUNT=${recurrence.count}`);
+  }
+  return parts.join(";");
+}
+
+function eventLines(appointment: Appointment): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${appointment.id}@dialogue-systems`,
+    `DTSTAMP:${icsTimestamp(new Date(appointment.created))}`,
+  ];
+  if (appointment.wholeDay || !appointment.time) {
+    lines.push(`DTSTART;VALUE=DATE:${icsDate(appointment.date)}`);
+    lines.push(`DTEND;VALUE=DATE:${icsDate(addDays(appointment.date, 1))}`);
+  } else {
+    const end = minutesOf(appointment.time) + durationOf(appointment);
+    const endDate = addDays(appointment.date, Math.floor(end / (24 * 60)));
+    const endTime = fromMinutes(end % (24 * 60));
+    lines.push(`DTSTART:${icsDateTime(appointment.date, appointment.time)}`);
+    lines.push(`DTEND:${icsDateTime(endDate, endTime)}`);
+  }
+  if (appointment.recurrence) {
+    const wholeDay = appointment.wholeDay || !appointment.time;
+    lines.push(`RRULE:${rrule(appointment.recurrence, wholeDay)}`);
+    // the days it is left out on, of the same kind as its start
+    const except = appointment.recurrence.except ?? [];
+    if (except.length > 0) {
+      const dates = except.map((date) => (wholeDay ? icsDate(date) : icsDateTime(date, appointment.time!)));
+      lines.push(`EXDATE${wholeDay ? ";VALUE=DATE" : ""}:${dates.join(",")}`);
+    }
+  }
+  lines.push(`SUMMARY:${escapeText(`Meeting with ${listPeople(appointment.people)}`)}`);
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function toICS(appointments: Appointment[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//dialogue-systems-1-2025//Appointments//EN",
+    "CALSCALE:GREGORIAN",
+    ...appointments.flatMap(eventLines),
+    "END:VCALENDAR",
+  ];
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
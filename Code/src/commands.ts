@@ -0,0 +1,36 @@
+/*
+Global commands: what the user can say in any Listen state, whatever the question.
+
+- help ("help", "what can I say"): explains what can be said, then says the last prompt again;
+- repeat ("repeat that", "say that again"): says the last prompt again;
+- back ("go back", "undo"): forgets the last slot filled, and asks for it again;
+- startOver ("start over", "restart"): forgets everything and goes back to the greeting;
+- cancel ("cancel", "forget it"): says goodbye and stops.
+
+Naming another language ("speak Swedish") also works anywhere: the dialogue goes on in that language (see
+LanguageSwitched in dm.ts).
+
+The phrases are in the locale bundles (./locale), where each one has a 'command'. Every Listen state puts the
+transitions given by 'commands' before its own RECOGNISED transitions, so that a command is never taken for an
+answer. After help and repeat, the dialogue resumes listening in the same state (see Resume in dm.ts).
+
+The transitions use the guards, actions and states of dmMachine (see dm.ts).
+*/
+
+import { Command } from "./grammar";
+
+function whenCommand(command: Command) {
+  return { type: "command" as const, params: { command } };
+}
+
+// the RECOGNISED transitions of the global commands, for the Listen state 'state'
+export function commands(state: string) {
+  return [
+    { guard: whenCommand("help"), actions: { type: "rememberListenState", params: { state } }, target: "Help" },
+    { guard: whenCommand("repeat"), actions: { type: "rememberListenState", params: { state } }, target: "Repeat" },
+    { guard: whenCommand("back"), actions: { type: "undoLastSlot" }, target: "Grounded" },
+    { guard: whenCommand("startOver"), actions: { type: "clearValues" }, target: "Greeting" },
+    { guard: whenCommand("cancel"), target: "Goodbye" },
+    { guard: "languageNamed", actions: { type: "switchLanguage" }, target: "LanguageSwitched" },
+  ] as const;
+}
@@ -0,0 +1,136 @@
+/*
+The contact directory: the people the user can meet, loaded from a JSON or a CSV file, so that the dialogue can be
+used with other contacts without editing the code.
+
+Each contact has:
+- name: the full name, which is said back to the user and saved in the appointments;
+- nicknames: the other names the user may call them by, e.g. "vlad" (the full name is always understood);
+- pronunciation: how the text-to-speech should say the full name, if it gets it wrong, e.g. "Mah-rah-yev".
+
+In JSON the directory is a list of contacts (see contacts.json, the default directory). In CSV it is a table with
+the columns name, nicknames and pronunciation, and the nicknames separated by ";":
+
+  name,nicknames,pronunciation
+  Vladislav Maraev,vlad,Vladislav Mah-rah-yev
+  David Bowie,david;bowie,
+
+The person entries of the grammar are generated from the directory (see personEntries, and useContacts in
+./grammar). A nickname shared by several contacts ("david") lets the dialogue ask which of them is meant.
+*/
+
+import { GrammarEntry } from "./grammar";
+
+export interface Contact {
+  name: string;
+  nicknames: string[];
+  pronunciation?: string;
+}
+
+export type ContactFormat = "json" | "csv";
+
+// the format of a contact file, from its name ("contacts.csv"); JSON if it cannot be told
+export function formatOf(fileName: string): ContactFormat {
+  return fileName.toLowerCase().endsWith(".csv") ? "csv" : "json";
+}
+
+function contact(fields: { name?: unknown; nicknames?: unknown; pronunciation?: unknown }, where: string): Contact {
+  if (typeof fields.name !== "string" || fields.name.trim() === "") {
+    throw new Error(`Contact ${where} has no name`);
+  }
+  const nicknames = Array.isArray(fields.nicknames) ? fields.nicknames : [];
+  const pronunciation = typeof fields.pronunciation === "string" ? fields.pronunciation.trim() : "";
+  return {
+    name: fields.name.trim(),
+    nicknames: nicknames.map((nickname) => String(nickname).trim()).filter((nickname) => nickname !== ""),
+    ...(pronunciation !== "" && { pronunciation }),
+  };
+}
+
+// the cells of each line of a CSV text; a cell can be quoted ("Smith, John"), with "" for a quote inside
+function csvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  rows.push([...row, cell]);
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+export function parseContacts(text: string, format: ContactFormat): Contact[] {
+  if (format === "json") {
+    const contacts: unknown = JSON.parse(text);
+    if (!Array.isArray(contacts)) {
+      throw new Error("The contact directory must be a list of contacts");
+    }
+    return contacts.map((fields, i) => contact(fields ?? {}, `number ${i + 1}`));
+  }
+
+  const [header, ...rows] = csvRows(text);
+  const columns = (header ?? []).map((name) => name.trim().toLowerCase());
+  if (!columns.includes("name")) {
+    throw new Error("The contact directory must have a name column");
+  }
+  return rows.map((cells, i) => {
+    const value = (column: string) => cells[columns.indexOf(column)] ?? "";
+    return contact(
+      { name: value("name"), nicknames: value("nicknames").split(";"), pronunciation: value("pronunciation") },
+      `on line ${i + 2}`,
+    );
+  });
+}
+
+/*
+personEntries function:
+The person entries of the grammar: every full name and nickname, lower-cased, gives the contact it stands for. A
+name shared by several contacts gives all of them as namesakes (see ./people).
+*/
+export function personEntries(contacts: Contact[]): { [index: string]: GrammarEntry } {
+  const people = new Map<string, string[]>();
+  for (const contact of contacts) {
+    for (const name of [contact.name, ...contact.nicknames]) {
+      const key = name.toLowerCase();
+      const named = people.get(key) ?? [];
+      if (!named.includes(contact.name)) {
+        people.set(key, [...named, contact.name]);
+      }
+    }
+  }
+  return Object.fromEntries(
+    Array.from(people, ([key, named]) => [key, named.length === 1 ? { person: named[0] } : { namesakes: named }]),
+  );
+}
+
+// the utterance with the full names of the contacts replaced by their pronunciation, for the text-to-speech
+export function pronounce(utterance: string, contacts: Contact[]): string {
+  return contacts.reduce(
+    (spoken, contact) => (contact.pronunciation ? spoken.split(contact.name).join(contact.pronunciation) : spoken),
+    utterance,
+  );
+}
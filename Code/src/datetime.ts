@@ -0,0 +1,954 @@
+/*
+Dates and times: the values of the 'day' and 'time' slots, how to understand them in an utterance and how to say
+them back.
+
+The parser (parser.ts) calls matchDate, matchTime and matchDuration at each word of the utterance. They understand:
+- dates relative to "now": "today", "tomorrow", "the day after tomorrow", "Monday", "this Friday", "next Tuesday";
+- absolute dates: "the 3rd of March", "3 March", "March the 3rd", "March 3rd 2026", "the 21st" (of this month);
+- times: "10", "at ten thirty", "3:45 pm", "3pm", "9 in the morning", "half past two", "quarter to ten",
+  "twenty past 4", "10 o'clock", "noon", "midnight";
+- durations, the values of the 'duration' slot: "an hour", "2 hours", "half an hour", "an hour and a half",
+  "90 minutes", and the time a meeting ends: "until 3".
+
+matchRecurrence and matchRecurrenceEnd understand how often a meeting takes place: "every Monday", "every other
+Friday", "every 2 weeks", "every day", "every month", and when it stops: "until June", "until the 3rd of March",
+"10 times".
+
+Without "am"/"pm", hours from 1 to 7 are understood as afternoon hours (nobody meets at 3 in the night).
+
+These are the English words (ENGLISH_DATES). The matchers take the words of another language as their last
+argument, see DateWords below and the locale bundles in ./locales, which also say dates and times back in their
+language.
+*/
+
+// a day in the calendar; month is 1 (January) to 12 (December)
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+// a time of the day, in 24 hours: hour is 0 to 23
+export interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+// how long a meeting lasts: a number of minutes, or until when ("until 3")
+export type Duration = { minutes: number } | { until: TimeOfDay };
+
+/*
+Recurrence: how often a recurring meeting takes place, from its first day on: every 'interval' days, weeks or
+months. A weekly meeting takes place on 'weekday' (0 is Sunday), which is the day of the week of its first day
+once it is booked (see anchorRecurrence); it is null for the others, and for "every week" until the first day is
+known. It stops after the day 'until' (included), or once it has taken place 'count' times; both are null when it
+does not stop. It does not take place on the days 'except' (e.g. holidays, see ./availability), which still count
+towards 'count', as in iCalendar.
+*/
+export type Frequency = "daily" | "weekly" | "monthly";
+
+export interface Recurrence {
+  frequency: Frequency;
+  interval: number;
+  weekday: number | null;
+  until: CalendarDate | null;
+  count: number | null;
+  except?: CalendarDate[];
+}
+
+// when a recurring meeting stops, said apart from how often it takes place ("until June", "10 times")
+export type RecurrenceEnd = { until: CalendarDate } | { count: number };
+
+// what a matcher found: the value and how many words it used
+export interface Match<T> {
+  value: T;
+  length: number;
+}
+
+/*
+DateWords: the words of a language for dates and times, with which matchDate and matchTime understand them (see
+the locale bundles in ./locales). Phrases of several words are lists of words, e.g. ["in", "the", "morning"].
+*/
+export interface DateWords {
+  // Sunday first, as in Date.getDay(); and January first
+  weekdays: string[];
+  months: string[];
+  today: string[][];
+  tomorrow: string[][];
+  dayAfterTomorrow: string[][];
+  // before a weekday: the next one, today included ("this Friday"), or after today ("next Friday")
+  thisWeekday: string[];
+  nextWeekday: string[];
+  // the words which may come before the day of the month ("the") and between it and the month ("of")
+  article: string[];
+  of: string[];
+  // numbers from zero to nineteen, then the tens; and the same as ordinals ("first", "twentieth")
+  units: string[];
+  tens: { [word: string]: number };
+  ordinalUnits: string[];
+  ordinalTens: { [word: string]: number };
+  // an ordinal written with digits ("3rd"); the first group is the number
+  ordinalDigits: RegExp;
+  // the words after which a number is a time ("at ten")
+  timeWords: string[];
+  // after an hour ("ten o'clock")
+  oclock: string[];
+  noon: string[];
+  midnight: string[];
+  // after a time: morning (am) and afternoon or evening (pm)
+  morning: string[][];
+  afternoon: string[][];
+  // "half past two", "quarter to ten", "ten minutes past four"
+  half: string[];
+  quarter: string[][];
+  minutes: string[];
+  past: string[];
+  to: string[];
+  // "halv tre" is half past two in Swedish: half an hour before the hour which follows
+  halfBefore: boolean;
+  // between the hour and the minutes ("tre e mezza", "le tre e un quarto" in Italian)
+  and: string[];
+  // how long a meeting lasts: the words for "one" before "hour" ("an hour"), the words for hours, an hour said in
+  // one word ("un'ora" in Italian), half an hour, and the half hour after hours ("an hour and a half")
+  a: string[];
+  hours: string[];
+  anHour: string[][];
+  halfAnHour: string[][];
+  andAHalf: string[][];
+  // after which the time a meeting ends is said ("until 3"), and the last day of a recurring meeting ("until June")
+  until: string[][];
+  // how often a meeting takes place: "every" (before a weekday, "day", "week" or "month", possibly with a number
+  // or an ordinal: "every 2 weeks", "every third Friday"), "every other", and "times" after a number ("10 times")
+  every: string[][];
+  everyOther: string[][];
+  day: string[];
+  week: string[];
+  month: string[];
+  times: string[];
+}
+
+export const ENGLISH_DATES: DateWords = {
+  weekdays: ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"],
+  months: [
+    "january",
+    "february",
+    "march",
+    "april",
+    "may",
+    "june",
+    "july",
+    "august",
+    "september",
+    "october",
+    "november",
+    "december",
+  ],
+  today: [["today"], ["tonight"]],
+  tomorrow: [["tomorrow"]],
+  dayAfterTomorrow: [
+    ["the", "day", "after", "tomorrow"],
+    ["day", "after", "tomorrow"],
+  ],
+  thisWeekday: ["this"],
+  nextWeekday: ["next", "coming"],
+  article: ["the"],
+  of: ["of"],
+  units: [
+    "zero",
+    "one",
+    "two",
+    "three",
+    "four",
+    "five",
+    "six",
+    "seven",
+    "eight",
+    "nine",
+    "ten",
+    "eleven",
+    "twelve",
+    "thirteen",
+    "fourteen",
+    "fifteen",
+    "sixteen",
+    "seventeen",
+    "eighteen",
+    "nineteen",
+  ],
+  tens: { twenty: 20, thirty: 30, forty: 40, fifty: 50 },
+  ordinalUnits: [
+    "zeroth",
+    "first",
+    "second",
+    "third",
+    "fourth",
+    "fifth",
+    "sixth",
+    "seventh",
+    "eighth",
+    "ninth",
+    "tenth",
+    "eleventh",
+    "twelfth",
+    "thirteenth",
+    "fourteenth",
+    "fifteenth",
+    "sixteenth",
+    "seventeenth",
+    "eighteenth",
+    "nineteenth",
+  ],
+  ordinalTens: { twentieth: 20, thirtieth: 30 },
+  ordinalDigits: /^(\d{1,2})(st|nd|rd|th)$/,
+  timeWords: ["at", "around", "by"],
+  oclock: ["o'clock"],
+  noon: ["noon", "midday"],
+  midnight: ["midnight"],
+  morning: [["am"], ["a", "m"], ["in", "the", "morning"]],
+  afternoon: [["pm"], ["p", "m"], ["in", "the", "afternoon"], ["in", "the", "evening"], ["at", "night"]],
+  half: ["half"],
+  quarter: [["quarter"], ["a", "quarter"]],
+  minutes: ["minutes", "minute"],
+  past: ["past", "after"],
+  to: ["to"],
+  halfBefore: false,
+  and: [],
+  a: ["a", "an"],
+  hours: ["hours", "hour"],
+  anHour: [],
+  halfAnHour: [["half", "an", "hour"], ["half", "hour"], ["a", "half", "hour"]],
+  andAHalf: [["and", "a", "half"]],
+  until: [["until"], ["till"]],
+  every: [["every"], ["each"]],
+  everyOther: [["every", "other"]],
+  day: ["day", "days"],
+  week: ["week", "weeks"],
+  month: ["month", "months"],
+  times: ["times"],
+};
+
+export const WEEKDAYS = ENGLISH_DATES.weekdays;
+export const MONTHS = ENGLISH_DATES.months;
+
+/*
+####################################################################################################
+Calendar arithmetic
+####################################################################################################
+*/
+
+export function fromDate(date: Date): CalendarDate {
+  return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
+}
+
+export function toDate(date: CalendarDate, time: TimeOfDay = { hour: 0, minute: 0 }): Date {
+  return new Date(date.year, date.month - 1, date.day, time.hour, time.minute);
+}
+
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  return fromDate(new Date(date.year, date.month - 1, date.day + days));
+}
+
+// 0 is Sunday, as in Date.getDay()
+export function weekday(date: CalendarDate): number {
+  return toDate(date).getDay();
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(year, month, 0).getDate();
+}
+
+// negative if a is before b, 0 if they are the same day, positive otherwise
+export function compareDates(a: CalendarDate, b: CalendarDate): number {
+  return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+export function sameDate(a: CalendarDate, b: CalendarDate): boolean {
+  return compareDates(a, b) === 0;
+}
+
+// minutes since midnight
+export function minutesOf(time: TimeOfDay): number {
+  return time.hour * 60 + time.minute;
+}
+
+export function fromMinutes(minutes: number): TimeOfDay {
+  return { hour: Math.floor(minutes / 60), minute: minutes % 60 };
+}
+
+/*
+####################################################################################################
+Numbers
+####################################################################################################
+*/
+
+// the length of the longest of the phrases found at a position, 0 if none is there
+function phraseAt(words: string[], position: number, phrases: string[][]): number {
+  return phrases.reduce(
+    (longest, phrase) =>
+      phrase.length > longest && phrase.every((word, i) => words[position + i] === word) ? phrase.length : longest,
+    0,
+  );
+}
+
+// a cardinal number, written with digits ("25") or words ("twenty five")
+function matchNumber(words: string[], position: number, lang: DateWords): Match<number> | null {
+  const word = words[position];
+  if (word === undefined) {
+    return null;
+  }
+  if (/^\d+$/.test(word)) {
+    return { value: parseInt(word), length: 1 };
+  }
+  if (word in lang.tens) {
+    const unit = lang.units.indexOf(words[position + 1]);
+    return unit > 0 && unit < 10
+      ? { value: lang.tens[word] + unit, length: 2 }
+      : { value: lang.tens[word], length: 1 };
+  }
+  const unit = lang.units.indexOf(word);
+  return unit >= 0 ? { value: unit, length: 1 } : null;
+}
+
+// an ordinal number, written with digits ("3rd", "21st") or words ("third", "twenty first")
+function matchOrdinal(words: string[], position: number, lang: DateWords): Match<number> | null {
+  const word = words[position];
+  if (word === undefined) {
+    return null;
+  }
+  const digits = word.match(lang.ordinalDigits);
+  if (digits) {
+    return { value: parseInt(digits[1]), length: 1 };
+  }
+  if (word in lang.ordinalTens) {
+    return { value: lang.ordinalTens[word], length: 1 };
+  }
+  if (word in lang.tens) {
+    const unit = lang.ordinalUnits.indexOf(words[position + 1]);
+    return unit > 0 && unit < 10 ? { value: lang.tens[word] + unit, length: 2 } : null;
+  }
+  const unit = lang.ordinalUnits.indexOf(word);
+  return unit > 0 ? { value: unit, length: 1 } : null;
+}
+
+function matchYear(words: string[], position: number): Match<number> | null {
+  const word = words[position];
+  return word !== undefined && /^(19|20)\d\d$/.test(word) ? { value: parseInt(word), length: 1 } : null;
+}
+
+/*
+####################################################################################################
+Dates
+####################################################################################################
+*/
+
+// the first day (today included) which is the given weekday
+function upcomingWeekday(today: CalendarDate, day: number, skipToday: boolean): CalendarDate {
+  let ahead = (day - weekday(today) + 7) % 7;
+  if (ahead === 0 && skipToday) {
+    ahead = 7;
+  }
+  return addDays(today, ahead);
+}
+
+/*
+a day of a month: if the year is not given, it is the next time this day comes (this year or the next one);
+if the month is not given either, the next time this day of the month comes.
+*/
+function resolveDate(today: CalendarDate, day: number, month?: number, year?: number): CalendarDate | null {
+  if (month === undefined) {
+    for (let ahead = 0; ahead < 12; ahead++) {
+      const candidate = fromDate(new Date(today.year, today.month - 1 + ahead, 1));
+      if (day <= daysInMonth(candidate.year, candidate.month)) {
+        const date = { ...candidate, day };
+        if (compareDates(date, today) >= 0) {
+          return date;
+        }
+      }
+    }
+    return null;
+  }
+  let resolvedYear = year ?? today.year;
+  if (year === undefined && compareDates({ year: resolvedYear, month, day }, today) < 0) {
+    resolvedYear++;
+  }
+  if (day < 1 || day > daysInMonth(resolvedYear, month)) {
+    return null;
+  }
+  return { year: resolvedYear, month, day };
+}
+
+// "3rd of March 2026", "3 March", "third of march" (the words after "the")
+function matchDayOfMonth(
+  words: string[],
+  position: number,
+  today: CalendarDate,
+  lang: DateWords,
+): Match<CalendarDate> | null {
+  const day = matchOrdinal(words, position, lang) ?? matchNumber(words, position, lang);
+  if (!day) {
+    return null;
+  }
+  let length = day.length;
+  if (lang.of.includes(words[position + length])) {
+    length++;
+  }
+  const month = lang.months.indexOf(words[position + length]);
+  if (month < 0) {
+    // a day of the month alone must be an ordinal ("the 21st"), "the 21" is too vague
+    const ordinal = matchOrdinal(words, position, lang);
+    const value = ordinal && resolveDate(today, ordinal.value);
+    return value ? { value, length: ordinal.length } : null;
+  }
+  length++;
+  const year = matchYear(words, position + length);
+  const value = resolveDate(today, day.value, month + 1, year?.value);
+  return value ? { value, length: length + (year?.length ?? 0) } : null;
+}
+
+// "March 3rd", "March the 3rd 2026", "march 3"
+function matchMonthDay(
+  words: string[],
+  position: number,
+  today: CalendarDate,
+  lang: DateWords,
+): Match<CalendarDate> | null {
+  const month = lang.months.indexOf(words[position]);
+  if (month < 0) {
+    return null;
+  }
+  let length = 1;
+  if (lang.article.includes(words[position + length])) {
+    length++;
+  }
+  const day = matchOrdinal(words, position + length, lang) ?? matchNumber(words, position + length, lang);
+  if (!day) {
+    return null;
+  }
+  length += day.length;
+  const year = matchYear(words, position + length);
+  const value = resolveDate(today, day.value, month + 1, year?.value);
+  return value ? { value, length: length + (year?.length ?? 0) } : null;
+}
+
+export function matchDate(
+  words: string[],
+  position: number,
+  now: Date,
+  lang: DateWords = ENGLISH_DATES,
+): Match<CalendarDate> | null {
+  const today = fromDate(now);
+  const word = words[position];
+  const next = words[position + 1];
+
+  const relative: [string[][], number][] = [
+    [lang.dayAfterTomorrow, 2],
+    [lang.tomorrow, 1],
+    [lang.today, 0],
+  ];
+  for (const [phrases, ahead] of relative) {
+    const length = phraseAt(words, position, phrases);
+    if (length > 0) {
+      return { value: addDays(today, ahead), length };
+    }
+  }
+  const thisWeekday = lang.thisWeekday.includes(word);
+  if ((thisWeekday || lang.nextWeekday.includes(word)) && lang.weekdays.includes(next)) {
+    return { value: upcomingWeekday(today, lang.weekdays.indexOf(next), !thisWeekday), length: 2 };
+  }
+  if (lang.weekdays.includes(word)) {
+    // "Monday the 3rd of March": the day of the month is more precise than the weekday
+    const precise = matchDate(words, position + 1, now, lang);
+    if (precise && !lang.nextWeekday.includes(next) && !lang.weekdays.includes(next)) {
+      return { value: precise.value, length: precise.length + 1 };
+    }
+    return { value: upcomingWeekday(today, lang.weekdays.indexOf(word), false), length: 1 };
+  }
+  if (lang.article.includes(word)) {
+    const date = matchDayOfMonth(words, position + 1, today, lang);
+    return date ? { value: date.value, length: date.length + 1 } : null;
+  }
+  // word ordinals ("first", "second") are only dates after "the" (see above) or before a month
+  if (matchOrdinal(words, position, lang) && !/^\d/.test(word)) {
+    const date = matchDayOfMonth(words, position, today, lang);
+    return date && date.length > 1 ? date : null;
+  }
+  if (/^\d/.test(word)) {
+    const date = matchDayOfMonth(words, position, today, lang);
+    // a plain number ("3") alone is a time, not a date
+    return date && (date.length > 1 || /\D$/.test(word)) ? date : null;
+  }
+  return matchMonthDay(words, position, today, lang);
+}
+
+/*
+####################################################################################################
+Times
+####################################################################################################
+*/
+
+type DayPart = "am" | "pm";
+
+// "am", "pm", "a m" / "p m" (from "a.m." / "p.m."), "in the morning", "in the afternoon/evening", "at night"
+function matchDayPart(words: string[], position: number, lang: DateWords): Match<DayPart> | null {
+  const morning = phraseAt(words, position, lang.morning);
+  const afternoon = phraseAt(words, position, lang.afternoon);
+  if (morning === 0 && afternoon === 0) {
+    return null;
+  }
+  return morning >= afternoon ? { value: "am", length: morning } : { value: "pm", length: afternoon };
+}
+
+function applyDayPart(hour: number, minute: number, dayPart: DayPart | undefined): TimeOfDay | null {
+  if (dayPart) {
+    if (hour < 1 || hour > 12) {
+      return null;
+    }
+    return { hour: (hour % 12) + (dayPart === "pm" ? 12 : 0), minute };
+  }
+  if (hour > 23) {
+    return null;
+  }
+  return { hour: hour >= 1 && hour <= 7 ? hour + 12 : hour, minute };
+}
+
+// an hour ("3", "three", "3pm") with the words that may follow it ("o'clock", "pm", "in the morning")
+function matchHour(
+  words: string[],
+  position: number,
+  minute: number,
+  lang: DateWords,
+): Match<TimeOfDay> | null {
+  const word = words[position];
+  if (word === undefined) {
+    return null;
+  }
+  let hour: number;
+  let length: number;
+  let dayPart: DayPart | undefined;
+  const attached = word.match(/^(\d{1,2})(am|pm)$/);
+  if (attached) {
+    hour = parseInt(attached[1]);
+    dayPart = attached[2] as DayPart;
+    length = 1;
+  } else {
+    const number = matchNumber(words, position, lang);
+    if (!number) {
+      return null;
+    }
+    hour = number.value;
+    length = number.length;
+    if (lang.oclock.includes(words[position + length])) {
+      length++;
+    }
+    const part = matchDayPart(words, position + length, lang);
+    if (part) {
+      dayPart = part.value;
+      length += part.length;
+    }
+  }
+  const value = applyDayPart(hour, minute, dayPart);
+  return value ? { value, length } : null;
+}
+
+// a number of minutes said as a fraction of an hour: "half" (30) or "quarter" (15)
+function matchFraction(words: string[], position: number, lang: DateWords): Match<number> | null {
+  if (lang.half.includes(words[position])) {
+    return { value: 30, length: 1 };
+  }
+  const quarter = phraseAt(words, position, lang.quarter);
+  return quarter > 0 ? { value: 15, length: quarter } : null;
+}
+
+// the minutes after an hour: "30" in "ten 30", "thirty" in "ten thirty", "oh five" in "ten oh five", and
+// "e mezza" in the Italian "tre e mezza"
+function matchMinutes(words: string[], position: number, lang: DateWords): Match<number> | null {
+  if (lang.and.includes(words[position])) {
+    const minutes = matchFraction(words, position + 1, lang) ?? matchNumber(words, position + 1, lang);
+    return minutes && minutes.value < 60 ? { value: minutes.value, length: minutes.length + 1 } : null;
+  }
+  if (words[position] === "oh") {
+    const number = matchNumber(words, position + 1, lang);
+    return number && number.value < 10 ? { value: number.value, length: number.length + 1 } : null;
+  }
+  const number = matchNumber(words, position, lang);
+  if (!number || number.value < 10 || number.value > 59) {
+    return null;
+  }
+  // "10 30" is only a time when the minutes are written with two digits
+  if (/^\d/.test(words[position]) && words[position].length !== 2) {
+    return null;
+  }
+  return number;
+}
+
+export function matchTime(words: string[], position: number, lang: DateWords = ENGLISH_DATES): Match<TimeOfDay> | null {
+  const word = words[position];
+  if (word === undefined) {
+    return null;
+  }
+  if (lang.noon.includes(word)) {
+    return { value: { hour: 12, minute: 0 }, length: 1 };
+  }
+  if (lang.midnight.includes(word)) {
+    return { value: { hour: 0, minute: 0 }, length: 1 };
+  }
+
+  // "halv tre" (Swedish): half an hour before three
+  if (lang.halfBefore && lang.half.includes(word)) {
+    const hour = matchHour(words, position + 1, 0, lang);
+    if (hour) {
+      const minutes = (minutesOf(hour.value) - 30 + 24 * 60) % (24 * 60);
+      return { value: fromMinutes(minutes), length: hour.length + 1 };
+    }
+  }
+
+  // "half past two", "quarter to ten", "twenty five past 4", "10 minutes to midnight"
+  let before = matchFraction(words, position, lang);
+  if (!before) {
+    before = matchNumber(words, position, lang);
+    if (before && lang.minutes.includes(words[position + before.length])) {
+      before = { value: before.value, length: before.length + 1 };
+    }
+  }
+  const relation = before && words[position + before.length];
+  const past = relation != null && lang.past.includes(relation);
+  if (before && before.value <= 30 && relation != null && (past || lang.to.includes(relation))) {
+    const after = position + before.length + 1;
+    const hour = [...lang.noon, ...lang.midnight].includes(words[after])
+      ? matchTime(words, after, lang)
+      : matchHour(words, after, 0, lang);
+    if (hour) {
+      const offset = past ? before.value : -before.value;
+      const minutes = (minutesOf(hour.value) + offset + 24 * 60) % (24 * 60);
+      return { value: fromMinutes(minutes), length: before.length + 1 + hour.length };
+    }
+  }
+
+  // "3:45", "3:45pm", "3:45 p.m."
+  const clock = word.match(/^(\d{1,2}):(\d\d)(am|pm)?$/);
+  if (clock) {
+    let length = 1;
+    let dayPart = clock[3] as DayPart | undefined;
+    const part = !dayPart && matchDayPart(words, position + 1, lang);
+    if (part) {
+      dayPart = part.value;
+      length += part.length;
+    }
+    const minute = parseInt(clock[2]);
+    const value = minute < 60 ? applyDayPart(parseInt(clock[1]), minute, dayPart) : null;
+    return value ? { value, length } : null;
+  }
+
+  // "ten thirty", "10 45 pm", "ten oh five in the morning", "tre e mezza"
+  const hour = matchNumber(words, position, lang);
+  if (hour) {
+    const minutes = matchMinutes(words, position + hour.length, lang);
+    if (minutes) {
+      const rest = matchDayPart(words, position + hour.length + minutes.length, lang);
+      const value = applyDayPart(hour.value, minutes.value, rest?.value);
+      if (value) {
+        return { value, length: hour.length + minutes.length + (rest?.length ?? 0) };
+      }
+    }
+  }
+
+  // "10", "ten o'clock", "3pm", "9 in the morning"
+  const plain = matchHour(words, position, 0, lang);
+  // a number written with words is only a time after "at" or when it is the whole answer ("the one on Friday")
+  if (plain && !/^\d/.test(word) && plain.length === hour?.length) {
+    const timeWord = lang.timeWords.includes(words[position - 1]);
+    return timeWord || words.length === plain.length ? plain : null;
+  }
+  return plain;
+}
+
+/*
+####################################################################################################
+Durations
+####################################################################################################
+*/
+
+// a number of hours, in minutes: "an hour", "two hours", "one and a half hours", "an hour and a half"
+function matchHours(words: string[], position: number, lang: DateWords): Match<number> | null {
+  let minutes: number;
+  let length = phraseAt(words, position, lang.anHour);
+  if (length > 0) {
+    minutes = 60;
+  } else {
+    const count =
+      matchNumber(words, position, lang) ?? (lang.a.includes(words[position]) ? { value: 1, length: 1 } : null);
+    if (!count) {
+      return null;
+    }
+    minutes = count.value * 60;
+    length = count.length;
+    const half = phraseAt(words, position + length, lang.andAHalf);
+    if (half > 0) {
+      minutes += 30;
+      length += half;
+    }
+    if (!lang.hours.includes(words[position + length])) {
+      return null;
+    }
+    length++;
+  }
+  const half = phraseAt(words, position + length, lang.andAHalf);
+  return half > 0 ? { value: minutes + 30, length: length + half } : { value: minutes, length };
+}
+
+export function matchDuration(
+  words: string[],
+  position: number,
+  lang: DateWords = ENGLISH_DATES,
+): Match<Duration> | null {
+  // "until 3", "until half past four": a number written with words is a time there too ("until three")
+  const until = phraseAt(words, position, lang.until);
+  if (until > 0) {
+    const end = matchTime(words, position + until, lang) ?? matchHour(words, position + until, 0, lang);
+    return end ? { value: { until: end.value }, length: until + end.length } : null;
+  }
+  const halfAnHour = phraseAt(words, position, lang.halfAnHour);
+  if (halfAnHour > 0) {
+    return { value: { minutes: 30 }, length: halfAnHour };
+  }
+  const hours = matchHours(words, position, lang);
+  if (hours) {
+    return hours.value > 0 ? { value: { minutes: hours.value }, length: hours.length } : null;
+  }
+  // "90 minutes"
+  const number = matchNumber(words, position, lang);
+  if (number && number.value > 0 && lang.minutes.includes(words[position + number.length])) {
+    return { value: { minutes: number.value }, length: number.length + 1 };
+  }
+  return null;
+}
+
+// how long a meeting starting at 'start' lasts, in minutes: not more than 0 if it ends before it starts
+export function lengthOf(duration: Duration, start: TimeOfDay): number {
+  return "minutes" in duration ? duration.minutes : minutesOf(duration.until) - minutesOf(start);
+}
+
+/*
+####################################################################################################
+Recurrences
+####################################################################################################
+*/
+
+// "every Monday", "every other Friday", "every third week", "every 2 days", "every month"
+export function matchRecurrence(
+  words: string[],
+  position: number,
+  lang: DateWords = ENGLISH_DATES,
+): Match<Recurrence> | null {
+  let interval = 2;
+  let length = phraseAt(words, position, lang.everyOther);
+  if (length === 0) {
+    length = phraseAt(words, position, lang.every);
+    if (length === 0) {
+      return null;
+    }
+    const every = matchOrdinal(words, position + length, lang) ?? matchNumber(words, position + length, lang);
+    if (every && every.value < 1) {
+      return null;
+    }
+    interval = every?.value ?? 1;
+    length += every?.length ?? 0;
+  }
+  const word = words[position + length];
+  const frequency: Frequency | null = lang.weekdays.includes(word) || lang.week.includes(word)
+    ? "weekly"
+    : lang.day.includes(word)
+      ? "daily"
+      : lang.month.includes(word)
+        ? "monthly"
+        : null;
+  if (frequency == null) {
+    return null;
+  }
+  const weekday = lang.weekdays.includes(word) ? lang.weekdays.indexOf(word) : null;
+  return { value: { frequency, interval, weekday, until: null, count: null }, length: length + 1 };
+}
+
+// "until the 3rd of March", "until Friday", "until June" (the last time is in May), "10 times"
+export function matchRecurrenceEnd(
+  words: string[],
+  position: number,
+  now: Date,
+  lang: DateWords = ENGLISH_DATES,
+): Match<RecurrenceEnd> | null {
+  const until = phraseAt(words, position, lang.until);
+  if (until > 0) {
+    const date = matchDate(words, position + until, now, lang);
+    if (date) {
+      return { value: { until: date.value }, length: until + date.length };
+    }
+    const month = lang.months.indexOf(words[position + until]);
+    const first = month >= 0 ? resolveDate(fromDate(now), 1, month + 1) : null;
+    return first ? { value: { until: addDays(first, -1) }, length: until + 1 } : null;
+  }
+  const count = matchNumber(words, position, lang);
+  return count && count.value > 0 && lang.times.includes(words[position + count.length])
+    ? { value: { count: count.value }, length: count.length + 1 }
+    : null;
+}
+
+// the first day of a meeting said with its weekday ("every Monday"): the next one, today included
+export function firstDay(rule: Recurrence, now: Date): CalendarDate | null {
+  return rule.weekday != null ? upcomingWeekday(fromDate(now), rule.weekday, false) : null;
+}
+
+// a rule with the end said apart from it ("every Monday ... until June"), which replaces the end it had
+export function endRecurrence(rule: Recurrence, end: RecurrenceEnd): Recurrence {
+  return { ...rule, until: null, count: null, ...end };
+}
+
+// the rule of a meeting first taking place on 'first': a weekly one takes place on the same day of the week, and
+// it is only left out on days it would take place on (not on the Mondays left out, once it is moved to Tuesday)
+export function anchorRecurrence(rule: Recurrence, first: CalendarDate): Recurrence {
+  const { except, ...rest } = rule;
+  const anchored = { ...rest, weekday: rule.frequency === "weekly" ? weekday(first) : null };
+  const kept = (except ?? []).filter((date) => {
+    const next = nextOccurrence(first, anchored, date);
+    return next != null && sameDate(next, date);
+  });
+  return kept.length > 0 ? { ...anchored, except: kept } : anchored;
+}
+
+// the n-th date of the rule from 'first' (0 is the first day), or null for a month without that day (the 31st)
+function nthDate(first: CalendarDate, rule: Recurrence, n: number): CalendarDate | null {
+  switch (rule.frequency) {
+    case "daily":
+      return addDays(first, n * rule.interval);
+    case "weekly":
+      return addDays(first, 7 * n * rule.interval);
+    case "monthly": {
+      const months = first.month - 1 + n * rule.interval;
+      const year = first.year + Math.floor(months / 12);
+      const month = (months % 12) + 1;
+      return first.day <= daysInMonth(year, month) ? { year, month, day: first.day } : null;
+    }
+  }
+}
+
+/*
+eachOccurrence function:
+Visits the days a meeting first taking place on 'first' takes place on, in order, as long as 'visit' returns true
+and the rule goes on (until its 'until' day, or 'count' times), leaving out its 'except' days. Without a rule, the
+meeting only takes place on its first day. A weekly meeting takes place on the day of the week of its first day, a
+monthly one on the same day of the month (and not at all in the months without it, as in iCalendar).
+*/
+function eachOccurrence(first: CalendarDate, rule: Recurrence | null, visit: (date: CalendarDate) => boolean): void {
+  if (rule == null) {
+    visit(first);
+    return;
+  }
+  let count = 0;
+  for (let n = 0; rule.count == null || count < rule.count; n++) {
+    const date = nthDate(first, rule, n);
+    if (date == null) {
+      continue;
+    }
+    if (rule.until != null && compareDates(date, rule.until) > 0) {
+      return;
+    }
+    count++;
+    if (!rule.except?.some((day) => sameDate(day, date)) && !visit(date)) {
+      return;
+    }
+  }
+}
+
+// the days the meeting takes place on, up to 'last' (included)
+export function occurrences(first: CalendarDate, rule: Recurrence | null, last: CalendarDate): CalendarDate[] {
+  const days: CalendarDate[] = [];
+  eachOccurrence(first, rule, (date) => {
+    if (compareDates(date, last) > 0) {
+      return false;
+    }
+    days.push(date);
+    return true;
+  });
+  return days;
+}
+
+// the first day the meeting takes place on from 'from' on (included), or null if it is over by then
+export function nextOccurrence(first: CalendarDate, rule: Recurrence | null, from: CalendarDate): CalendarDate | null {
+  let next: CalendarDate | null = null;
+  eachOccurrence(first, rule, (date) => {
+    if (compareDates(date, from) < 0) {
+      return true;
+    }
+    next = date;
+    return false;
+  });
+  return next;
+}
+
+/*
+####################################################################################################
+Saying dates and times back
+####################################################################################################
+*/
+
+function ordinal(n: number): string {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+function capitalise(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+export function weekdayName(date: CalendarDate): string {
+  return capitalise(WEEKDAYS[weekday(date)]);
+}
+
+// "Monday the 3rd of March", with the year when it is not the current one
+export function formatDate(date: CalendarDate, now: Date = new Date()): string {
+  const year = date.year !== now.getFullYear() ? ` ${date.year}` : "";
+  return `${weekdayName(date)} the ${ordinal(date.day)} of ${capitalise(MONTHS[date.month - 1])}${year}`;
+}
+
+// "10 am", "2:30 pm", "noon", "midnight"
+export function formatTime(time: TimeOfDay): string {
+  if (time.minute === 0 && time.hour === 12) {
+    return "noon";
+  }
+  if (time.minute === 0 && time.hour === 0) {
+    return "midnight";
+  }
+  const hour = time.hour % 12 === 0 ? 12 : time.hour % 12;
+  const minute = time.minute === 0 ? "" : `:${String(time.minute).padStart(2, "0")}`;
+  return `${hour}${minute} ${time.hour < 12 ? "am" : "pm"}`;
+}
+
+// "30 minutes", "an hour", "an hour and a half", "2 hours", "2 hours and 15 minutes"
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) {
+    return `${rest} minutes`;
+  }
+  if (hours === 1 && rest === 30) {
+    return "an hour and a half";
+  }
+  const whole = hours === 1 ? "an hour" : `${hours} hours`;
+  return rest === 0 ? whole : `${whole} and ${rest} minutes`;
+}
+
+// "every Monday", "every other day", "every 3 weeks on Friday", "every month until Saturday the 31st of May",
+// "every Monday, 10 times"
+export function formatRecurrence(rule: Recurrence, now: Date = new Date()): string {
+  const unit = { daily: "day", weekly: "week", monthly: "month" }[rule.frequency];
+  const day = rule.weekday != null ? capitalise(WEEKDAYS[rule.weekday]) : null;
+  let every: string;
+  if (rule.interval > 2) {
+    every = `every ${rule.interval} ${unit}s${day ? ` on ${day}` : ""}`;
+  } else {
+    every = `every ${rule.interval === 2 ? "other " : ""}${day ?? unit}`;
+  }
+  if (rule.until != null) {
+    return `${every} until ${formatDate(rule.until, now)}`;
+  }
+  return rule.count != null ? `${every}, ${rule.count} times` : every;
+}
@@ -1,53 +1,99 @@
 /*
 Imports:
 
-xstate: This line imports functions (assign, createActor, and setup) from the xstate library, which is used for 
+xstate: This line imports functions (assign and setup) from the xstate library, which is used for 
 creating and managing state machines. State machines are a way to model different states of your application and
 the transitions between them.
 
-speechstate: This imports Settings and speechstate from a custom speechstate module.
+./textspeech: This imports textspeech, an offline stand-in for the speechstate module (the ASR/TTS system). The
+machine uses it by default; app.ts replaces it with the real speechstate when running with Azure.
 
-@statelyai/inspect: This imports createBrowserInspector from @statelyai/inspect. This is a tool used for 
-inspecting and debugging XState state machines in a browser environment.
+./parser: This imports parse, which finds the slots (person, day, time, duration, recurrence, yes/no) in the user's
+utterance.
 
-./azure: This imports KEY from a local file named azure.ts. This KEY is an API key for Azure Cognitive 
-Services, which will be used for speech recognition and synthesis.
+./commands: This imports the global commands (help, repeat, go back, start over, cancel, and naming another
+language), which every Listen state understands.
 
-./types: This imports DMContext and DMEvents from a local file named types.ts. These define the TypeScript 
-types for the context (data) and events used in the state machine.
-*/
+./locale: This imports bundle, which gives everything that depends on the language of the dialogue
+(context.locale): what the system says, the grammar phrases and the words for dates and times, and the locale
+and voice of the ASR/TTS system. The machine itself does not depend on the language.
 
-import { assign, createActor, setup } from "xstate";
-import { Settings, speechstate } from "speechstate";
-import { createBrowserInspector } from "@statelyai/inspect";
-import { KEY } from "./azure";
-import { DMContext, DMEvents } from "./types";
+./bargein: This imports bargeIn, the transitions of the prompts the user may answer before they are said to the
+end (only with 'bargeIn' in the input).
 
+./form and ./appointment: The appointment task is described as a form (./appointment): the slots to fill, how to
+ask for them and how to confirm them. ./form generates the states asking for the slots from it.
 
+./contacts: This imports pronounce, which replaces the names of the contacts by their pronunciation before they
+are spoken. The contacts themselves are in the grammar (see useContacts in ./grammar).
 
-/*
-This section configures the settings for the ASR/TTS system, including the Azure endpoint, 
-API key, region, timeouts, locale, and voice. These settings are passed to the speechstate module.
+./names: This imports matchName, which guesses which contact the user meant when the recogniser spelled the name
+differently ("flat" for Vlad).
+
+./markup: This imports render, which turns the speech markup of the prompts (emphasis, pauses, times) into SSML
+for the real speech actor, or into plain text for the text mode, and literal, which keeps names from being taken
+for markup.
+
+./people: This imports updatePeople, which adds and removes the people named by the user ("also invite Lou",
+"not David") to and from the person slot, and listPeople, which reads the list back ("Vlad, Aya and Lou").
+
+./nbest: This imports rescore and alternatives, which choose the best of the recogniser's hypotheses for the 
+question that was asked, and find the other values the user may have meant.
+
+
+./manage: This imports readRequest and the other helpers of the dialogues asking about, moving and cancelling
+the appointments already in the calendar (see ListenIntent): which appointment the user means, and where it goes.
+
+./persistence: This imports the type of a saved session, which the machine can resume after the page was
+reloaded (see AskResume).
+
+./availability: This imports checkAvailability, which tells whether the day and time the user gave can be booked
+at all (working hours, holidays, the days people do not work, the minimum notice), and suggestAvailable, which
+finds the nearest day or time which can (see Unavailable).
+
+./calendar: This imports the calendar store, where confirmed appointments are saved. By default they are only 
+kept in memory; app.ts gives the machine a store backed by the browser's localStorage.
+
+./types: This imports DMContext, DMEvents, DMEmitted, DMInput, GroundingThresholds and FailureKind from a local file
+named types.ts. These define the TypeScript types for the context (data), the events, the events the machine emits
+and the input used in the state machine.
+
+This file only defines the dialogue manager (dmMachine). The page (settings, Azure key, speech mode and the actor
+running the machine) is set up in app.ts, so that the machine can also be run under Node, e.g. by the tests.
 */
 
-// const inspector = createBrowserInspector();: 
-// This line creates an instance of the browser inspector, which will help you visualize and debug the state machine.
-const inspector = createBrowserInspector();
-
-const azureCredentials = {
-  endpoint:
-    "https://northeurope.api.cognitive.microsoft.com/sts/v1.0/issuetoken",
-  key: KEY,
-};
-
-const settings: Settings = {
-  azureCredentials: azureCredentials,
-  azureRegion: "northeurope",
-  asrDefaultCompleteTimeout: 0,
-  asrDefaultNoInputTimeout: 5000,
-  locale: "en-US",
-  ttsDefaultVoice: "en-US-DavisNeural",
-};
+import { AnyActorLogic, assign, enqueueActions, fromPromise, not, raise, setup } from "xstate";
+import { Hypothesis } from "speechstate";
+import { ANY_TIME, AvailabilityRequest, checkAvailability, suggestAvailable, Unavailability } from "./availability";
+import {
+  Appointment,
+  CalendarStore,
+  createMemoryStore,
+  findAppointments,
+  findConflicts,
+  firstClash,
+  NewAppointment,
+  nearestFreeSlot,
+} from "./calendar";
+import { appointmentForm, meetingLength, recurrenceOf, sayRecurrence } from "./appointment";
+import { bargeIn } from "./bargein";
+import { commands } from "./commands";
+import { pronounce } from "./contacts";
+import { Duration, endRecurrence, fromDate, minutesOf, Recurrence } from "./datetime";
+import { failuresOf, formStates, FormSlot, isFilled, isMissing, listenState, nextQuestion, reask } from "./form";
+import { Command, currentContacts, Intent, lexicon } from "./grammar";
+import { bundle, DEFAULT_LOCALE, LocaleBundle } from "./locale";
+import { EMPTY_QUERY, isEmptyQuery, moveAppointment, queryOf, readRequest, refineQuery, targetOf } from "./manage";
+import { literal, render } from "./markup";
+import { matchName } from "./names";
+import { alternatives, rescore } from "./nbest";
+import { listPeople, resolveNamesakes, updatePeople } from "./people";
+import { Entity, parse, ParseOptions, ParseResult, Slot, SlotValues } from "./parser";
+import { SavedSession } from "./persistence";
+import { textspeech } from "./textspeech";
+import { DMContext, DMEmitted, DMEvents, DMInput, FailureKind, GroundingThresholds } from "./types";
+
+
 
 /*
 ####################################################################################################
@@ -57,124 +103,416 @@ const settings: Settings = {
 
 
 /*
-GrammarEntry interface: 
-This defines an interface called GrammarEntry in TypeScript. 
-An interface is a way to define the "shape" of an object. In this case, a GrammarEntry can have optional 
-properties person, day, and time, all of which are strings. 
-The ? after each property name indicates that the property is optional.
+parse function (imported from ./parser): 
+Every Listen state uses 'parse' to find the slots in what the user said. It returns, among other things, 
+'slots': an object with the value of each slot found anywhere in the utterance, e.g. 
+parse("I'm meeting Vlad at 10").slots is { person: "Vladislav Maraev", time: { hour: 10, minute: 0 } }.
+The words and phrases it knows are in the grammar (./grammar); days and times are understood by ./datetime, 
+and the 'now' option tells it which day "tomorrow" or "next Tuesday" is.
+*/
+
+/*
+texts and understand functions:
+The locale bundle of the language the dialogue is in, and 'parse' with the grammar and the words for dates of that
+language. Every utterance of the user is parsed with 'understand', and everything the system says comes from
+'texts'.
+*/
+function texts(context: DMContext): LocaleBundle {
+  return bundle(context.locale);
+}
+
+function parseOptions(context: DMContext): ParseOptions {
+  return { lexicon: lexicon(context.locale), dates: texts(context).dates, now: context.now() };
+}
+
+function understand(context: DMContext, utterance: string): ParseResult {
+  return parse(utterance, parseOptions(context));
+}
+
+/*
+commandOf and intentOf functions:
+The global command the user said, and what they want to do at the start of the dialogue (see ListenIntent).
+"Cancel the meeting" is asking to cancel an appointment, but while a meeting is booked it stops the booking like
+"cancel". And "cancel" followed by a person, a day or a time ("cancel Monday's meeting") is about an appointment.
 */
+function commandOf(slots: SlotValues): Command | undefined {
+  return slots.command ?? (slots.intent === "cancel" ? "cancel" : undefined);
+}
 
-interface GrammarEntry {
-  person?: string;
-  day?: string;
-  time?: string;
-  yesno?: boolean
+function intentOf(context: DMContext, utterance: string): Intent | null {
+  const { slots, found } = understand(context, utterance);
+  if (slots.intent) {
+    return slots.intent;
+  }
+  const aboutAppointment = found.some((slot) => valueSlots.includes(slot) || slot === "namesakes");
+  return slots.command === "cancel" && aboutAppointment ? "cancel" : null;
 }
 
+// the intents with a dialogue of their own, about the appointments already in the calendar
+const managing: (Intent | null)[] = ["query", "move", "cancel"];
+
+// the context once the dialogue starts over: everything said about the appointment (or the request) is forgotten
+const clearedValues = {
+  lastResult: null,
+  person: null,
+  unresolvedName: null,
+  guess: null,
+  day: null,
+  time: null,
+  duration: null,
+  recurrence: null,
+  endWithoutRepeat: false,
+  yesno: null,
+  conflict: null,
+  suggestion: null,
+  unavailable: null,
+  heard: [],
+  acknowledgement: null,
+  alternatives: [],
+  failures: {},
+  lastFailure: null,
+  skipped: [],
+  filled: [],
+  resumeState: null,
+  resume: null,
+  intent: null,
+  query: EMPTY_QUERY,
+  matches: [],
+  moveTo: null,
+  booking: null,
+} satisfies Partial<DMContext>;
+
+/*
+newAppointment function:
+Builds the appointment to save from the slots in the context, once the user has confirmed it.
+*/
+function newAppointment(context: DMContext): NewAppointment {
+  const duration = meetingLength(context);
+  const recurrence = recurrenceOf(context);
+  return {
+    people: context.person!,
+    date: context.day!,
+    time: context.yesno === true ? null : context.time,
+    wholeDay: context.yesno === true,
+    ...(duration != null && { duration }),
+    ...(recurrence && { recurrence }),
+  };
+}
 
 /*
-grammar object: 
-This creates a constant object named grammar. This object is a dictionary (or a map) where:
+availabilityRequest function:
+What is known of the appointment being booked, as it is checked against the availability policy (see
+./availability).
+*/
+function availabilityRequest(context: DMContext): AvailabilityRequest {
+  const duration = meetingLength(context);
+  const recurrence = recurrenceOf(context);
+  return {
+    people: context.person,
+    date: context.day,
+    time: context.time,
+    wholeDay: context.yesno === true,
+    ...(duration != null && { duration }),
+    ...(recurrence && { recurrence }),
+  };
+}
 
-Keys: are strings (e.g., "vlad", "monday", "8").
+function isAvailable(context: DMContext, request: AvailabilityRequest): boolean {
+  return checkAvailability(context.policy, request, context.now()) == null;
+}
 
-Values: are GrammarEntry objects. Each key represents a word or phrase, and its corresponding value 
-contains information about what that word/phrase represents (e.g., a person's name, a day of the week, a time).
+/*
+askNext:
+The transitions to the next question of the appointment form (see ./form): the first slot still missing is asked
+for, and once every slot is filled we check the calendar for a clash before the confirmation. It is used once
+what the user said has been grounded (see Ground below), so that the user can fill several slots with one answer
+and the questions for these slots are skipped.
+*/
+const askNext = nextQuestion(appointmentForm);
 
+/*
+valueSlots:
+The slots holding a value of the appointment, which are grounded and can be undone ("go back"). A yes or no, a
+command or the name of a part ("the time", see AskWhichPart) is not a value.
+*/
+const valueSlots: Slot[] = ["person", "day", "time", "duration", "recurrence"];
 
-[index: string] : defines the type of the key 'index', so a string type
+/*
+listenStates:
+Every state listening to the user. After "help" or "repeat", the dialogue resumes listening in the state where
+the command was said (see Resume).
 */
+const listenStates = [
+  ...appointmentForm.slots.map(listenState),
+  "ListenHeard",
+  "ListenClarify",
+  "ListenNamesake",
+  "ListenConflict",
+  "ListenUnavailable",
+  "ListenConfirm",
+  "ListenResume",
+  "ListenIntent",
+  "ListenQueryDay",
+  "ListenWhichAppointment",
+  "ListenMoveTo",
+  "ListenConfirmChange",
+  "ListenWhichPart",
+  "ListenGiveUp",
+];
 
-const grammar: { [index: string]: GrammarEntry } = {
-  vlad: { person: "Vladislav Maraev" },
-  aya: { person: "Nayat Astaiza Soriano" },
-  victoria: { person: "Victoria Daniilidou" },
-  matteo: { person: "Matteo Ripamonti"},
-  lou: { person: "Lou Reed"},
-  david: {person: "David Bowie"},
-  monday: { day: "Monday" },
-  tuesday: { day: "Tuesday" },
-  wednesday: { day: "Wednesday" },
-  thursday: { day: "Thursday" },
-  friday: { day: "Friday" },
-  saturday: { day: "Saturday" },
-  sunday: { day: "Sunday" },
-  "8": { time: "8:00" },
-  "9": { time: "9:00" },
-  "10": { time: "10:00" },
-  "11": { time: "11:00" },
-  "12": { time: "12:00" },
-  "13": { time: "13:00" },
-  "14": { time: "14:00" },
-  "15": { time: "15:00" },
-  "16": { time: "16:00" },
-  "17": { time: "17:00" },
-  "18": { time: "18:00" },
-  "19": { time: "19:00" },
-  "20": { time: "20:00" },
-  "yes": {yesno:true},
-  "yep": {yesno:true},
-  "of course": {yesno:true},
-  "sure": {yesno:true},
-  "no": {yesno:false},
-  "nope": {yesno:false},
-  "no way": {yesno:false},
-  "never": {yesno:false}, 
-};
+/*
+DEFAULT_GROUNDING:
+The confidence thresholds used when none are given in the input (see GroundingThresholds in ./types).
+*/
+const DEFAULT_GROUNDING: GroundingThresholds = { accept: 0.8, confirm: 0.5 };
 
+/*
+sayValue function:
+Says the value of a slot: a name as it is, a list of people as "Vladislav Maraev and Lou Reed", a date as "Friday the 31st of January", a time as "10 am".
+A duration is said as it was given: "for an hour and a half", or "until 3 pm". A recurrence is said with when it
+stops: "every other Friday until Saturday the 31st of May".
+*/
+function sayValue(context: DMContext, entity: Pick<Entity, "slot" | "value">): string {
+  switch (entity.slot) {
+    case "day":
+      return texts(context).formatDate(entity.value as Entity<"day">["value"], context.now());
+    case "time":
+      return texts(context).formatTime(entity.value as Entity<"time">["value"]);
+    case "duration": {
+      const duration = entity.value as Duration;
+      const { prompts, formatDuration, formatTime } = texts(context);
+      return "until" in duration
+        ? prompts.until(formatTime(duration.until))
+        : prompts.lasting(formatDuration(duration.minutes));
+    }
+    case "recurrence":
+      return sayRecurrence(context, entity.value as Recurrence);
+    case "person":
+      return Array.isArray(entity.value)
+        ? listPeople(entity.value.map(literal), texts(context).and)
+        : literal(String(entity.value));
+    default:
+      return String(entity.value);
+  }
+}
 
+/*
+describeHeard function:
+Says back the slots filled by the user's last answer ('heard'), e.g. "Vladislav Maraev on Friday the 31st of 
+January at 10 am for an hour and then every Friday". It is used to acknowledge them, or to check them with the user.
+*/
+function describeHeard(context: DMContext): string {
+  const recurrence = recurrenceOf(context);
+  return texts(context).prompts.heard(
+    context.heard.includes("person") ? sayValue(context, { slot: "person", value: context.person! }) : null,
+    context.heard.includes("day") ? sayValue(context, { slot: "day", value: context.day! }) : null,
+    context.heard.includes("time") ? sayValue(context, { slot: "time", value: context.time! }) : null,
+    context.heard.includes("duration") ? sayValue(context, { slot: "duration", value: context.duration! }) : null,
+    context.heard.includes("recurrence") ? sayValue(context, { slot: "recurrence", value: recurrence! }) : null,
+  );
+}
 
 /*
-isInGrammar function: This function checks if a given utterance (user input) exists as a key in the 
-grammar object (case-insensitive). 
-It returns true if the utterance is in the grammar, and false otherwise.
+resumeUtterance function:
+Asks whether to go on with the appointment of a saved session: "We were booking a meeting with Vladislav Maraev on
+Monday the 3rd of February, shall we continue?"
 */
+function resumeUtterance(context: DMContext, session: SavedSession): string {
+  const { person, day, time } = session.values;
+  return texts(context).prompts.resume(
+    person != null ? sayValue(context, { slot: "person", value: person }) : null,
+    day != null ? sayValue(context, { slot: "day", value: day }) : null,
+    time != null ? sayValue(context, { slot: "time", value: time }) : null,
+  );
+}
 
-function isInGrammar(utterance: string) {
-  return utterance.toLowerCase() in grammar;
+/*
+clarifyUtterance function:
+Offers the value we understood and the alternatives from the other hypotheses: "Did you mean Vladislav Maraev or 
+Lou Reed?"
+*/
+function clarifyUtterance(context: DMContext): string {
+  const slot = context.alternatives[0].slot;
+  const values = [
+    sayValue(context, { slot, value: context[slot as "person" | "day" | "time" | "duration"]! as Entity["value"] }),
+    ...context.alternatives.map((entity) => sayValue(context, entity)),
+  ];
+  return texts(context).prompts.didYouMean(listPeople(values, texts(context).or));
 }
 
+/*
+namesakesUtterance function:
+Asks which of the people sharing a name the user meant: "Which David do you mean: David Bowie or David Lynch?"
+*/
+function namesakesUtterance(context: DMContext): string {
+  const namesakes = context.unresolvedName!;
+  return texts(context).prompts.whichNamesake(
+    literal(namesakes.name),
+    listPeople(namesakes.people.map(literal), texts(context).or),
+  );
+}
 
 /*
-getPerson Function:
+conflictUtterance function:
+Tells the user which appointment clashes with the one they are booking, and what the nearest free slot is.
+*/
+function clashUtterance(context: DMContext, proposal: NewAppointment): string {
+  const { prompts, formatDate, formatTime, and } = texts(context);
+  const conflict = context.conflict!;
+  return prompts.clash(
+    listPeople(conflict.people.map(literal), and),
+    // the day they clash, which is not the first day of a recurring appointment
+    formatDate(firstClash(conflict, proposal) ?? conflict.date, context.now()),
+    conflict.wholeDay || !conflict.time ? null : formatTime(conflict.time),
+  );
+}
 
-This function also takes a string utterance as input.
+function conflictUtterance(context: DMContext): string {
+  const { prompts, formatDate, formatTime } = texts(context);
+  const clash = clashUtterance(context, newAppointment(context));
+
+  const suggestion = context.suggestion;
+  if (suggestion == null) {
+    return `${clash} ${context.yesno === true ? prompts.noFreeDay : prompts.noFreeTime} ${prompts.pickAnother}`;
+  } else if (suggestion.time == null) {
+    return `${clash} ${prompts.nextFreeDay(formatDate(suggestion.date, context.now()))}`;
+  }
+  return `${clash} ${prompts.nearestFreeTime(formatTime(suggestion.time))}`;
+}
 
-grammar[utterance.toLowerCase()]: This attempts to access the grammar object using the lowercase version 
-of the utterance as the key. If the key exists, it returns the corresponding GrammarEntry object. If the 
-key does not exist, it returns undefined.
+/*
+unavailableUtterance function:
+Tells the user why the day or time cannot be booked: "Nayat Astaiza Soriano doesn't work on Fridays."
+*/
+function unavailableUtterance(context: DMContext, unavailable: Unavailability): string {
+  const { prompts, formatDate, formatTime } = texts(context);
+  switch (unavailable.reason) {
+    case "holiday":
+      return prompts.holiday(
+        formatDate(unavailable.date, context.now()),
+        unavailable.name && literal(unavailable.name),
+      );
+    case "dayOff":
+      return prompts.dayOff(literal(unavailable.person), unavailable.weekday);
+    case "away":
+      return prompts.away(literal(unavailable.person), formatDate(unavailable.date, context.now()));
+    case "closed":
+      return prompts.closed(unavailable.weekday);
+    case "tooSoon":
+      return prompts.tooSoon(unavailable.notice);
+    case "outsideHours":
+      return prompts.outsideHours(formatTime(unavailable.hours.start), formatTime(unavailable.hours.end));
+    case "repeats": {
+      const because = unavailableUtterance(context, unavailable.because);
+      return `${prompts.repeatsOn(formatDate(unavailable.date, context.now()))} ${because}`;
+    }
+    case "except": {
+      const dates = unavailable.days.map((day) => formatDate(day.date, context.now()));
+      const because = unavailable.days.map((day) => unavailableUtterance(context, day.because));
+      return [prompts.repeatsOn(listPeople(dates, texts(context).and)), ...because].join(" ");
+    }
+  }
+}
 
-|| {}: This is the "or" operator. If grammar[utterance.toLowerCase()] is undefined (meaning the utterance 
-is not in the grammar), then the expression evaluates to an empty object {}. This is a way to avoid errors 
-when trying to access properties of undefined.
+/*
+offerUtterance function:
+Why the day or time cannot be booked, and the nearest one allowed, which the user can take ("How about Monday the
+3rd of February?"), or else that they have to pick another one. A recurring meeting which cannot take place on
+every day it would is booked without the holidays and days away, if the user wants it ("Shall I book it every
+Monday, except on Monday the 21st of April?"), or else only once (see 'dropUnavailable').
+*/
+function offerUtterance(context: DMContext): string {
+  const { prompts, formatDate, formatTime } = texts(context);
+  const reason = unavailableUtterance(context, context.unavailable!);
+  const suggestion = context.suggestion;
+  if (suggestion?.recurrence) {
+    return `${reason} ${prompts.leaveOut(sayRecurrence(context, suggestion.recurrence))}`;
+  } else if (context.unavailable!.slot === "recurrence") {
+    return `${reason} ${prompts.onlyOnce}`;
+  } else if (suggestion == null) {
+    return `${reason} ${prompts.pickAnother}`;
+  } else if (suggestion.time == null) {
+    return `${reason} ${prompts.availableDay(formatDate(suggestion.date, context.now()))}`;
+  }
+  return `${reason} ${prompts.availableTime(formatTime(suggestion.time))}`;
+}
 
-.person: This attempts to access the person property of the GrammarEntry object (or the empty object if the 
-utterance wasn't in the grammar). If the person property exists, its value (a string) is returned. If the 
-person property does not exist (or if the utterance wasn't in the grammar, and we're looking at the empty 
-object), then undefined is returned.
+/*
+endsBadly and badDurationUtterance functions:
+Whether the duration the user gave does not fit the start time: the meeting would end before it starts ("at 3 until
+2") or on the next day. And what we tell them then.
 */
+function endsBadly(context: DMContext): boolean {
+  const length = context.duration != null ? meetingLength(context) : null;
+  return length != null && (length <= 0 || minutesOf(context.time!) + length > 24 * 60);
+}
 
-// || : 'or' operator 
-// .person : access to person property from the grammar object
-function getPerson(utterance: string) {
-  return (grammar[utterance.toLowerCase()] || {}).person;
+function badDurationUtterance(context: DMContext): string {
+  const { prompts, formatTime } = texts(context);
+  return meetingLength(context)! <= 0 ? prompts.endsBeforeStart(formatTime(context.time!)) : prompts.endsNextDay;
 }
 
-function getNumber(utterance: string) {
-  return (grammar[utterance.toLowerCase()] || {}).day;
+/*
+meetingUtterance function:
+Says an appointment of the calendar: "with Lou Reed on Friday the 31st of January at 10 am". The day is left out
+when it is already known ('withDate').
+*/
+function meetingUtterance(context: DMContext, appointment: Appointment, withDate = true): string {
+  return texts(context).prompts.meeting(
+    sayValue(context, { slot: "person", value: appointment.people }),
+    withDate ? sayValue(context, { slot: "day", value: appointment.date }) : null,
+    appointment.wholeDay || !appointment.time ? null : sayValue(context, { slot: "time", value: appointment.time }),
+  );
 }
 
-function getFullDay(utterance: string) {
-  return (grammar[utterance.toLowerCase()] || {}).yesno;
+/*
+agendaUtterance and whichAppointmentUtterance functions:
+The appointments found for the user's question ("You have 2 meetings on Friday: with Lou Reed at 10 am and with
+Aya Ng for the whole day"), and the question which one they mean, when several were found for the one to move or
+cancel.
+*/
+function agendaUtterance(context: DMContext): string {
+  const { query, matches } = context;
+  return texts(context).prompts.agenda(
+    matches.length,
+    query.date ? sayValue(context, { slot: "day", value: query.date }) : null,
+    listPeople(
+      matches.map((appointment) => meetingUtterance(context, appointment, query.date == null)),
+      texts(context).and,
+    ),
+  );
 }
 
-function getTime(utterance: string) {
-  return (grammar[utterance.toLowerCase()] || {}).time;
+function whichAppointmentUtterance(context: DMContext): string {
+  const meetings = context.matches.map((appointment) => meetingUtterance(context, appointment));
+  return texts(context).prompts.whichAppointment(meetings.length > 1 ? listPeople(meetings, texts(context).or) : null);
 }
 
-function getConfirm(utterance: string) {
-  return (grammar[utterance.toLowerCase()] || {}).yesno;
+/*
+changeUtterance function:
+Asks the user to confirm the change: "Do you want me to move your meeting with Lou Reed on Friday the 31st of
+January at 10 am to Monday the 3rd of February at 10 am?"
+*/
+function changeUtterance(context: DMContext): string {
+  const { prompts } = texts(context);
+  const appointment = context.matches[0];
+  const meeting = meetingUtterance(context, appointment);
+  if (context.intent === "cancel") {
+    return prompts.confirmCancel(meeting);
+  }
+  const moved = moveAppointment(appointment, context.moveTo!);
+  return prompts.confirmMove(
+    meeting,
+    prompts.heard(
+      null,
+      sayValue(context, { slot: "day", value: moved.date }),
+      moved.wholeDay || !moved.time ? null : sayValue(context, { slot: "time", value: moved.time }),
+      null,
+      moved.recurrence ? sayValue(context, { slot: "recurrence", value: moved.recurrence }) : null,
+    ),
+  );
 }
+
 /*
 ####################################################################################################
 ####################################################################################################
@@ -186,7 +524,7 @@ function getConfirm(utterance: string) {
 setup({ ... }): 
 This function from xstate is used to configure the state machine. 
 */
-const dmMachine = setup({
+const dmSetup = setup({
 
   // types: { context: {} as DMContext, events: {} as DMEvents }: 
   // Specifies the TypeScript types for the state machine's context and events. This helps with type 
@@ -203,9 +541,119 @@ const dmMachine = setup({
     events: {} as DMEvents: 
     Defines the type of the events that the state machine can react to, casting an empty object to the DMEvents 
     type (imported from ./types). The DMEvents type includes SpeechStateExternalEvent and CLICK event.
+
+    emitted: {} as DMEmitted:
+    Defines the type of the events the state machine emits for whoever watches it (actor.on(...)), such as a
+    MARKUP_ERROR when a prompt could not be rendered.
     */
     context: {} as DMContext,
     events: {} as DMEvents,
+    input: {} as DMInput,
+    emitted: {} as DMEmitted,
+  },
+
+  // actors:
+  // The speech actor used by the machine, referenced by name when it is spawned. Naming it here lets us swap it
+  // with dmMachine.provide(...) without touching the machine itself: app.ts provides the real speechstate, the
+  // tests provide a scripted fake. By default it is the offline textspeech, which does not need a browser.
+  // It is typed as AnyActorLogic because any actor speaking the speechstate protocol will do.
+  actors: {
+    speechstate: textspeech as AnyActorLogic,
+
+    // saveAppointment: writes the confirmed appointment to the calendar store (see SaveAppointment below).
+    saveAppointment: fromPromise(
+      ({ input }: { input: { store: CalendarStore; appointment: NewAppointment } }) =>
+        input.store.add(input.appointment),
+    ),
+
+    // listAppointments: reads the appointments already in the calendar store (see CheckAvailability below).
+    listAppointments: fromPromise(({ input }: { input: { store: CalendarStore } }) => input.store.list()),
+
+    // changeAppointment: moves the appointment to its new day and time, or cancels it (no 'change'), see SaveChange.
+    changeAppointment: fromPromise(
+      async ({
+        input,
+      }: {
+        input: { store: CalendarStore; appointment: Appointment; change: NewAppointment | null };
+      }) => {
+        if (input.change == null) {
+          await input.store.remove(input.appointment.id);
+        } else {
+          await input.store.update(input.appointment.id, input.change);
+        }
+      },
+    ),
+  },
+
+  // guards:
+  // Reusable conditions. 'slotMissing' tells whether a slot of a form still has to be asked for: it is used by
+  // 'askNext' above to choose the next question, skipping the questions for slots already filled.
+  guards: {
+    // the user said "yes" (or "sure", "of course"...) to the last question
+    confirmed: ({ context }) =>
+      context.lastResult != null && understand(context, context.lastResult[0].utterance).slots.yesno === true,
+    // the user said "no" (or "nope", "no way"...) to the last question
+    rejected: ({ context }) =>
+      context.lastResult != null && understand(context, context.lastResult[0].utterance).slots.yesno === false,
+    // the user said "yes" or "no" to a question which is not a yes/no question (see 'retry' in ./form)
+    saidYesOrNo: ({ context }) =>
+      context.lastResult != null && understand(context, context.lastResult[0].utterance).slots.yesno != null,
+    // the user said when the meeting stops, but it does not repeat (see NoRepeat)
+    endWithoutRepeat: ({ context }) => context.endWithoutRepeat,
+    // a session saved before the page was reloaded, which the user has not yet said whether to go on with
+    canResume: ({ context }) => context.resume != null,
+    // the duration given does not fit the start time (see BadDuration)
+    badDuration: ({ context }) => endsBadly(context),
+    // the day or time given so far cannot be booked (see ./availability)
+    notAvailable: ({ context }) => !isAvailable(context, availabilityRequest(context)),
+    // the user gave another day or time in their last answer
+    newDayOrTime: ({ context }) => {
+      const found = context.lastResult != null ? understand(context, context.lastResult[0].utterance).found : [];
+      return found.includes("day") || found.includes("time");
+    },
+    // the user named a part of the appointment ("the time"), see AskWhichPart
+    partNamed: ({ context }) =>
+      context.lastResult != null && understand(context, context.lastResult[0].utterance).slots.part !== undefined,
+    // the person in the user's last answer was guessed from a name spelled differently (see ./names)
+    guessedName: ({ context }) => context.guess != null,
+    // the user named someone several people could be, and we have not asked which one yet (see AskNamesake)
+    unresolvedName: ({ context }) => context.unresolvedName != null,
+    // the user's last answer filled at least one of the slots person, day and time
+    heardSlots: ({ context }) => context.heard.length > 0,
+    // other hypotheses gave other values for the slot that was asked (see ./nbest)
+    ambiguous: ({ context }) => context.alternatives.length > 0,
+    // how sure the recogniser was of the user's last answer (see GroundingThresholds in ./types)
+    lowConfidence: ({ context }) => context.lastResult![0].confidence < context.grounding.confirm,
+    mediumConfidence: ({ context }) => context.lastResult![0].confidence < context.grounding.accept,
+    // the question has been asked again as many times as allowed
+    outOfReprompts: ({ context }, params: { question: string }) =>
+      failuresOf(context, params.question) >= context.maxReprompts,
+    // the user said one of the global commands (see ./commands)
+    command: ({ context, event }, params: { command: Command }) =>
+      event.type === "RECOGNISED" && commandOf(understand(context, event.value[0].utterance).slots) === params.command,
+    // the user named another language than the one we speak ("speak Swedish"), see LanguageSwitched
+    languageNamed: ({ context, event }) => {
+      const language = event.type === "RECOGNISED" && understand(context, event.value[0].utterance).slots.language;
+      return !!language && language !== context.locale;
+    },
+    // the user asked about, or to move or cancel, an appointment of the calendar (see ListenIntent)
+    managingNamed: ({ context, event }) =>
+      event.type === "RECOGNISED" && managing.includes(intentOf(context, event.value[0].utterance)),
+    // what the user wants to do (null: they have not said it yet)
+    intentIs: ({ context }, params: { intent: Intent | null }) => context.intent === params.intent,
+    // the user has not said which appointment they mean
+    noQuery: ({ context }) => isEmptyQuery(context.query),
+    // no appointment, or several, matches what the user said
+    noMatch: ({ context }) => context.matches.length === 0,
+    severalMatches: ({ context }) => context.matches.length > 1,
+    // the user said where the appointment they move goes
+    hasMoveTo: ({ context }) => context.moveTo != null,
+    // the Listen state where a command was said
+    resumeAt: ({ context }, params: { state: string }) => context.resumeState === params.state,
+    slotMissing: ({ context }, params: { slot: FormSlot }) => isMissing(params.slot, context),
+    slotFilled: ({ context }, params: { slot: FormSlot }) => isFilled(params.slot, context),
+    // a slot of the appointment form is still to be asked for (see 'askNext')
+    slotsMissing: ({ context }) => appointmentForm.slots.some((slot) => isMissing(slot, context)),
   },
 
   // actions: 
@@ -214,48 +662,393 @@ const dmMachine = setup({
   actions: {  
     /** define your actions here */
 
-    // "spst.speak": 
-    // This action sends a 'SPEAK' event to the 'speechstate' actor (spstRef). It takes a 'params' object with an 
-    // 'utterance' property, which is the text to be spoken.
-    "spst.speak": ({ context }, params: { utterance: string }) =>
-      context.spstRef.send({
-        type: "SPEAK",
-        value: {
-          utterance: params.utterance,
-        },
-      }),
+    // "spst.speak":
+    // This action sends a 'SPEAK' event to the 'speechstate' actor (spstRef). It takes a 'params' object with an
+    // 'utterance' property, which is the text to be spoken. The utterance is also remembered in 'lastPrompt', so
+    // that the user can ask for it again ("repeat that"), unless 'remember' is false. The names of the contacts
+    // are spoken with their pronunciation, if 'pronounce' was given in the input. It is spoken in the language
+    // of the dialogue, with its voice (see ./locale), or with the 'voice' given in 'params'.
+    // The utterance may use the speech markup of ./markup ("on *Monday*", "[pause]"): it is sent as SSML if
+    // 'ssml' was given in the input, and as plain text otherwise. A prompt whose markup is not valid is said as it
+    // is written, and a MARKUP_ERROR is emitted for the session log.
+    // A prompt the user may interrupt ('bargeIn' in 'params', see ./bargein) is listened to while it is said, if
+    // barge-in was asked for in the input.
+    "spst.speak": enqueueActions(
+      ({ context, enqueue }, params: { utterance: string; remember?: boolean; voice?: string; bargeIn?: boolean }) => {
+        if (params.remember !== false) {
+          enqueue.assign({ lastPrompt: params.utterance });
+        }
+        const listening = context.bargeIn && params.bargeIn === true;
+        if (params.bargeIn) {
+          enqueue.assign({ listening, promptHeard: !listening });
+        }
+        const utterance = context.pronounce ? pronounce(params.utterance, currentContacts()) : params.utterance;
+        const rendered = render(utterance, context.ssml);
+        if (rendered.error) {
+          enqueue.emit({ type: "MARKUP_ERROR", utterance, message: rendered.error.message });
+        }
+        enqueue.sendTo(context.spstRef, {
+          type: "SPEAK",
+          value: {
+            utterance: rendered.text,
+            locale: texts(context).speech.locale,
+            voice: params.voice ?? texts(context).speech.voice,
+          },
+        });
+        if (listening) {
+          enqueue.sendTo(context.spstRef, { type: "LISTEN", value: { locale: texts(context).speech.locale } });
+        }
+      },
+    ),
 
     // "spst.listen": 
-    // This action sends a 'LISTEN' event to the 'speechstate' actor, telling it to start listening for speech input.
-    "spst.listen": ({ context }) =>
-      context.spstRef.send({
+    // This action sends a 'LISTEN' event to the 'speechstate' actor, telling it to start listening for speech input
+    // in the language of the dialogue. After a prompt the user may interrupt, it is already listening.
+    "spst.listen": enqueueActions(({ context, enqueue }) => {
+      if (context.listening) {
+        enqueue.assign({ listening: false });
+        return;
+      }
+      enqueue.sendTo(context.spstRef, {
         type: "LISTEN",
-      }),
+        value: { locale: texts(context).speech.locale },
+      });
+    }),
+
+    // trackPrompt and handOver: a prompt the user may interrupt was said to the end ('heard'), or the user
+    // answered it before; the answer is then handed over to the Listen state (see ./bargein).
+    trackPrompt: assign((_, params: { heard: boolean }) => ({ promptHeard: params.heard })),
+    handOver: raise(({ event }) => event),
     
-    clearValues: assign({
+    /*
+    fillSlots:
+    The user may say more than what was asked ("Vlad on Friday at 10" when asked for the person). This action 
+    stores every slot found in the utterance (person, day, time and duration) at once, so that the questions for
+    these slots can be skipped later. A time or a duration also tells us that the meeting will not take the whole
+    day. How often the meeting takes place ("every Monday") comes with its first day; when it stops ("until June")
+    is added to it, even if it is said in a later answer (without it, we tell the user, see NoRepeat). A yes or no
+    is only stored when it was asked for ('expected'), as the answer to a yes/no question of the form.
+    The people named are added to or removed from the person slot, or replace it (see ./people). When the person
+    was asked and no name was understood, the words most like the name of a contact are taken for it, as a guess
+    to check with the user (see ./names and CheckGuess).
+    It also stores the hypotheses in 'lastResult', and the slots it filled in 'heard', so that they can be 
+    grounded.
+    The whole N-best list is used: the hypotheses are rescored for the slot that was asked ('expected'), the 
+    best one is used and comes first in 'lastResult', and the other values the user may have meant are kept in 
+    'alternatives'.
+    */
+    fillSlots: assign(({ context }, params: { hypotheses: Hypothesis[]; expected: Slot | null }) => {
+      const interpretations = rescore(params.hypotheses, params.expected, parseOptions(context));
+      const { utterance, slots, found, entities } = interpretations[0].result;
+      const recurrence = slots.recurrence ?? context.recurrence;
+      const ended = slots.recurrenceEnd != null && recurrence != null && !found.includes("recurrence");
+      let people = updatePeople(context.person, entities);
+      const guess = params.expected === "person" && !people.changed
+        ? matchName(utterance, currentContacts(), entities)
+        : null;
+      if (guess) {
+        const start = utterance.indexOf(guess.text);
+        const end = start + guess.text.length;
+        const named: Entity = { slot: "person", value: guess.person, text: guess.text, start, end };
+        people = updatePeople(context.person, [...entities, named].sort((a, b) => a.start - b.start));
+      }
+      return {
+        lastResult: interpretations.map((interpretation) => interpretation.hypothesis),
+        alternatives: alternatives(interpretations, params.expected).filter((entity) => entity.slot !== "yesno"),
+        heard: [
+          ...(people.changed && (people.people != null || people.namesakes != null) ? ["person" as const] : []),
+          ...found.filter((slot) => valueSlots.includes(slot) && slot !== "person"),
+          ...(ended ? ["recurrence" as const] : []),
+        ],
+        filled: [
+          ...context.filled,
+          ...found.filter((slot) => valueSlots.includes(slot) || (slot === "yesno" && params.expected === "yesno")),
+          ...(guess ? ["person" as const] : []),
+          ...(ended ? ["recurrence" as const] : []),
+        ],
+        guess,
+        acknowledgement: null,
+        lastFailure: null,
+        endWithoutRepeat: slots.recurrenceEnd != null && recurrence == null,
+        ...(people.changed && { person: people.people, unresolvedName: people.namesakes }),
+        ...(slots.day && { day: slots.day }),
+        ...(slots.time && { time: slots.time, yesno: false }),
+        ...(slots.duration && { duration: slots.duration, yesno: false }),
+        ...(recurrence && slots.recurrenceEnd && { recurrence: endRecurrence(recurrence, slots.recurrenceEnd) }),
+        ...(slots.recurrence && !slots.recurrenceEnd && { recurrence: slots.recurrence }),
+        ...(params.expected === "yesno" && slots.yesno !== undefined && { yesno: slots.yesno }),
+      };
+    }),
+
+    /*
+    pickNamesake:
+    The user said which of the people sharing a name they meant (see AskNamesake): they are invited (or removed).
+    */
+    pickNamesake: assign(({ context }, params: { hypotheses: Hypothesis[] }) => {
+      const namesakes = context.unresolvedName!;
+      const picked = understand(context, params.hypotheses[0].utterance).entities.find(
+        (entity) => entity.slot === "person" && namesakes.people.includes(entity.value as string),
+      );
+      return {
+        lastResult: params.hypotheses,
+        ...(picked && {
+          person: resolveNamesakes(context.person, namesakes, picked.value as string),
+          unresolvedName: null,
+        }),
+      };
+    }),
+
+    /*
+    rememberListenState:
+    The user said a command in a Listen state: we will resume listening there (see Resume).
+    */
+    rememberListenState: assign((_, params: { state: string }) => ({ resumeState: params.state })),
+
+    /*
+    undoLastSlot:
+    "Go back": the last slot filled (and still filled) is emptied, so that 'askNext' asks for it again.
+    */
+    undoLastSlot: assign(({ context }) => {
+      const filled = [...context.filled];
+      while (filled.length > 0) {
+        const slot = filled.pop()! as "person" | "day" | "time" | "duration" | "recurrence" | "yesno";
+        if (context[slot] != null) {
+          return { filled, [slot]: null, heard: [], acknowledgement: null, lastFailure: null };
+        }
+      }
+      return { filled, heard: [], acknowledgement: null, lastFailure: null };
+    }),
+
+    /*
+    switchLanguage:
+    The user named another language: the dialogue goes on in it. What was acknowledged, or why the question was
+    asked again, was said in the other language and is forgotten.
+    */
+    switchLanguage: assign(({ context, event }) => ({
+      locale: (event.type === "RECOGNISED" && understand(context, event.value[0].utterance).slots.language) ||
+        context.locale,
+      acknowledgement: null,
+      lastFailure: null,
+    })),
+
+    /*
+    countFailure:
+    The user said nothing or nothing we understood after a question (see 'reask' in ./form): what they said is
+    forgotten. The slots heard before are kept, as the question may be part of their grounding ("Which David do you
+    mean?", "Monday, is that right?").
+    */
+    countFailure: assign(({ context }, params: { question: string; kind: FailureKind }) => {
+      const failures = context.failures[params.question] ?? { noInput: 0, noMatch: 0 };
+      return {
+        lastResult: null,
+        failures: {
+          ...context.failures,
+          [params.question]: { ...failures, [params.kind]: failures[params.kind] + 1 },
+        },
+        lastFailure: params.kind,
+      };
+    }),
+
+    /*
+    skipSlot:
+    An optional slot of a form got no answer: it is left empty and not asked again.
+    */
+    skipSlot: assign(({ context }, params: { question: string }) => ({
       lastResult: null,
-      person: null,
-      day: null,
-      time: null,
-      yesno: null
-    })
+      heard: [],
+      skipped: [...context.skipped, params.question],
+    })),
+
+    /*
+    acknowledge:
+    What the user said is believed: it will be said back at the start of the next question.
+    */
+    acknowledge: assign(({ context }) => ({ acknowledgement: describeHeard(context) })),
+
+    /*
+    forgetHeard:
+    What the user said is not believed (or they told us we heard it wrong): the slots it filled are emptied, so 
+    that 'askNext' asks for them again.
+    */
+    forgetHeard: assign(({ context }) => ({
+      ...(context.heard.includes("person") && { person: null, unresolvedName: null, guess: null }),
+      ...(context.heard.includes("day") && { day: null }),
+      ...(context.heard.includes("time") && { time: null, yesno: null }),
+      ...(context.heard.includes("duration") && { duration: null }),
+      ...(context.heard.includes("recurrence") && { recurrence: null }),
+      heard: [],
+      alternatives: [],
+    })),
+
+    /*
+    forgetPart:
+    The user said which part of the appointment is wrong (see AskWhichPart): it is emptied, so that 'askNext' asks
+    for it again. For a meeting taking the whole day, the time is asked by asking again whether it takes the whole
+    day. The duration is asked again even if the user did not answer it the first time. A wrong day also forgets
+    how often the meeting takes place, which was said with it.
+    */
+    forgetPart: assign(({ context }) => {
+      const part = understand(context, context.lastResult![0].utterance).slots.part;
+      return {
+        ...(part === "person" && { person: null }),
+        ...(part === "day" && { day: null, recurrence: null }),
+        ...(part === "time" && { time: null, yesno: context.yesno === true ? null : false }),
+        ...(part === "duration" && { duration: null, skipped: context.skipped.filter((name) => name !== "duration") }),
+      };
+    }),
+
+    /*
+    forgetAmbiguousSlot:
+    We are asking the user which value they meant: the one we chose is forgotten until they answer. The 
+    alternatives are kept, so that the answer is rescored for the same slot.
+    */
+    forgetAmbiguousSlot: assign(({ context }) => {
+      const slot = context.alternatives[0].slot;
+      return {
+        ...(slot === "person" && { person: null }),
+        ...(slot === "day" && { day: null }),
+        ...(slot === "time" && { time: null, yesno: null }),
+        ...(slot === "duration" && { duration: null }),
+        heard: context.heard.filter((heard) => heard !== slot),
+      };
+    }),
+
+    /*
+    acceptSuggestion:
+    The user accepted the free slot we offered after a clash: it replaces the day and time of the appointment (or
+    how often it takes place, without the days it cannot, see Unavailable).
+    */
+    acceptSuggestion: assign(({ context }) => ({
+      day: context.suggestion!.date,
+      time: context.suggestion!.time ?? context.time,
+      recurrence: context.suggestion!.recurrence ?? context.recurrence,
+      conflict: null,
+      suggestion: null,
+      unavailable: null,
+    })),
+
+    /*
+    findAvailable and dropUnavailable:
+    The day or time the user gave cannot be booked: we find out why, and the nearest day or time which can be
+    (see ./availability). What the user said is not acknowledged. If they do not take what we offer, the day or
+    the time is forgotten, so that 'askNext' asks for it again. A recurring meeting which cannot take place on one
+    of its later days loses its recurrence, and is booked once (unless the user takes it without these days).
+    */
+    findAvailable: assign(({ context }) => {
+      const request = availabilityRequest(context);
+      const unavailable = checkAvailability(context.policy, request, context.now())!;
+      return {
+        unavailable,
+        suggestion: suggestAvailable(context.policy, request, unavailable, context.now()),
+        acknowledgement: null,
+      };
+    }),
+    /*
+    dropDuration:
+    The duration the user gave does not fit the start time (see BadDuration): it is forgotten, and not
+    acknowledged, so that 'askNext' asks for it again.
+    */
+    dropDuration: assign(({ context }) => ({
+      duration: null,
+      skipped: context.skipped.filter((name) => name !== "duration"),
+      acknowledgement: null,
+    })),
+
+    dropUnavailable: assign(({ context }) => ({
+      ...(context.unavailable?.slot === "day" && { day: null }),
+      ...(context.unavailable?.slot === "time" && { time: null }),
+      ...(context.unavailable?.slot === "recurrence" && { recurrence: null }),
+      unavailable: null,
+      suggestion: null,
+    })),
+
+    /*
+    dropClashingSlot:
+    The user wants to pick another time themselves: we forget the time (or, for a whole-day appointment, the day)
+    so that 'askNext' asks for it again.
+    */
+    dropClashingSlot: assign(({ context }) =>
+      context.yesno === true
+        ? { day: null, conflict: null, suggestion: null }
+        : { time: null, conflict: null, suggestion: null },
+    ),
+
+    /*
+    takeIntent:
+    What the user wants to do, answering the greeting (see ListenIntent). Giving a person, a day or a time
+    ("Vlad on Friday") is booking a meeting.
+    */
+    takeIntent: assign(({ context }) => ({
+      intent:
+        (context.lastResult && intentOf(context, context.lastResult[0].utterance)) ??
+        (context.heard.length > 0 ? "book" : null),
+    })),
+
+    /*
+    takeRequest:
+    The user asked about, or to move or cancel, an appointment: which one they mean (the query), and where it goes
+    (see ./manage).
+    */
+    takeRequest: assign(({ context }, params: { hypotheses: Hypothesis[] }) => {
+      const utterance = params.hypotheses[0].utterance;
+      const intent = intentOf(context, utterance)!;
+      const { query, moveTo } = readRequest(understand(context, utterance).entities, intent);
+      return { lastResult: params.hypotheses, intent, query, moveTo, matches: [] };
+    }),
+
+    /*
+    addToQuery and takeMoveTo:
+    The user said more about the appointment they mean ("the one with Lou"), or where it goes ("to Tuesday").
+    */
+    addToQuery: assign(({ context }, params: { hypotheses: Hypothesis[] }) => ({
+      lastResult: params.hypotheses,
+      query: refineQuery(context.query, queryOf(understand(context, params.hypotheses[0].utterance).entities)),
+    })),
+    takeMoveTo: assign(({ context }, params: { hypotheses: Hypothesis[] }) => ({
+      lastResult: params.hypotheses,
+      moveTo: targetOf(understand(context, params.hypotheses[0].utterance).entities),
+    })),
+    dropQuery: assign({ query: EMPTY_QUERY, matches: [] }),
+
+    /*
+    restoreSession and dropSession:
+    The user wants to go on with the saved session: its values are taken back, and the dialogue goes on at the
+    first question still missing. Or they do not, and it is forgotten.
+    */
+    restoreSession: assign(({ context }) => ({ ...context.resume!.values, resume: null, intent: "book" as const })),
+    dropSession: assign({ resume: null }),
+
+    /*
+    takeBooking action:
+    The confirmed appointment is kept aside to be saved, and the values it was built from are cleared at once, so
+    that the saved session is removed before the appointment is saved (a reload while it is saved would book it
+    twice).
+    */
+    takeBooking: assign(({ context }) => ({ ...clearedValues, booking: newAppointment(context) })),
+
+    clearValues: assign(clearedValues),
   },
-  
+});
+
+// DMStateConfig: the configuration of a state of the machine, typed with its context, events, actions and guards,
+// for the states generated elsewhere (see formStates in ./form).
+export type DMStateConfig = NonNullable<Parameters<typeof dmSetup.createMachine>[0]["states"]>[string];
+
 // .createMachine({ ... }): 
 // This function from 'xstate' creates the state machine. It takes an object that defines the machine's 
 // configuration, including its context, initial state, and states.
-}).createMachine({
+export const dmMachine = dmSetup.createMachine({
   // context: 
   // This defines the initial context of the state machine. The context is like the "memory" of the state machine; 
   // it holds data that can be accessed and updated by the states and transitions.
-  context: ({ spawn }) => ({
+  context: ({ spawn, input }) => ({
 
-    // spstRef: spawn(speechstate, { input: settings }): Spawns an actor (an independent, running instance) 
+    // spstRef: spawn("speechstate", { input: input.settings }): Spawns an actor (an independent, running instance) 
     // from the speechstate module. The settings object (containing Azure credentials and other configurations) is 
-    // passed as input to the speechstate actor. This establishes the link between the dialog manager and 
-    // the ASR/TTS system.
-    spstRef: spawn(speechstate, { input: settings }),   // 'spawn' calls the module 'speechstate'. The 'speechstate' module is 
-                                                        // hidden and we don't have to know what happens there.
+    // given to the machine as input (see app.ts) and passed on as input to the speechstate actor. This establishes 
+    // the link between the dialog manager and the ASR/TTS system. "speechstate" is the name given in 'actors' above, so it can be replaced (see app.ts).
+    spstRef: spawn("speechstate", { input: input.settings }),   // 'spawn' calls the module 'speechstate'. The 'speechstate' module is 
+                                                                      // hidden and we don't have to know what happens there.
 
     // lastResult: null: Initializes the 'lastResult' property to null. This property will store the result of the 
     // most recent speech recognition attempt.
@@ -263,7 +1056,90 @@ const dmMachine = setup({
     person: null,
     day: null,
     time: null,
-    yesno: null
+    duration: null,
+    recurrence: null,
+    yesno: null,
+
+    // endWithoutRepeat: the user said when the meeting stops ("until June"), but not that it repeats (see NoRepeat).
+    endWithoutRepeat: false,
+
+    // now: the clock against which relative dates ("tomorrow", "next Tuesday") are resolved. It can be given 
+    // in the input (the tests use a fixed date), otherwise it is the current time.
+    now: input.now ?? (() => new Date()),
+
+    // store: the calendar where confirmed appointments are saved.
+    store: input.store ?? createMemoryStore(),
+
+    // conflict: an appointment already in the calendar which clashes with the one being booked, and 
+    // suggestion: the nearest free slot we offer instead (see CheckAvailability).
+    conflict: null,
+    suggestion: null,
+
+    // policy: when meetings can be booked at all, and unavailable: why the day or time the user gave cannot be
+    // (see ./availability and Unavailable).
+    policy: input.policy ?? ANY_TIME,
+    unavailable: null,
+
+    // grounding: the confidence thresholds deciding whether what the user said is accepted, checked with them,
+    // or asked again (see Ground). heard: the slots filled by the last answer. acknowledgement: what we say back
+    // to the user at the start of the next question when their answer is accepted.
+    grounding: input.grounding ?? DEFAULT_GROUNDING,
+    heard: [],
+    acknowledgement: null,
+
+    // alternatives: the other values the user may have meant for the slot that was asked (see Clarify).
+    // unresolvedName: a name several people share, until the user tells us which one they meant (see
+    // AskNamesake).
+    alternatives: [],
+    unresolvedName: null,
+
+    // guess: the contact we took a name we did not know for, until the user tells us whether it is right (see
+    // CheckGuess).
+    guess: null,
+
+    // failures: how many times each question got no input or no answer we understood, the last of which was
+    // lastFailure; after maxReprompts of them, we give up (see 'retry' in ./form). skipped: the optional
+    // questions which got no answer.
+    failures: {},
+    lastFailure: null,
+    maxReprompts: input.maxReprompts ?? 3,
+    skipped: [],
+
+    // lastPrompt: what the system said last, for "repeat that". filled: the slots in the order they were filled,
+    // for "go back". resumeState: the Listen state to go back to after "help" or "repeat" (see ./commands).
+    lastPrompt: null,
+    filled: [],
+    resumeState: null,
+
+    // pronounce: whether the names of the contacts are said with their pronunciation (see ./contacts).
+    pronounce: input.pronounce ?? false,
+
+    // ssml: whether the prompts are sent to the speech actor as SSML (see ./markup), or as plain text.
+    ssml: input.ssml ?? false,
+
+    // locale: the language of the dialogue (see ./locale). It is kept when the dialogue starts over.
+    // A resumed session is in the language it was saved in.
+    locale: input.resume?.locale ?? input.locale ?? DEFAULT_LOCALE,
+
+    // bargeIn: whether the user may answer some prompts before they are said to the end (see ./bargein).
+    // listening: the speech actor was told to listen during the last prompt. promptHeard: whether the user heard
+    // the last prompt they could interrupt to the end, or answered it before.
+    bargeIn: input.bargeIn ?? false,
+    listening: false,
+    promptHeard: true,
+
+    // resume: a session saved before the page was reloaded (see ./persistence and AskResume).
+    resume: input.resume ?? null,
+
+    // intent: what the user wants to do (see ListenIntent). query: what they said about the appointment they ask
+    // about, move or cancel; matches: the appointments found for it; moveTo: where it goes (see ./manage).
+    intent: null,
+    query: EMPTY_QUERY,
+    matches: [],
+    moveTo: null,
+
+    // booking: the appointment being saved (see SaveAppointment).
+    booking: null,
   }),
   // id: "DM": Assigns the ID "DM" to the state machine.
   id: "DM",
@@ -289,352 +1165,950 @@ const dmMachine = setup({
 
     WaitToStart: {
       // on: { CLICK: "Greeting" }: When the machine receives a CLICK event, it transitions to the "Greeting" 
-      // state. This suggests that the user needs to click something to start the interaction.
-      on: { CLICK: "Greeting" }
-    },
-
-
-    Greeting: {
-      // Define the "Greeting" state
-      entry: {
-        type: "spst.speak",
-        params: { utterance: `Hi, let's create an appointment` },
-      },
-      // When entering this state, speak a greeting message
-      on: { 
-        SPEAK_COMPLETE: "AskPerson"//"AskFullDay" ,
+      // state. This suggests that the user needs to click something to start the interaction. If a session was
+      // saved before the page was reloaded, we first ask whether to go on with it.
+      on: {
+        CLICK: [
+          { guard: "canResume", target: "AskResume" },
+          { target: "Greeting" },
+        ],
       },
-      // When the speaking is complete, transition to the "AskPerson" state
     },
 
-    AskPerson: {
+    // AskResume: "We were booking a meeting with Vladislav Maraev on Monday, shall we continue?". "Yes" takes the
+    // values of the saved session back and asks the next question still missing; "no" starts a new booking.
+    AskResume: {
       entry: {
-        type: 'spst.speak',
-        params: { utterance: `Who are you meeting with?`}
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: resumeUtterance(context, context.resume!) }),
       },
-      on : {
-        SPEAK_COMPLETE: 'ListenPerson',
+      on: {
+        SPEAK_COMPLETE: "ListenResume",
       },
     },
 
-    ListenPerson: {
-      entry: {
-        type: "spst.listen"
-      },
+    ListenResume: {
+      entry: { type: "spst.listen" },
       on: {
-        // if it recognised...
-        RECOGNISED: {
-          actions: assign(({ event }) => {
-            // call the function 'getPerson', and assign to the variable 'person' the person who you want meet
-            const person= getPerson(event.value[0].utterance);
-            // it return either the values updated, or just the last result
-            return person ? {person, lastResult: event.value} : {lastResult: event.value};
-          }),
-        },
-        LISTEN_COMPLETE: [
+        RECOGNISED: [
+          ...commands("ListenResume"),
           {
-            guard: ({ context }) => context.person != null,
-            target: 'CheckPerson',
-          },
-          {
-            target: 'AskPerson'
+            actions: assign(({ event }) => ({ lastResult: event.value })),
           },
         ],
-        // else...
-        ASR_NOINPUT: {
-          actions: assign({ lastResult: null}),
-        },
+        LISTEN_COMPLETE: [
+          { guard: "confirmed", actions: { type: "restoreSession" }, target: "Grounded" },
+          { guard: "rejected", actions: { type: "dropSession" }, target: "Greeting" },
+          ...reask("resume", "AskResume", "noMatch"),
+        ],
+        ASR_NOINPUT: reask("resume", "AskResume", "noInput"),
+      },
+    },
+
+
+    Greeting: {
+      // Define the "Greeting" state
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: texts(context).prompts.greeting, bargeIn: true }),
       },
+      // When entering this state, speak a greeting message, which asks what the user wants to do: the answer is
+      // heard in ListenIntent (also before the greeting is said to the end, see ./bargein)
+      on: bargeIn("ListenIntent"),
     },
 
-    CheckPerson: {
+    // AskIntent: what the user can ask for, when they did not say what they want to do.
+    AskIntent: {
       entry: {
-        type: 'spst.speak',
-        params: ({ context }) => ({
-          utterance: context.person != null ? `You will meet ${context.person}.` : `I didn't understand the person's name.`
-        }),
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: texts(context).prompts.intents, bargeIn: true }),
       },
+      on: bargeIn("ListenIntent"),
+    },
+
+    /*
+    ListenIntent:
+    What the user wants to do: book a meeting ("book a meeting", or straight away "Vlad on Friday at 10"), hear
+    which meetings they have ("what do I have on Friday"), move one ("move my meeting with Lou to 3") or cancel one
+    ("cancel Monday's meeting"). The people, days and times said with a question, a move or a cancellation tell
+    which appointment it is about (see ./manage), and are not taken for a new booking. It is checked before the
+    global commands, as "cancel Monday's meeting" is not the command "cancel".
+    After each of these dialogues, we ask whether there is anything else, which is answered here too ("no" ends
+    the dialogue).
+    */
+    ListenIntent: {
+      entry: { type: "spst.listen" },
       on: {
-        SPEAK_COMPLETE: [
+        RECOGNISED: [
           {
-            guard: ({ context }) => context.person != null,
-            target: 'AskDay',            
+            guard: "managingNamed",
+            actions: { type: "takeRequest", params: ({ event }) => ({ hypotheses: event.value }) },
           },
+          ...commands("ListenIntent"),
           {
-            target: 'AskPerson',
+            actions: [
+              { type: "fillSlots", params: ({ event }) => ({ hypotheses: event.value, expected: null }) },
+              { type: "takeIntent" },
+            ],
           },
         ],
+        LISTEN_COMPLETE: [
+          { guard: { type: "intentIs", params: { intent: "query" } }, target: "QueryCalendar" },
+          { guard: { type: "intentIs", params: { intent: "move" } }, target: "FindAppointment" },
+          { guard: { type: "intentIs", params: { intent: "cancel" } }, target: "FindAppointment" },
+          { guard: "heardSlots", target: "Ground" },
+          { guard: { type: "intentIs", params: { intent: "book" } }, target: "Grounded" },
+          { guard: "rejected", target: "Goodbye" },
+          ...reask("intent", "AskIntent", "noMatch"),
+        ],
+        ASR_NOINPUT: reask("intent", "AskIntent", "noInput"),
       },
     },
 
-    AskDay: {
+    /*
+    QueryCalendar, AskQueryDay and ListenQueryDay:
+    "What do I have on Friday?", "when do I meet Lou?": the appointments matching what the user said (see
+    findAppointments in ./calendar) are read out. If they did not say which day or which person, we ask.
+    */
+    QueryCalendar: {
+      always: [
+        { guard: "noQuery", target: "AskQueryDay" },
+        { target: "LookUpAgenda" },
+      ],
+    },
+
+    AskQueryDay: {
       entry: {
-        type: 'spst.speak',
-        params: { utterance: `Which day do you want the meeting?`}
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: texts(context).prompts.queryWhich }),
       },
-      on : {
-        SPEAK_COMPLETE: 'ListenDay'
+      on: {
+        SPEAK_COMPLETE: "ListenQueryDay",
       },
     },
 
-    ListenDay: {
-      entry: {
-        type: 'spst.listen'
-      },
+    ListenQueryDay: {
+      entry: { type: "spst.listen" },
       on: {
-        RECOGNISED: {
-          actions: assign(({ event }) => {
-            const day= getNumber(event.value[0].utterance);
-            return day ? {day, lastResult: event.value} : {lastResult: event.value};
-          }),
-        },
-        LISTEN_COMPLETE: [
-          {
-            guard: ({ context }) => !!context.day != null,
-            target: 'CheckDay',
-          },
+        RECOGNISED: [
+          ...commands("ListenQueryDay"),
           {
-            target: 'AskDay'
+            actions: { type: "addToQuery", params: ({ event }) => ({ hypotheses: event.value }) },
           },
         ],
-        ASR_NOINPUT: {
-          actions: assign({ lastResult: null}),
+        LISTEN_COMPLETE: [
+          { guard: not("noQuery"), target: "LookUpAgenda" },
+          ...reask("queryDay", "AskQueryDay", "noMatch"),
+        ],
+        ASR_NOINPUT: reask("queryDay", "AskQueryDay", "noInput"),
+      },
+    },
+
+    LookUpAgenda: {
+      invoke: {
+        src: "listAppointments",
+        input: ({ context }) => ({ store: context.store }),
+        onDone: {
+          actions: assign(({ context, event }) => ({
+            matches: findAppointments(event.output, context.query, fromDate(context.now())),
+          })),
+          target: "TellAgenda",
         },
+        onError: "CalendarFailed",
       },
     },
 
-    CheckDay: {
+    TellAgenda: {
       entry: {
-        type: 'spst.speak',
+        type: "spst.speak",
         params: ({ context }) => ({
-          utterance: context.day ?  `The day will be ${context.day}.`: `I did't understand the day`
+          utterance: `${agendaUtterance(context)} ${texts(context).prompts.anythingElse}`,
         }),
       },
       on: {
-        SPEAK_COMPLETE: [
-          {
-            guard: ({ context }) => !!context.day,
-            target: 'AskFullDay',
-          },
-          {
-            target: 'AskDay'
-          }
-        ]        
+        SPEAK_COMPLETE: "ListenIntent",
       },
+      exit: { type: "clearValues" },
     },
 
-    AskFullDay: {
-      entry: {
-        type: 'spst.speak',
-        params: {
-          utterance: 'Will it take the whole day?'
+    /*
+    FindAppointment:
+    The appointment to move or cancel is looked for in the calendar. If the user did not say which one it is, or
+    it matches none or several of them, we ask which one they mean (AskWhichAppointment): what they say is added
+    to what they said before, and we look again. A meeting to move also needs where it goes (AskMoveTo).
+    */
+    FindAppointment: {
+      always: [
+        { guard: "noQuery", target: "AskWhichAppointment" },
+        { target: "SearchAppointments" },
+      ],
+    },
+
+    SearchAppointments: {
+      invoke: {
+        src: "listAppointments",
+        input: ({ context }) => ({ store: context.store }),
+        onDone: {
+          actions: assign(({ context, event }) => ({
+            matches: findAppointments(event.output, context.query, fromDate(context.now())),
+          })),
+          target: "AppointmentFound",
         },
-      },
-      on: {
-        SPEAK_COMPLETE: 'ListenFullDay'
+        onError: "CalendarFailed",
       },
     },
 
+    AppointmentFound: {
+      always: [
+        { guard: "noMatch", target: "NoAppointment" },
+        { guard: "severalMatches", target: "AskWhichAppointment" },
+        { guard: { type: "intentIs", params: { intent: "cancel" } }, target: "ConfirmChange" },
+        { guard: "hasMoveTo", target: "CheckMove" },
+        { target: "AskMoveTo" },
+      ],
+    },
 
-    ListenFullDay: {
-      entry: { type: "spst.listen" },
-      on: {
-        RECOGNISED: {
-          actions: assign(({ event }) => {
-            const confirmation = getConfirm(event.value[0].utterance);
-            return confirmation !== undefined
-              ? { yesno: confirmation, lastResult: event.value }
-              : { lastResult: event.value };
+    // NoAppointment: what the user said matches no appointment; it is forgotten, and we ask again.
+    NoAppointment: {
+      entry: [
+        {
+          type: "spst.speak",
+          params: ({ context }) => ({
+            utterance: `${texts(context).prompts.noAppointment} ${texts(context).prompts.whichAppointment(null)}`,
           }),
         },
-        LISTEN_COMPLETE: [
-          {
-            guard: ({ context }) => context.yesno !== undefined,
-            target: "CheckFullDay",
-          },
-          {
-            target: "AskFullDay", 
-          },
-        ],
-        ASR_NOINPUT: {
-          actions: assign({ lastResult: null }),
-          target: "AskFullDay", 
-        },
+        { type: "dropQuery" },
+      ],
+      on: {
+        SPEAK_COMPLETE: "ListenWhichAppointment",
       },
     },
-    
-    CheckFullDay: {
+
+    AskWhichAppointment: {
       entry: {
         type: "spst.speak",
-        params: ({ context }) => {
-          if (context.yesno === true) {
-            return { utterance: "Ok, you will take the whole day." };
-          } else {
-            return { utterance: "Ok, the meeting will not be the whole day." };
-          }
-        },
+        params: ({ context }) => ({ utterance: whichAppointmentUtterance(context) }),
       },
       on: {
-        SPEAK_COMPLETE: [
-          {
-            guard: ({ context }) => context.yesno === true,
-            target: "ConfirmAppointment",
-          },
-          {
-            guard: ({ context }) => context.yesno === false,
-            target: "AskTime",
-          },
+        SPEAK_COMPLETE: "ListenWhichAppointment",
+      },
+    },
+
+    ListenWhichAppointment: {
+      entry: { type: "spst.listen" },
+      on: {
+        RECOGNISED: [
+          ...commands("ListenWhichAppointment"),
           {
-            target: "AskFullDay", 
+            actions: { type: "addToQuery", params: ({ event }) => ({ hypotheses: event.value }) },
           },
         ],
+        LISTEN_COMPLETE: [
+          { guard: not("noQuery"), target: "FindAppointment" },
+          ...reask("whichAppointment", "AskWhichAppointment", "noMatch"),
+        ],
+        ASR_NOINPUT: reask("whichAppointment", "AskWhichAppointment", "noInput"),
       },
     },
 
-    AskTime: {
+    AskMoveTo: {
       entry: {
-        type: 'spst.speak',
-        params: {
-          utterance: 'What time is your meeting?'
-        },
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: texts(context).prompts.moveTo }),
       },
       on: {
-        SPEAK_COMPLETE: 'ListenTime'
-      }
+        SPEAK_COMPLETE: "ListenMoveTo",
+      },
+    },
+
+    ListenMoveTo: {
+      entry: { type: "spst.listen" },
+      on: {
+        RECOGNISED: [
+          ...commands("ListenMoveTo"),
+          {
+            actions: { type: "takeMoveTo", params: ({ event }) => ({ hypotheses: event.value }) },
+          },
+        ],
+        LISTEN_COMPLETE: [
+          { guard: "hasMoveTo", target: "CheckMove" },
+          ...reask("moveTo", "AskMoveTo", "noMatch"),
+        ],
+        ASR_NOINPUT: reask("moveTo", "AskMoveTo", "noInput"),
+      },
+    },
+
+    // CheckMove: like CheckAvailability, the new day and time of the meeting must be allowed (see ./availability)
+    // and must not clash with another appointment (the meeting itself does not count). Otherwise, we ask for
+    // another day or time.
+    CheckMove: {
+      invoke: {
+        src: "listAppointments",
+        input: ({ context }) => ({ store: context.store }),
+        onDone: {
+          actions: assign(({ context, event }) => {
+            const appointment = context.matches[0];
+            const others = event.output.filter((other: Appointment) => other.id !== appointment.id);
+            const moved = moveAppointment(appointment, context.moveTo!);
+            const [conflict] = findConflicts(others, moved);
+            return {
+              conflict: conflict ?? null,
+              unavailable: checkAvailability(context.policy, moved, context.now()),
+            };
+          }),
+          target: "MoveAvailability",
+        },
+        onError: "ConfirmChange",
+      },
+    },
+
+    MoveAvailability: {
+      always: [
+        { guard: ({ context }) => context.unavailable != null, target: "MoveUnavailable" },
+        { guard: ({ context }) => context.conflict != null, target: "MoveClash" },
+        { target: "ConfirmChange" },
+      ],
     },
 
-    ListenTime: {
+    MoveUnavailable: {
+      entry: [
+        {
+          type: "spst.speak",
+          params: ({ context }) => ({
+            utterance: `${unavailableUtterance(context, context.unavailable!)} ${texts(context).prompts.moveTo}`,
+          }),
+        },
+        assign({ unavailable: null, conflict: null, moveTo: null }),
+      ],
+      on: {
+        SPEAK_COMPLETE: "ListenMoveTo",
+      },
+    },
+
+    MoveClash: {
+      entry: [
+        {
+          type: "spst.speak",
+          params: ({ context }) => {
+            const moved = moveAppointment(context.matches[0], context.moveTo!);
+            return { utterance: `${clashUtterance(context, moved)} ${texts(context).prompts.moveTo}` };
+          },
+        },
+        assign({ conflict: null, moveTo: null }),
+      ],
+      on: {
+        SPEAK_COMPLETE: "ListenMoveTo",
+      },
+    },
+
+    // ConfirmChange: nothing is moved or cancelled before the user says yes (also before it is said to the end).
+    ConfirmChange: {
       entry: {
-        type: 'spst.listen'
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: changeUtterance(context), bargeIn: true }),
       },
+      on: bargeIn("ListenConfirmChange"),
+    },
+
+    ListenConfirmChange: {
+      entry: { type: "spst.listen" },
       on: {
-        RECOGNISED: {
-          actions: assign(({ event }) => {
-            const time= getTime(event.value[0].utterance);
-            return time ? {time, lastResult: event.value} : {lastResult: event.value};
-          }),
+        RECOGNISED: [
+          ...commands("ListenConfirmChange"),
+          {
+            actions: assign(({ event }) => ({ lastResult: event.value })),
+          },
+        ],
+        LISTEN_COMPLETE: [
+          { guard: "confirmed", target: "SaveChange" },
+          { guard: "rejected", target: "Unchanged" },
+          ...reask("confirmChange", "ConfirmChange", "noMatch"),
+        ],
+        ASR_NOINPUT: reask("confirmChange", "ConfirmChange", "noInput"),
+      },
+    },
+
+    SaveChange: {
+      invoke: {
+        src: "changeAppointment",
+        input: ({ context }) => ({
+          store: context.store,
+          appointment: context.matches[0],
+          change: context.intent === "cancel" ? null : moveAppointment(context.matches[0], context.moveTo!),
+        }),
+        onDone: "ChangeSaved",
+        onError: "CalendarFailed",
+      },
+    },
+
+    // ChangeSaved, Unchanged and CalendarFailed: we say how it went, and ask whether there is anything else.
+    ChangeSaved: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => {
+          const { prompts } = texts(context);
+          const done = context.intent === "cancel" ? prompts.cancelled : prompts.moved;
+          return { utterance: `${done} ${prompts.anythingElse}` };
         },
+      },
+      on: {
+        SPEAK_COMPLETE: "ListenIntent",
+      },
+      exit: { type: "clearValues" },
+    },
+
+    Unchanged: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({
+          utterance: `${texts(context).prompts.unchanged} ${texts(context).prompts.anythingElse}`,
+        }),
+      },
+      on: {
+        SPEAK_COMPLETE: "ListenIntent",
+      },
+      exit: { type: "clearValues" },
+    },
+
+    CalendarFailed: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({
+          utterance: `${texts(context).prompts.calendarFailed} ${texts(context).prompts.anythingElse}`,
+        }),
+      },
+      on: {
+        SPEAK_COMPLETE: "ListenIntent",
+      },
+      exit: { type: "clearValues" },
+    },
+
+    // AskPerson, ListenPerson, AskDay, ListenDay, AskFullDay, ListenFullDay, CheckFullDay, AskTime, ListenTime,
+    // AskDuration and ListenDuration: the states asking for the slots of the appointment form (see ./appointment
+    // and ./form).
+    ...formStates(appointmentForm),
+
+    /*
+    Ground: 
+    Once an answer has filled some slots, the confidence of the recogniser decides what we do with it:
+    - high: the values are accepted, and acknowledged at the start of the next question (Grounded);
+    - medium: we ask the user whether we heard them right (CheckHeard);
+    - low: the values are forgotten and the question is asked again (Reask).
+    The same states are used whichever question was asked. But first, if the user named someone several people
+    could be, we ask which one (AskNamesake), and if the recogniser's hypotheses disagree on the answer, we ask
+    the user which one they meant (Clarify). A name we only guessed is always checked (CheckGuess).
+    */
+    Ground: {
+      always: [
+        { guard: "unresolvedName", target: "AskNamesake" },
+        { guard: "ambiguous", target: "Clarify" },
+        { guard: "guessedName", target: "CheckGuess" },
+        { guard: "lowConfidence", actions: { type: "forgetHeard" }, target: "Reask" },
+        { guard: "mediumConfidence", target: "CheckHeard" },
+        { actions: { type: "acknowledge" }, target: "Grounded" },
+      ],
+    },
+
+    // Grounded: the next question still missing, or the question whether to go on with a saved session, if the
+    // user has not answered it yet (e.g. they switched language instead, see AskResume). If the user has not said
+    // what they want to do, or wants something else than booking a meeting, we go back to that. A duration which
+    // does not fit the start time, or a day or time which cannot be booked, is dealt with first (see BadDuration
+    // and Unavailable).
+    Grounded: {
+      always: [
+        { guard: "canResume", target: "AskResume" },
+        { guard: "endWithoutRepeat", target: "NoRepeat" },
+        { guard: { type: "intentIs", params: { intent: null } }, target: "AskIntent" },
+        { guard: { type: "intentIs", params: { intent: "query" } }, target: "QueryCalendar" },
+        { guard: { type: "intentIs", params: { intent: "move" } }, target: "FindAppointment" },
+        { guard: { type: "intentIs", params: { intent: "cancel" } }, target: "FindAppointment" },
+        { guard: "badDuration", target: "BadDuration" },
+        { guard: "notAvailable", actions: { type: "findAvailable" }, target: "Unavailable" },
+        ...askNext,
+      ],
+    },
+
+    // AskNamesake: "Which David do you mean: David Bowie or David Lynch?". The answer is grounded with the rest of
+    // what the user said before.
+    AskNamesake: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: namesakesUtterance(context) }),
+      },
+      on: {
+        SPEAK_COMPLETE: "ListenNamesake",
+      },
+    },
+
+    ListenNamesake: {
+      entry: { type: "spst.listen" },
+      on: {
+        RECOGNISED: [
+          ...commands("ListenNamesake"),
+          {
+            actions: { type: "pickNamesake", params: ({ event }) => ({ hypotheses: event.value }) },
+          },
+        ],
         LISTEN_COMPLETE: [
+          { guard: not("unresolvedName"), target: "Ground" },
+          ...reask("namesake", "AskNamesake", "noMatch"),
+        ],
+        ASR_NOINPUT: reask("namesake", "AskNamesake", "noInput"),
+      },
+    },
+
+    // CheckGuess: "Did you mean Nayat Astaiza Soriano?" The answer is handled like the answer to CheckHeard: "no"
+    // forgets the guess, and the person is asked again.
+    CheckGuess: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: texts(context).prompts.didYouMean(describeHeard(context)) }),
+      },
+      on: {
+        SPEAK_COMPLETE: "ListenHeard",
+      },
+    },
+
+    CheckHeard: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: texts(context).prompts.isThatRight(describeHeard(context)) }),
+      },
+      on: {
+        SPEAK_COMPLETE: "ListenHeard",
+      },
+    },
+
+    ListenHeard: {
+      entry: { type: "spst.listen" },
+      on: {
+        RECOGNISED: [
+          ...commands("ListenHeard"),
           {
-            guard: ({ context }) => !!context.time != null,
-            target: 'CheckTime',
+            actions: assign(({ event }) => ({ lastResult: event.value })),
           },
+        ],
+        LISTEN_COMPLETE: [
+          { guard: "confirmed", target: "Grounded" },
+          // we heard it wrong: ask for it again
+          { guard: "rejected", actions: { type: "forgetHeard" }, target: "Grounded" },
+          ...reask("heard", "CheckHeard", "noMatch"),
+        ],
+        ASR_NOINPUT: reask("heard", "CheckHeard", "noInput"),
+      },
+    },
+
+    Clarify: {
+      entry: [
+        { type: "spst.speak", params: ({ context }) => ({ utterance: clarifyUtterance(context) }) },
+        { type: "forgetAmbiguousSlot" },
+      ],
+      on: {
+        SPEAK_COMPLETE: "ListenClarify",
+      },
+    },
+
+    // ListenClarify: the answer is grounded like any other; without one, the question is simply asked again.
+    ListenClarify: {
+      entry: { type: "spst.listen" },
+      on: {
+        RECOGNISED: [
+          ...commands("ListenClarify"),
           {
-            target: 'AskTime'
+            actions: {
+              type: "fillSlots",
+              params: ({ context, event }) => ({ hypotheses: event.value, expected: context.alternatives[0].slot }),
+            },
           },
         ],
+        LISTEN_COMPLETE: [
+          { guard: "heardSlots", target: "Ground" },
+          { target: "Grounded" },
+        ],
         ASR_NOINPUT: {
-          actions: assign({ lastResult: null}),
+          actions: assign({ lastResult: null, alternatives: [] }),
+          target: "Grounded",
+        },
+      },
+    },
+
+    Reask: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: texts(context).prompts.reask }),
+      },
+      on: {
+        SPEAK_COMPLETE: askNext,
+      },
+    },
+
+    // NoRepeat: "The meeting does not repeat, so it cannot have an end date." The dialogue then goes on where it was
+    // (e.g. the confirmation is asked again), without the end date.
+    NoRepeat: {
+      entry: [
+        { type: "spst.speak", params: ({ context }) => ({ utterance: texts(context).prompts.noRepeat }) },
+        assign({ endWithoutRepeat: false }),
+      ],
+      on: {
+        SPEAK_COMPLETE: "Grounded",
+      },
+    },
+
+    // BadDuration: "The meeting has to end after it starts, at 3 pm." The duration is then asked again.
+    BadDuration: {
+      entry: [
+        { type: "spst.speak", params: ({ context }) => ({ utterance: badDurationUtterance(context) }) },
+        { type: "dropDuration" },
+      ],
+      on: {
+        SPEAK_COMPLETE: "Grounded",
+      },
+    },
+
+    // CheckAvailability: before asking for the confirmation, we look in the calendar for an appointment which 
+    // clashes with this one. If there is one, we also look for the nearest free slot to offer instead.
+    CheckAvailability: {
+      invoke: {
+        src: "listAppointments",
+        input: ({ context }) => ({ store: context.store }),
+        onDone: {
+          actions: assign(({ context, event }) => {
+            const proposal = newAppointment(context);
+            const appointments: Appointment[] = event.output;
+            const [conflict] = findConflicts(appointments, proposal);
+            return conflict
+              ? {
+                  conflict,
+                  suggestion: nearestFreeSlot(appointments, proposal, (candidate) => isAvailable(context, candidate)),
+                }
+              : { conflict: null, suggestion: null };
+          }),
+          target: "Availability",
+        },
+        // if the calendar cannot be read, we cannot check it: just go on
+        onError: "ConfirmAppointment",
+      },
+    },
+
+    Availability: {
+      always: [
+        { guard: ({ context }) => context.conflict != null, target: "AnnounceConflict" },
+        { target: "ConfirmAppointment" },
+      ],
+    },
+
+    /*
+    Unavailable:
+    The day or time the user gave cannot be booked (see ./availability): we say why, and offer the nearest day or
+    time which can be, which the user can take ("yes"), refuse ("no", and we ask for the day or time again) or
+    replace with another ("no, on Tuesday"), which is checked again. If there is none to offer, we ask for the day
+    or time again straight away. A recurring meeting is offered without the holidays it would fall on (refused, it
+    is booked once).
+    */
+    Unavailable: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: offerUtterance(context), bargeIn: context.suggestion != null }),
+      },
+      on: {
+        ...bargeIn("ListenUnavailable"),
+        SPEAK_COMPLETE: [
+          {
+            guard: ({ context }) => context.suggestion != null,
+            actions: { type: "trackPrompt", params: { heard: true } },
+            target: "ListenUnavailable",
+          },
+          { actions: { type: "dropUnavailable" }, target: "Grounded" },
+        ],
+      },
+    },
+
+    ListenUnavailable: {
+      entry: { type: "spst.listen" },
+      on: {
+        RECOGNISED: [
+          ...commands("ListenUnavailable"),
+          {
+            actions: { type: "fillSlots", params: ({ event }) => ({ hypotheses: event.value, expected: null }) },
           },
+        ],
+        LISTEN_COMPLETE: [
+          { guard: "heardSlots", target: "Ground" },
+          { guard: "confirmed", actions: { type: "acceptSuggestion" }, target: "Grounded" },
+          { guard: "rejected", actions: { type: "dropUnavailable" }, target: "Grounded" },
+          ...reask("unavailable", "Unavailable", "noMatch"),
+        ],
+        ASR_NOINPUT: reask("unavailable", "Unavailable", "noInput"),
       },
     },
 
-    CheckTime: {
+    // AnnounceConflict: the free slot we offer can be accepted before it is said to the end (see ./bargein).
+    AnnounceConflict: {
       entry: {
-        type: 'spst.speak',
-        params: ({ context }) => ({
-          utterance: context.time != null ? `You will meet at ${context.time}.` : `I did not understand the time.`,
-        }),
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: conflictUtterance(context), bargeIn: context.suggestion != null }),
       },
-      on : {
+      on: {
+        ...bargeIn("ListenConflict"),
         SPEAK_COMPLETE: [
           {
-            guard: ({ context }) => !!context.time,
-            target: 'ConfirmAppointment',
+            guard: ({ context }) => context.suggestion != null,
+            actions: { type: "trackPrompt", params: { heard: true } },
+            target: "ListenConflict",
           },
+          { target: "PickAnotherTime" },
+        ],
+      },
+    },
+
+    // ListenConflict: the user can accept the free slot we offered ("yes"), refuse it ("no"), or give another 
+    // day or time straight away ("no, at 3"), which is checked again.
+    ListenConflict: {
+      entry: { type: "spst.listen" },
+      on: {
+        RECOGNISED: [
+          ...commands("ListenConflict"),
           {
-            target: 'AskTime'
-          }
-        ]
-      }
+            actions: { type: "fillSlots", params: ({ event }) => ({ hypotheses: event.value, expected: null }) },
+          },
+        ],
+        LISTEN_COMPLETE: [
+          {
+            // the new day or time is checked against the availability policy, then the calendar, again
+            guard: "newDayOrTime",
+            target: "Grounded",
+          },
+          {
+            guard: "confirmed",
+            actions: { type: "acceptSuggestion" },
+            target: "ConfirmAppointment",
+          },
+          {
+            guard: "rejected",
+            target: "PickAnotherTime",
+          },
+          ...reask("conflict", "AnnounceConflict", "noMatch"),
+        ],
+        ASR_NOINPUT: reask("conflict", "AnnounceConflict", "noInput"),
+      },
     },
 
+    PickAnotherTime: {
+      entry: { type: "dropClashingSlot" },
+      always: askNext,
+    },
+
+    // ConfirmAppointment: the user may answer before the whole appointment is read back (see ./bargein).
     ConfirmAppointment: {
       entry: {
         type: "spst.speak",
-        params: ({ context }) => {
-          let UttConfirm = `Do you want me to create an appointment with ${context.person} `;
-          UttConfirm += `on ${context.day} `;
-
-          if (context.yesno === true) {
-            UttConfirm += `for the whole day?`;
-          } else {
-            UttConfirm += `at ${context.time}?`;
-          }
-          return { utterance: UttConfirm };
-        },
+        params: ({ context }) => ({ utterance: appointmentForm.confirmation(context), bargeIn: true }),
       },
-      on: {
-        SPEAK_COMPLETE: 'ListenConfirm'
-      }
+      on: bargeIn("ListenConfirm"),
     },
 
+    // ListenConfirm: "yes" saves the appointment. The user can also correct one of the slots ("no, on Tuesday",
+    // "change the time to 11"): only that slot is changed, and the new appointment is checked and confirmed again.
+    // A plain "no" does not tell us what is wrong, so we ask (see AskWhichPart).
     ListenConfirm: {
       entry: { type: "spst.listen" },
       on: {
-        RECOGNISED: {
-          actions: assign(({ event }) => {
-            const confirmation = getConfirm(event.value[0].utterance);
-            return confirmation !== undefined
-              ? { lastResult: event.value } : { lastResult: event.value };
-          }),
-        },
+        RECOGNISED: [
+          ...commands("ListenConfirm"),
+          {
+            actions: { type: "fillSlots", params: ({ event }) => ({ hypotheses: event.value, expected: null }) },
+          },
+        ],
         LISTEN_COMPLETE: [
           {
-            guard: ({ context }) => !!context.yesno != null,
-            target: 'CheckConfirmation',
+            // a correction is grounded like any other answer, then 'askNext' goes back to CheckAvailability
+            guard: "heardSlots",
+            target: "Ground",
           },
           {
-            target: 'ConfirmAppointment'
+            // "yes, until June" for a meeting which does not repeat: we say so before asking again
+            guard: "endWithoutRepeat",
+            target: "Grounded",
           },
+          {
+            // if the user confirmed, save the appointment before telling them it is created
+            guard: "confirmed",
+            actions: { type: "takeBooking" },
+            target: 'SaveAppointment',
+          },
+          {
+            guard: "rejected",
+            target: "AskWhichPart",
+          },
+          {
+            // anything else which changed the appointment (e.g. "not David", when he was the only one invited) goes
+            // back to the next question still missing
+            guard: "slotsMissing",
+            target: "Grounded",
+          },
+          // nothing we understood: the confirmation is asked again, or we give up
+          ...reask("confirm", "ConfirmAppointment", "noMatch"),
         ],
-        ASR_NOINPUT: {
-          actions: assign({ lastResult: null }),
-          target: "ConfirmAppointment", // If no input, ask again
-        },
+        ASR_NOINPUT: reask("confirm", "ConfirmAppointment", "noInput"), // If no input, ask again
       },
     },
 
-    CheckConfirmation: {
+    // AskWhichPart: the user rejected the appointment without saying what is wrong. They can name the part ("the
+    // time"), which is then asked again, or give the right value at once ("the day is Tuesday").
+    AskWhichPart: {
       entry: {
         type: "spst.speak",
-        params: ({ context }) => {
-          const confirmation = getConfirm(context.lastResult![0].utterance);
-          if (confirmation === true) {
-            return { utterance: "Your appointment has been created!" };
-          } 
-          else if (confirmation === false) {
-            // If the user rejected the appointment
-            return { utterance: "Okay, let's start over." };
-            // Return a message indicating that the process will start over
-          } 
-          else {
-            // If the confirmation was not understood
-            return { utterance: "I didn't understand. Let's start over." };
-            // Start over :( 
-          }
-        },
+        params: ({ context }) => ({ utterance: texts(context).prompts.whichPart }),
       },
       on: {
-        SPEAK_COMPLETE: [
+        SPEAK_COMPLETE: "ListenWhichPart",
+      },
+    },
+
+    ListenWhichPart: {
+      entry: { type: "spst.listen" },
+      on: {
+        RECOGNISED: [
+          ...commands("ListenWhichPart"),
           {
-            // If it's confirmed
-            guard: ({ context }) =>
-              getConfirm(context.lastResult![0].utterance) === true,
-            target: "Greeting",
+            actions: { type: "fillSlots", params: ({ event }) => ({ hypotheses: event.value, expected: null }) },
           },
+        ],
+        LISTEN_COMPLETE: [
           {
-            // If it's not confirmed from the speaker
-            guard: ({ context }) =>
-              getConfirm(context.lastResult![0].utterance) === false,
-            target: "Greeting",
+            guard: "heardSlots",
+            target: "Ground",
           },
-          { target: "Greeting" }, // else go to greeting
+          {
+            guard: "partNamed",
+            actions: { type: "forgetPart" },
+            target: "Grounded",
+          },
+          ...reask("whichPart", "AskWhichPart", "noMatch"),
         ],
+        ASR_NOINPUT: reask("whichPart", "AskWhichPart", "noInput"),
+      },
+    },
+
+    // SaveAppointment: the confirmed appointment (kept aside by 'takeBooking') is written to the calendar store. This
+    // can take some time (and fail), so it is done by an invoked actor: when it is done we go on to CheckConfirmation.
+    SaveAppointment: {
+      invoke: {
+        src: "saveAppointment",
+        input: ({ context }) => ({ store: context.store, appointment: context.booking! }),
+        onDone: 'CheckConfirmation',
+        onError: 'SaveFailed',
+      },
+    },
+
+    SaveFailed: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: texts(context).prompts.saveFailed }),
+      },
+      on: {
+        SPEAK_COMPLETE: "Greeting",
+      },
+      exit: { type: "clearValues" },
+    },
+
+    CheckConfirmation: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: texts(context).prompts.saved }),
+      },
+      on: {
+        SPEAK_COMPLETE: "Greeting",
       },
       exit: { type: "clearValues" }, // clear context
     },
 
+    // Help and Repeat: the global commands "help" and "repeat that" (see ./commands). The last prompt is said
+    // (again), and we resume listening where the command was said.
+    Help: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({
+          utterance: `${texts(context).prompts.help} ${context.lastPrompt ?? ""}`.trim(),
+          remember: false,
+        }),
+      },
+      on: {
+        SPEAK_COMPLETE: "Resume",
+      },
+    },
+
+    Repeat: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: context.lastPrompt ?? texts(context).prompts.help, remember: false }),
+      },
+      on: {
+        SPEAK_COMPLETE: "Resume",
+      },
+    },
+
+    Resume: {
+      always: [
+        ...listenStates.map((state) => ({
+          guard: { type: "resumeAt" as const, params: { state } },
+          target: state,
+        })),
+        { target: "Grounded" },
+      ],
+    },
+
+    // LanguageSwitched: the user named another language. We say so in that language, then ask the question we
+    // were at again (the last prompt was in the other language, so it is not simply repeated).
+    LanguageSwitched: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: texts(context).prompts.languageSwitched }),
+      },
+      on: {
+        SPEAK_COMPLETE: "Grounded",
+      },
+    },
+
+    // GiveUp: a question got no useful answer too many times (see 'retry'): we offer to start over, or stop.
+    GiveUp: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: texts(context).prompts.giveUp }),
+      },
+      on: {
+        SPEAK_COMPLETE: "ListenGiveUp",
+      },
+    },
+
+    ListenGiveUp: {
+      entry: { type: "spst.listen" },
+      on: {
+        RECOGNISED: [
+          ...commands("ListenGiveUp"),
+          {
+            actions: assign(({ event }) => ({ lastResult: event.value })),
+          },
+        ],
+        LISTEN_COMPLETE: [
+          { guard: "confirmed", actions: { type: "clearValues" }, target: "Greeting" },
+          { target: "Goodbye" },
+        ],
+        ASR_NOINPUT: "Goodbye",
+      },
+    },
+
+    Goodbye: {
+      entry: {
+        type: "spst.speak",
+        params: ({ context }) => ({ utterance: texts(context).prompts.goodbye }),
+      },
+      on: {
+        SPEAK_COMPLETE: "Done",
+      },
+      exit: { type: "clearValues" },
+    },
+
     // on: { CLICK: "Greeting" }: When the user clicks again, the machine transitions back to the "Greeting" 
     // state, restarting the interaction.
     Done: {
@@ -646,28 +2120,3 @@ const dmMachine = setup({
     "new state 1": {}
   },
 });
-
-const dmActor = createActor(dmMachine, {
-  inspect: inspector.inspect,
-}).start();
-
-dmActor.subscribe((state) => {
-  console.group("State update");
-  console.log("State value:", state.value);
-  console.log("State context:", state.context);
-  console.groupEnd();
-});
-
-export function setupButton(element: HTMLButtonElement) {
-  element.addEventListener("click", () => {
-    dmActor.send({ type: "CLICK" });
-  });
-  dmActor.subscribe((snapshot) => {
-    const meta: { view?: string } = Object.values(
-      snapshot.context.spstRef.getSnapshot().getMeta(),
-    )[0] || {
-      view: undefined,
-    };
-    element.innerHTML = `${meta.view}`;
-  });
-}
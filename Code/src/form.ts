@@ -0,0 +1,210 @@
+/*
+Forms: a task described as the slots to fill, from which the states of the dialogue manager are generated.
+
+A form lists its slots in the order they are asked. For each slot it gives:
+- name: the name of the question; the generated states are called Ask<Name> and Listen<Name> (and Check<Name>,
+  see 'reply');
+- entity: what kind of value fills it (person, day, time, duration or yesno, see ./parser). The value is kept in
+  the context field of the same name;
+- required: a required slot is asked again after no input or an answer we did not understand (up to
+  'maxReprompts' times, then the dialogue gives up); an optional one is asked once and left empty, unless the
+  answer was a bare "yes" or "no", which does not answer it;
+- condition: the slot is only asked when this returns true, e.g. the time only if the meeting is not the whole day;
+- texts: what we say to ask for it, in the language of the dialogue (see 'prompt' below, and ./locale);
+- reply: what we say once the slot is answered, if anything (e.g. "Ok, you will take the whole day.").
+The form also says where to go once every slot is filled ('done') and how to ask for the final confirmation.
+
+For every slot formStates generates:
+- Ask<Name>: asks the question, which may be answered before it is said to the end (see ./bargein);
+- Listen<Name>: listens to the answer. Every slot found in it is stored, not only the one asked for (see
+  'fillSlots' in dm.ts); what was heard is grounded (see Ground in dm.ts), and without an answer the question is
+  asked again. The global commands (see ./commands) work there too;
+- Check<Name>: says the reply, if the slot has one.
+nextQuestion gives the transitions to the first slot still missing, or to 'done'.
+
+The generated states use the guards and actions of dmMachine (see setup in dm.ts), and its states Ground,
+Grounded and GiveUp; they are typed as its states (DMStateConfig), so that XState checks them like the others. A
+new task can be added by describing it as a form and adding its states to the machine.
+*/
+
+import { Hypothesis } from "speechstate";
+import { bargeIn } from "./bargein";
+import { commands } from "./commands";
+import { DMStateConfig } from "./dm";
+import { bundle, Locale, SlotTexts } from "./locale";
+import { Slot } from "./parser";
+import { DMContext, FailureKind } from "./types";
+
+export interface FormSlot {
+  name: string;
+  entity: Extract<Slot, keyof DMContext>;
+  required: boolean;
+  condition?: (context: DMContext) => boolean;
+  // the question; a shorter one said after the acknowledgement of the previous answer ("Monday the 3rd of
+  // February, and at what time?"); and what we say, one after the other, when there was no answer: first the
+  // question in other words, then an example of an answer, then some help
+  texts: (locale: Locale) => SlotTexts;
+  reply?: (context: DMContext) => string;
+}
+
+export interface Form {
+  slots: FormSlot[];
+  done: string;
+  confirmation: (context: DMContext) => string;
+}
+
+const capitalise = (name: string) => name[0].toUpperCase() + name.slice(1);
+
+export const askState = (slot: FormSlot) => `Ask${capitalise(slot.name)}`;
+export const listenState = (slot: FormSlot) => `Listen${capitalise(slot.name)}`;
+const checkState = (slot: FormSlot) => `Check${capitalise(slot.name)}`;
+
+// the slot has a value
+export function isFilled(slot: FormSlot, context: DMContext): boolean {
+  return context[slot.entity] != null;
+}
+
+// the slot still has to be asked for
+export function isMissing(slot: FormSlot, context: DMContext): boolean {
+  return (
+    !isFilled(slot, context) && !context.skipped.includes(slot.name) && (slot.condition?.(context) ?? true)
+  );
+}
+
+export function failuresOf(context: DMContext, question: string): number {
+  const failures = context.failures[question];
+  return failures ? failures.noInput + failures.noMatch : 0;
+}
+
+/*
+prompt function:
+The parameters of an Ask state: the reprompt matching the number of failures so far (after no input we start
+with "I didn't hear you.", after an answer we did not understand with "Sorry, I didn't understand."), the
+follow-up question after an acknowledgement (starting with a capital letter: "At 10 am, and how long will it
+last?"), or else the question itself. With barge-in, the user may answer
+before the question is said to the end (see ./bargein).
+*/
+function prompt(slot: FormSlot) {
+  return ({ context }: { context: DMContext }) => {
+    const texts = slot.texts(context.locale);
+    const failures = failuresOf(context, slot.name);
+    if (failures > 0 && context.lastFailure != null) {
+      const reprompt = texts.reprompts[Math.min(failures, texts.reprompts.length) - 1];
+      return {
+        utterance: `${bundle(context.locale).prompts.failureIntros[context.lastFailure]} ${reprompt}`,
+        bargeIn: true,
+      };
+    }
+    return {
+      utterance:
+        context.acknowledgement != null ? capitalise(`${context.acknowledgement}, ${texts.followUp}`) : texts.prompt,
+      bargeIn: true,
+    };
+  };
+}
+
+/*
+reask function:
+The transitions taken when a question got no input or no answer we understood: the failure is counted and the
+question is asked again (in the state 'ask'), unless it has already been asked again 'maxReprompts' times: then
+we give up (see GiveUp in dm.ts). It is used by the required slots of the forms, and by the other questions of
+dmMachine ("Which meeting do you mean?").
+*/
+export function reask(question: string, ask: string, kind: FailureKind) {
+  return [
+    { guard: { type: "outOfReprompts", params: { question } }, target: "GiveUp" },
+    { actions: { type: "countFailure", params: { question, kind } }, target: ask },
+  ] as const;
+}
+
+/*
+retry function:
+The transitions taken by a Listen state when the user said nothing ("noInput") or nothing we understood
+("noMatch"). For a required slot, the failure is counted and the question is asked again, unless it has already
+been asked again 'maxReprompts' times: then we give up (see GiveUp in dm.ts). An optional slot is skipped, but
+"yes" or "no" ("..., and how long will it last?" "yes") is not taken as leaving it empty: it is asked again, like
+a required slot, until it has been asked 'maxReprompts' times.
+*/
+function retry(slot: FormSlot, kind: FailureKind) {
+  const skip = { actions: { type: "skipSlot", params: { question: slot.name } }, target: "Grounded" } as const;
+  if (!slot.required && kind === "noInput") {
+    return [skip] as const;
+  }
+  if (!slot.required) {
+    return [
+      { guard: { type: "outOfReprompts", params: { question: slot.name } }, ...skip },
+      {
+        guard: "saidYesOrNo",
+        actions: { type: "countFailure", params: { question: slot.name, kind } },
+        target: askState(slot),
+      },
+      skip,
+    ] as const;
+  }
+  return reask(slot.name, askState(slot), kind);
+}
+
+// the transitions to the question for the first slot still missing, or to the end of the form
+export function nextQuestion(form: Form) {
+  return [
+    ...form.slots.map((slot) => ({
+      guard: { type: "slotMissing" as const, params: { slot } },
+      target: askState(slot),
+    })),
+    { target: form.done },
+  ] as const;
+}
+
+export function formStates(form: Form): Record<string, DMStateConfig> {
+  const states: Record<string, DMStateConfig> = {};
+  for (const slot of form.slots) {
+    states[askState(slot)] = {
+      entry: { type: "spst.speak", params: prompt(slot) },
+      on: bargeIn(listenState(slot)),
+    };
+
+    states[listenState(slot)] = {
+      entry: { type: "spst.listen" },
+      on: {
+        RECOGNISED: [
+          ...commands(listenState(slot)),
+          {
+            // store the value of the slot, and any other slot the user mentioned (see 'fillSlots')
+            actions: {
+              type: "fillSlots",
+              params: ({ event }: { event: { value: Hypothesis[] } }) => ({
+                hypotheses: event.value,
+                expected: slot.entity,
+              }),
+            },
+          },
+        ],
+        LISTEN_COMPLETE: [
+          ...(slot.reply
+            ? [{ guard: { type: "slotFilled", params: { slot } }, target: checkState(slot) } as const]
+            : []),
+          { guard: "heardSlots", target: "Ground" },
+          // an answer which needs no grounding, like "no" to a yes/no question
+          { guard: { type: "slotFilled", params: { slot } }, target: "Grounded" },
+          ...retry(slot, "noMatch"),
+        ],
+        ASR_NOINPUT: retry(slot, "noInput"),
+      },
+    };
+
+    if (slot.reply) {
+      const reply = slot.reply;
+      states[checkState(slot)] = {
+        entry: {
+          type: "spst.speak",
+          params: ({ context }: { context: DMContext }) => ({ utterance: reply(context) }),
+        },
+        on: {
+          // the answer may also have filled other slots ("no, at 11"), which are grounded like any other answer
+          SPEAK_COMPLETE: [{ guard: "heardSlots", target: "Ground" }, { target: "Grounded" }],
+        },
+      };
+    }
+  }
+  return states;
+}
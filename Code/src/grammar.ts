@@ -0,0 +1,114 @@
+/*
+The grammar: the words and phrases the system understands, and what they mean for the dialogue.
+It is used by the parser (parser.ts) to find the slots in what the user says.
+
+The names of the people are not written here: they come from the contact directory (see ./contacts), which is
+contacts.json by default and can be replaced while the page is running (see useContacts below). Neither are the
+other words and phrases: they depend on the language, and are in the locale bundles (see ./locale).
+*/
+
+import { Contact, personEntries } from "./contacts";
+import defaultContacts from "./contacts.json";
+import { bundle, DEFAULT_LOCALE, Locale } from "./locale";
+
+/*
+GrammarEntry interface: 
+This defines an interface called GrammarEntry in TypeScript. 
+An interface is a way to define the "shape" of an object. In this case, a GrammarEntry can have optional 
+properties person (a string), namesakes, yesno (a boolean), command (one of the global commands below), part (a
+part of the appointment, below), invite, language, intent and moveTo.
+The ? after each property name indicates that the property is optional.
+
+Command: the global commands, which the user can say whatever the question (see ./commands):
+- help: what can I say?
+- repeat: say the last prompt again;
+- back: undo the last slot filled and ask for it again;
+- startOver: forget everything and start from the greeting;
+- cancel: stop the dialogue.
+
+namesakes: a first name which several people share, as "David" for David Bowie and David Lynch. The dialogue asks
+which of them is meant (see ./people).
+
+invite: words saying that the people named after them are added to the meeting ("also", "invite") or removed
+from it ("not", "without"), see ./people.
+
+Part: a part of the appointment, which the user can name when they say it is wrong ("no, the time", "the length").
+
+language: the user wants the dialogue to go on in another language ("speak Swedish"), see ./locale.
+
+Intent: what the user wants to do, said at the start of the dialogue (see ListenIntent in dm.ts):
+- book: book a new appointment ("book a meeting");
+- query: hear which appointments they have ("what do I have on Friday");
+- move: move an appointment to another day or time ("move my meeting with Lou to 3");
+- cancel: cancel an appointment ("cancel Monday's meeting").
+
+moveTo: the word after which the new day or time of an appointment which is moved is said ("to" in "move
+Monday's meeting to Tuesday"); what comes before it tells which appointment it is (see ./manage).
+
+Days, times, durations and recurrences are not listed here: there are far too many ways to say them ("tomorrow",
+"the 3rd of March", "half past two", "for an hour and a half", "every other Friday"...), so they are understood by
+the date and time resolver in datetime.ts.
+*/
+
+export type Command = "help" | "repeat" | "back" | "startOver" | "cancel";
+export type Part = "person" | "day" | "time" | "duration";
+export type Intent = "book" | "query" | "move" | "cancel";
+
+export interface GrammarEntry {
+  person?: string;
+  namesakes?: string[];
+  invite?: boolean;
+  yesno?: boolean;
+  command?: Command;
+  part?: Part;
+  language?: Locale;
+  intent?: Intent;
+  moveTo?: boolean;
+}
+
+
+/*
+grammar object: 
+This creates a constant object named grammar, from the contacts and the English phrases (see ./locales/en). This
+object is a dictionary (or a map) where:
+
+Keys: are strings (e.g., "vlad", "yes", "of course"). A key can be made of several words: the parser
+matches it as a whole phrase anywhere in the utterance.
+
+Values: are GrammarEntry objects. Each key represents a word or phrase, and its corresponding value 
+contains information about what that word/phrase represents (e.g., a person's name, or a yes/no answer).
+
+
+[index: string] : defines the type of the key 'index', so a string type
+*/
+
+export const grammar: { [index: string]: GrammarEntry } = {
+  ...personEntries(defaultContacts),
+  ...bundle(DEFAULT_LOCALE).phrases,
+};
+
+let contacts: Contact[] = defaultContacts;
+
+// the contact directory in use
+export function currentContacts(): Contact[] {
+  return contacts;
+}
+
+/*
+useContacts function:
+Replaces the contact directory, e.g. with a file loaded in the page: the person entries of the grammar are
+generated again from it, and the old ones are forgotten.
+*/
+export function useContacts(directory: Contact[]) {
+  contacts = directory;
+  for (const key of Object.keys(grammar)) {
+    delete grammar[key];
+  }
+  Object.assign(grammar, personEntries(directory), bundle(DEFAULT_LOCALE).phrases);
+}
+
+// the grammar in a language: the contacts and the phrases of its locale bundle
+export function lexicon(locale: Locale): { [index: string]: GrammarEntry } {
+  return locale === DEFAULT_LOCALE ? grammar : { ...personEntries(contacts), ...bundle(locale).phrases };
+}
+
@@ -0,0 +1,166 @@
+/*
+Locales: the languages the dialogue can be held in. Everything the system says or understands which depends on the
+language is in a locale bundle (see ./locales), so that the dialogue manager itself does not depend on it:
+- speech: the locale and voice of the ASR/TTS system;
+- phrases: the words and phrases of the grammar (see ./grammar), without the names of the people;
+- dates: the words for days, times, durations and recurrences (see DateWords in ./datetime), and how they are
+  said back;
+- prompts: what the system says, and the questions of the appointment form (see ./appointment).
+
+The prompts which say values back are functions, given the values already said in the language ("Monday the 3rd
+of February", "Vladislav Maraev and Lou Reed"), so that each language can put them in its own order. The prompts
+may use the speech markup of ./markup (emphasis, pauses, times).
+
+The language is chosen at startup (see app.ts) and can be changed during the dialogue by naming another one
+("speak Swedish", "in italiano"), see LanguageSwitched in dm.ts.
+*/
+
+import { CalendarDate, DateWords, Recurrence, TimeOfDay } from "./datetime";
+import { GrammarEntry } from "./grammar";
+import { english } from "./locales/en";
+import { italian } from "./locales/it";
+import { swedish } from "./locales/sv";
+import { FailureKind } from "./types";
+
+export type Locale = "en-US" | "sv-SE" | "it-IT";
+
+// the question asking for a slot, and what we say when it got no answer (see FormSlot in ./form)
+export interface SlotTexts {
+  prompt: string;
+  followUp: string;
+  reprompts: string[];
+}
+
+export interface LocaleBundle {
+  // the name of the language, in the language ("svenska")
+  name: string;
+  speech: { locale: string; voice: string };
+  phrases: { [index: string]: GrammarEntry };
+  dates: DateWords;
+  formatDate: (date: CalendarDate, now: Date) => string;
+  formatTime: (time: TimeOfDay) => string;
+  // a duration in minutes: "an hour and a half"
+  formatDuration: (minutes: number) => string;
+  // how often a meeting takes place, and until when: "every other Friday until Saturday the 31st of May"
+  formatRecurrence: (rule: Recurrence, now: Date) => string;
+  // the words joining the last two items of a list ("Vlad and Aya", "Vlad or Aya")
+  and: string;
+  or: string;
+  prompts: {
+    // the greeting asks what the user wants to do (see ListenIntent in dm.ts); 'intents' says what they can say
+    greeting: string;
+    intents: string;
+    anythingElse: string;
+    help: string;
+    failureIntros: Record<FailureKind, string>;
+    // the values the user just gave, as they are acknowledged: "Vladislav Maraev on Monday the 3rd of February at
+    // 10 am for an hour and then every Monday" (every part is optional; the duration is said with 'lasting' or
+    // 'until', and how often the meeting takes place with formatRecurrence)
+    heard: (
+      people: string | null,
+      date: string | null,
+      time: string | null,
+      duration: string | null,
+      repeats: string | null,
+    ) => string;
+    lasting: (duration: string) => string;
+    until: (time: string) => string;
+    // the duration given does not fit the start time: the meeting would end before it starts, or the next day
+    endsBeforeStart: (time: string) => string;
+    endsNextDay: string;
+    // the user said when the meeting stops ("until June"), but it does not repeat
+    noRepeat: string;
+    isThatRight: (heard: string) => string;
+    didYouMean: (values: string) => string;
+    whichNamesake: (name: string, people: string) => string;
+    reask: string;
+    // the appointment which clashes (the time is null for a whole day), and the free slot we offer instead
+    clash: (people: string, date: string, time: string | null) => string;
+    noFreeDay: string;
+    noFreeTime: string;
+    pickAnother: string;
+    nextFreeDay: (date: string) => string;
+    nearestFreeTime: (time: string) => string;
+    // why a day or time cannot be booked (see ../availability): the weekday is 0 for Sunday; the notice is in
+    // minutes. Then the day or time allowed which we offer instead.
+    holiday: (date: string, name: string | null) => string;
+    dayOff: (person: string, weekday: number) => string;
+    away: (person: string, date: string) => string;
+    closed: (weekday: number) => string;
+    tooSoon: (notice: number) => string;
+    outsideHours: (start: string, end: string) => string;
+    // a recurring meeting would also take place on a day which cannot be booked (said before why): it is then
+    // only booked once, or, if the days can be left out ('except', see ../availability), the user is asked whether
+    // to book it without them ("every Monday, except on Monday the 21st of April", said with 'except')
+    repeatsOn: (date: string) => string;
+    onlyOnce: string;
+    leaveOut: (repeats: string) => string;
+    except: (repeats: string, dates: string) => string;
+    availableDay: (date: string) => string;
+    availableTime: (time: string) => string;
+    whichPart: string;
+    saveFailed: string;
+    saved: string;
+    giveUp: string;
+    goodbye: string;
+    languageSwitched: string;
+    // the appointment of a saved session (see ../persistence), and whether to go on with it
+    resume: (people: string | null, date: string | null, time: string | null) => string;
+    // managing the appointments in the calendar (see ../manage): an appointment is said with its people, its day
+    // if it is not already known, and its time (null for a whole-day one)
+    meeting: (people: string, date: string | null, time: string | null) => string;
+    queryWhich: string;
+    // the appointments found (already said with 'meeting' and listed) on a day, if it was asked
+    agenda: (count: number, date: string | null, meetings: string) => string;
+    // which appointment to move or cancel: several were found (listed), or none was said yet (null)
+    whichAppointment: (meetings: string | null) => string;
+    noAppointment: string;
+    moveTo: string;
+    confirmMove: (meeting: string, to: string) => string;
+    confirmCancel: (meeting: string) => string;
+    moved: string;
+    cancelled: string;
+    unchanged: string;
+    // the calendar could not be read or changed
+    calendarFailed: string;
+  };
+  // the questions of the appointment form (see ./appointment), by slot name
+  appointment: {
+    slots: { [slot: string]: SlotTexts };
+    fullDayReply: (fullDay: boolean) => string;
+    // the time and duration (said with 'lasting') are null for a whole-day appointment; the date is the first day
+    // of a recurring one, and 'repeats' how often it takes place (null if it does not)
+    confirmation: (
+      people: string,
+      date: string,
+      time: string | null,
+      duration: string | null,
+      repeats: string | null,
+    ) => string;
+  };
+}
+
+export const DEFAULT_LOCALE: Locale = "en-US";
+
+const bundles: Record<Locale, LocaleBundle> = {
+  "en-US": english,
+  "sv-SE": swedish,
+  "it-IT": italian,
+};
+
+export function bundle(locale: Locale): LocaleBundle {
+  return bundles[locale];
+}
+
+// a locale given from outside (e.g. "sv" or "sv-SE" in the URL), or null if we do not have it
+export function findLocale(name: string | null): Locale | null {
+  if (!name) {
+    return null;
+  }
+  const wanted = name.toLowerCase();
+  return (
+    (Object.keys(bundles) as Locale[]).find(
+      (locale) => locale.toLowerCase() === wanted || locale.split("-")[0].toLowerCase() === wanted,
+    ) ?? null
+  );
+}
@@ -0,0 +1,223 @@
+/*
+English (the default language, see ../locale).
+*/
+
+import { ENGLISH_DATES, formatDate, formatDuration, formatRecurrence, formatTime } from "../datetime";
+import { LocaleBundle } from "../locale";
+import { sayTime } from "../markup";
+
+// "on Sundays"
+const WEEKDAYS = ["Sundays", "Mondays", "Tuesdays", "Wednesdays", "Thursdays", "Fridays", "Saturdays"];
+
+export const english: LocaleBundle = {
+  name: "English",
+  speech: { locale: "en-US", voice: "en-US-DavisNeural" },
+  phrases: {
+    "also": { invite: true },
+    "add": { invite: true },
+    "invite": { invite: true },
+    "not": { invite: false },
+    "without": { invite: false },
+    "remove": { invite: false },
+    "don't invite": { invite: false },
+    "do not invite": { invite: false },
+    "yes": {yesno:true},
+    "yep": {yesno:true},
+    "of course": {yesno:true},
+    "sure": {yesno:true},
+    // answers to "will it take the whole day?", rather than the part "day" below (the longest phrase wins)
+    "whole day": {yesno:true},
+    "the whole day": {yesno:true},
+    "all day": {yesno:true},
+    "no": {yesno:false},
+    "nope": {yesno:false},
+    "no way": {yesno:false},
+    "never": {yesno:false},
+    "help": { command: "help" },
+    "what can i say": { command: "help" },
+    "repeat": { command: "repeat" },
+    "repeat that": { command: "repeat" },
+    "say that again": { command: "repeat" },
+    "come again": { command: "repeat" },
+    "pardon": { command: "repeat" },
+    "go back": { command: "back" },
+    "undo": { command: "back" },
+    "start over": { command: "startOver" },
+    "start again": { command: "startOver" },
+    "restart": { command: "startOver" },
+    "cancel": { command: "cancel" },
+    "forget it": { command: "cancel" },
+    "quit": { command: "cancel" },
+    "person": { part: "person" },
+    "name": { part: "person" },
+    "day": { part: "day" },
+    "date": { part: "day" },
+    "time": { part: "time" },
+    "hour": { part: "time" },
+    "length": { part: "duration" },
+    "duration": { part: "duration" },
+    "how long": { part: "duration" },
+    "in english": { language: "en-US" },
+    "speak english": { language: "en-US" },
+    "swedish": { language: "sv-SE" },
+    "svenska": { language: "sv-SE" },
+    "italian": { language: "it-IT" },
+    "italiano": { language: "it-IT" },
+    "book": { intent: "book" },
+    "create": { intent: "book" },
+    "new meeting": { intent: "book" },
+    "make an appointment": { intent: "book" },
+    "what do i have": { intent: "query" },
+    "what have i got": { intent: "query" },
+    "what's on": { intent: "query" },
+    "when do i meet": { intent: "query" },
+    "when am i meeting": { intent: "query" },
+    "move": { intent: "move" },
+    "reschedule": { intent: "move" },
+    "postpone": { intent: "move" },
+    "cancel my meeting": { intent: "cancel" },
+    "cancel the meeting": { intent: "cancel" },
+    "cancel my appointment": { intent: "cancel" },
+    "delete": { intent: "cancel" },
+    "call off": { intent: "cancel" },
+    "to": { moveTo: true },
+  },
+  dates: ENGLISH_DATES,
+  formatDate,
+  formatTime,
+  formatDuration,
+  formatRecurrence,
+  and: "and",
+  or: "or",
+  prompts: {
+    greeting: "Hi! Do you want to book a meeting, hear what you have on a day, or move or cancel a meeting?",
+    intents:
+      "You can say book a meeting, what do I have on Friday, move my meeting with Lou to 3, or cancel Monday's meeting.",
+    anythingElse: "Anything else?",
+    help: "You can answer the question, or say repeat that, go back, start over or cancel.",
+    failureIntros: {
+      noInput: "I didn't hear you.",
+      noMatch: "Sorry, I didn't understand.",
+    },
+    heard: (people, date, time, duration, repeats) =>
+      [
+        people,
+        date && (people ? `on ${date}` : date),
+        time && `at ${sayTime(time)}`,
+        duration,
+        repeats && (date ? `and then ${repeats}` : repeats),
+      ]
+        .filter(Boolean)
+        .join(" "),
+    lasting: (duration) => `for ${duration}`,
+    until: (time) => `until ${sayTime(time)}`,
+    endsBeforeStart: (time) => `The meeting has to end after it starts, at ${sayTime(time)}.`,
+    endsNextDay: "The meeting has to end on the same day.",
+    noRepeat: "The meeting does not repeat, so it cannot have an end date.",
+    isThatRight: (heard) => `${heard[0].toUpperCase()}${heard.slice(1)}, is that right?`,
+    didYouMean: (values) => `Did you mean ${values}?`,
+    whichNamesake: (name, people) => `Which ${name} do you mean: ${people}?`,
+    reask: "Sorry, I didn't catch that.",
+    clash: (people, date, time) =>
+      `You already meet ${people} ${time == null ? `on ${date} for the whole day` : `at ${sayTime(time)} on ${date}`}.`,
+    noFreeDay: "There is no free day soon.",
+    noFreeTime: "There is no free time that day.",
+    pickAnother: "Let's pick another one.",
+    nextFreeDay: (date) => `[pause 300ms] The next free day is *${date}*. Shall I book it then?`,
+    nearestFreeTime: (time) =>
+      `[pause 300ms] The nearest free time that day is *${sayTime(time)}*. Shall I book it then?`,
+    holiday: (date, name) => `${date} is a holiday${name ? `, ${name}` : ""}.`,
+    dayOff: (person, weekday) => `${person} doesn't work on ${WEEKDAYS[weekday]}.`,
+    away: (person, date) => `${person} is away on ${date}.`,
+    closed: (weekday) => `There are no meetings on ${WEEKDAYS[weekday]}.`,
+    tooSoon: (minutes) => `Meetings must be booked at least ${formatDuration(minutes)} ahead.`,
+    outsideHours: (start, end) => `Meetings that day must be between ${sayTime(start)} and ${sayTime(end)}.`,
+    repeatsOn: (date) => `The meeting would also take place on ${date}.`,
+    onlyOnce: "So I can only book it once.",
+    leaveOut: (repeats) => `Shall I book it *${repeats}*? If not, I can only book it once.`,
+    except: (repeats, dates) => `${repeats}, except on ${dates}`,
+    availableDay: (date) => `How about *${date}*?`,
+    availableTime: (time) => `How about *${sayTime(time)}*?`,
+    whichPart: "Which part is wrong: the *person*, the *day*, the *time* or the *length*?",
+    saveFailed: "Sorry, I could not save your appointment. Let's start over.",
+    saved: "Your appointment has been created!",
+    giveUp: "Sorry, we don't seem to get anywhere. Do you want to start over?",
+    goodbye: "Okay. Goodbye!",
+    languageSwitched: "Okay, I will speak English.",
+    resume: (people, date, time) =>
+      `We were booking a meeting${people ? ` with ${people}` : ""}${date ? ` on ${date}` : ""}` +
+      `${time ? ` at ${sayTime(time)}` : ""}, shall we continue?`,
+    meeting: (people, date, time) =>
+      `with ${people}${date ? ` on ${date}` : ""}${time ? ` at ${sayTime(time)}` : " for the whole day"}`,
+    queryWhich: "Which day do you want to know about?",
+    agenda: (count, date, meetings) =>
+      count === 0
+        ? `You have no meetings${date ? ` on ${date}` : ""}.`
+        : `You have ${count === 1 ? "a meeting" : `${count} meetings`}${date ? ` on ${date}` : ""}: ${meetings}.`,
+    whichAppointment: (meetings) =>
+      meetings ? `Which one do you mean: ${meetings}?` : "Which meeting do you mean? Say who it is with, or its day.",
+    noAppointment: "I could not find that meeting.",
+    moveTo: "When do you want to move it to?",
+    confirmMove: (meeting, to) => `Do you want me to move your meeting ${meeting} to *${to}*?`,
+    confirmCancel: (meeting) => `Do you want me to cancel your meeting ${meeting}?`,
+    moved: "Your meeting has been moved.",
+    cancelled: "Your meeting has been cancelled.",
+    unchanged: "Okay, I will leave it as it is.",
+    calendarFailed: "Sorry, I could not get to your calendar.",
+  },
+  appointment: {
+    slots: {
+      person: {
+        prompt: "Who are you meeting with?",
+        followUp: "and who are you meeting with?",
+        reprompts: [
+          "Who will you meet?",
+          "You can say a name such as Vlad or Aya.",
+          "I need the name of the person you are meeting. You can also give the day and time at once, as in Vlad on Friday at 10.",
+        ],
+      },
+      day: {
+        prompt: "Which day do you want the meeting?",
+        followUp: "and on which day?",
+        reprompts: [
+          "On which day is the meeting?",
+          "You can say a day such as tomorrow, next Tuesday or the 3rd of March.",
+          "I need the day of the meeting. Say a weekday, like Monday, or a date, like the 21st of February.",
+        ],
+      },
+      fullDay: {
+        prompt: "Will it take the whole day?",
+        followUp: "and will it take the whole day?",
+        reprompts: [
+          "Is the meeting going to last all day?",
+          "You can say yes or no.",
+          "I need to know whether the meeting takes the whole day. Say yes or no, or give the time, as in no, at 10.",
+        ],
+      },
+      time: {
+        prompt: "What time is your meeting?",
+        followUp: "and at what time?",
+        reprompts: [
+          "At what time does the meeting start?",
+          "You can say a time such as 10 am or half past two.",
+          "I need the start time of the meeting. Say an hour, like 3 pm, or a time, like quarter to ten.",
+        ],
+      },
+      duration: {
+        prompt: "How long will the meeting last?",
+        followUp: "and how long will it last?",
+        reprompts: [
+          "For how long is the meeting?",
+          "You can say an hour, 90 minutes or until 3 pm.",
+          "I need to know how long the meeting lasts. Say a length, like half an hour, or when it ends, like until 4.",
+        ],
+      },
+    },
+    fullDayReply: (fullDay) =>
+      fullDay ? "Ok, you will take the whole day." : "Ok, the meeting will not be the whole day.",
+    confirmation: (people, date, time, duration, repeats) =>
+      `Do you want me to create an appointment with ${people} on *${date}* ` +
+      `${time == null ? "for the whole day" : `at *${sayTime(time)}* ${duration}`}` +
+      `${repeats ? `, and then *${repeats}*` : ""}?`,
+  },
+};
@@ -0,0 +1,371 @@
+/*
+Italian. Times are said with the 24-hour clock ("alle 14:30"), and the minutes follow the hour after "e" ("le tre e
+mezza", "le dieci e un quarto").
+*/
+
+import { CalendarDate, DateWords, Recurrence, TimeOfDay, weekday } from "../datetime";
+import { LocaleBundle } from "../locale";
+import { sayTime } from "../markup";
+
+const dates: DateWords = {
+  weekdays: ["domenica", "lunedì", "martedì", "mercoledì", "giovedì", "venerdì", "sabato"],
+  months: [
+    "gennaio",
+    "febbraio",
+    "marzo",
+    "aprile",
+    "maggio",
+    "giugno",
+    "luglio",
+    "agosto",
+    "settembre",
+    "ottobre",
+    "novembre",
+    "dicembre",
+  ],
+  today: [["oggi"], ["stasera"]],
+  tomorrow: [["domani"]],
+  dayAfterTomorrow: [["dopodomani"]],
+  thisWeekday: ["questo", "questa"],
+  nextWeekday: ["prossimo", "prossima"],
+  article: ["il"],
+  of: ["di"],
+  units: [
+    "zero",
+    "uno",
+    "due",
+    "tre",
+    "quattro",
+    "cinque",
+    "sei",
+    "sette",
+    "otto",
+    "nove",
+    "dieci",
+    "undici",
+    "dodici",
+    "tredici",
+    "quattordici",
+    "quindici",
+    "sedici",
+    "diciassette",
+    "diciotto",
+    "diciannove",
+  ],
+  tens: { venti: 20, trenta: 30, quaranta: 40, cinquanta: 50 },
+  ordinalUnits: [
+    "zeresimo",
+    "primo",
+    "secondo",
+    "terzo",
+    "quarto",
+    "quinto",
+    "sesto",
+    "settimo",
+    "ottavo",
+    "nono",
+    "decimo",
+    "undicesimo",
+    "dodicesimo",
+    "tredicesimo",
+    "quattordicesimo",
+    "quindicesimo",
+    "sedicesimo",
+    "diciassettesimo",
+    "diciottesimo",
+    "diciannovesimo",
+  ],
+  ordinalTens: { ventesimo: 20, trentesimo: 30 },
+  // "1º"
+  ordinalDigits: /^(\d{1,2})º$/,
+  timeWords: ["alle", "le", "ore", "verso"],
+  oclock: [],
+  noon: ["mezzogiorno"],
+  midnight: ["mezzanotte"],
+  morning: [["di", "mattina"], ["del", "mattino"]],
+  afternoon: [["di", "pomeriggio"], ["del", "pomeriggio"], ["di", "sera"], ["della", "sera"]],
+  half: ["mezza", "mezzo"],
+  quarter: [["un", "quarto"]],
+  minutes: ["minuti", "minuto"],
+  past: [],
+  to: [],
+  halfBefore: false,
+  and: ["e"],
+  a: ["un", "una"],
+  hours: ["ore", "ora"],
+  anHour: [["un'ora"]],
+  halfAnHour: [["mezz'ora"], ["mezza", "ora"]],
+  andAHalf: [["e", "mezza"], ["e", "mezzo"]],
+  until: [["fino", "alle"], ["fino", "a"]],
+  // "tutti i lunedì", "tutte le settimane"
+  every: [["ogni"], ["tutti", "i"], ["tutte", "le"]],
+  everyOther: [],
+  day: ["giorno", "giorni"],
+  week: ["settimana", "settimane"],
+  month: ["mese", "mesi"],
+  times: ["volte"],
+};
+
+// "lunedì 3 febbraio", with the year when it is not the current one
+function formatDate(date: CalendarDate, now: Date): string {
+  const year = date.year !== now.getFullYear() ? ` ${date.year}` : "";
+  return `${dates.weekdays[weekday(date)]} ${date.day} ${dates.months[date.month - 1]}${year}`;
+}
+
+// "10", "14:30", "mezzogiorno", "mezzanotte"
+function formatTime(time: TimeOfDay): string {
+  if (time.minute === 0 && time.hour === 12) {
+    return "mezzogiorno";
+  }
+  if (time.minute === 0 && time.hour === 0) {
+    return "mezzanotte";
+  }
+  return time.minute === 0 ? `${time.hour}` : `${time.hour}:${String(time.minute).padStart(2, "0")}`;
+}
+
+// "alle 10", "all'una", but "a mezzogiorno"
+function at(time: string): string {
+  if (time === "mezzogiorno" || time === "mezzanotte") {
+    return `a ${time}`;
+  }
+  return time === "1" || time.startsWith("1:") ? `all'${sayTime(time)}` : `alle ${sayTime(time)}`;
+}
+
+// "la domenica", "il lunedì"
+const WEEKDAYS = [
+  "la domenica",
+  "il lunedì",
+  "il martedì",
+  "il mercoledì",
+  "il giovedì",
+  "il venerdì",
+  "il sabato",
+];
+
+// "30 minuti", "un'ora", "un'ora e mezza", "2 ore", "2 ore e 15 minuti"
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) {
+    return `${rest} minuti`;
+  }
+  const whole = hours === 1 ? "un'ora" : `${hours} ore`;
+  if (rest === 30) {
+    return `${whole} e mezza`;
+  }
+  return rest === 0 ? whole : `${whole} e ${rest} minuti`;
+}
+
+// "ogni lunedì", "ogni 2 settimane, il venerdì", "ogni giorno fino a sabato 31 maggio", "ogni mese, per 10 volte"
+function formatRecurrence(rule: Recurrence, now: Date): string {
+  const [unit, units] = {
+    daily: ["giorno", "giorni"],
+    weekly: ["settimana", "settimane"],
+    monthly: ["mese", "mesi"],
+  }[rule.frequency];
+  let every: string;
+  if (rule.interval > 1) {
+    every = `ogni ${rule.interval} ${units}${rule.weekday != null ? `, ${WEEKDAYS[rule.weekday]}` : ""}`;
+  } else {
+    every = `ogni ${rule.weekday != null ? dates.weekdays[rule.weekday] : unit}`;
+  }
+  if (rule.until != null) {
+    return `${every} fino a ${formatDate(rule.until, now)}`;
+  }
+  return rule.count != null ? `${every}, per ${rule.count} volte` : every;
+}
+
+const capitalize = (text: string) => `${text[0].toUpperCase()}${text.slice(1)}`;
+
+export const italian: LocaleBundle = {
+  name: "italiano",
+  speech: { locale: "it-IT", voice: "it-IT-DiegoNeural" },
+  phrases: {
+    "anche": { invite: true },
+    "aggiungi": { invite: true },
+    "invita": { invite: true },
+    "non": { invite: false },
+    "senza": { invite: false },
+    "togli": { invite: false },
+    "non invitare": { invite: false },
+    "sì": { yesno: true },
+    "si": { yesno: true },
+    "certo": { yesno: true },
+    "va bene": { yesno: true },
+    "volentieri": { yesno: true },
+    // "the whole day", an answer to the full-day question rather than the part "giorno" below
+    "tutto il giorno": { yesno: true },
+    "tutta la giornata": { yesno: true },
+    "no": { yesno: false },
+    "per niente": { yesno: false },
+    "assolutamente no": { yesno: false },
+    "mai": { yesno: false },
+    "aiuto": { command: "help" },
+    "cosa posso dire": { command: "help" },
+    "ripeti": { command: "repeat" },
+    "puoi ripetere": { command: "repeat" },
+    "torna indietro": { command: "back" },
+    "indietro": { command: "back" },
+    "ricomincia": { command: "startOver" },
+    "da capo": { command: "startOver" },
+    "annulla": { command: "cancel" },
+    "lascia perdere": { command: "cancel" },
+    "persona": { part: "person" },
+    "nome": { part: "person" },
+    "giorno": { part: "day" },
+    "data": { part: "day" },
+    "ora": { part: "time" },
+    "orario": { part: "time" },
+    "durata": { part: "duration" },
+    "quanto dura": { part: "duration" },
+    "inglese": { language: "en-US" },
+    "english": { language: "en-US" },
+    "svedese": { language: "sv-SE" },
+    "svenska": { language: "sv-SE" },
+    "in italiano": { language: "it-IT" },
+    "prenota": { intent: "book" },
+    "fissa": { intent: "book" },
+    "nuovo appuntamento": { intent: "book" },
+    "cosa ho": { intent: "query" },
+    "che cosa ho": { intent: "query" },
+    "quando vedo": { intent: "query" },
+    "sposta": { intent: "move" },
+    "rimanda": { intent: "move" },
+    "cancella": { intent: "cancel" },
+    "disdici": { intent: "cancel" },
+    "annulla l'appuntamento": { intent: "cancel" },
+    "a": { moveTo: true },
+  },
+  dates,
+  formatDate,
+  formatTime,
+  formatDuration,
+  formatRecurrence,
+  and: "e",
+  or: "o",
+  prompts: {
+    greeting: "Ciao! Vuoi fissare un appuntamento, sapere cosa hai in un giorno, oppure spostarne o cancellarne uno?",
+    intents:
+      "Puoi dire prenota un appuntamento, cosa ho venerdì, sposta l'appuntamento con Lou alle 15, o cancella l'appuntamento di lunedì.",
+    anythingElse: "Altro?",
+    help: "Puoi rispondere alla domanda, oppure dire ripeti, torna indietro, ricomincia o annulla.",
+    failureIntros: {
+      noInput: "Non ti ho sentito.",
+      noMatch: "Scusa, non ho capito.",
+    },
+    heard: (people, date, time, duration, repeats) =>
+      [people, date, time && at(time), duration, repeats && (date ? `e poi ${repeats}` : repeats)]
+        .filter(Boolean)
+        .join(" "),
+    lasting: (duration) => `per ${duration}`,
+    until: (time) => `fino ${at(time)}`,
+    endsBeforeStart: (time) => `L'appuntamento deve finire dopo l'inizio, ${at(time)}.`,
+    endsNextDay: "L'appuntamento deve finire lo stesso giorno.",
+    noRepeat: "L'appuntamento non si ripete, quindi non può avere una data di fine.",
+    isThatRight: (heard) => `${heard[0].toUpperCase()}${heard.slice(1)}, giusto?`,
+    didYouMean: (values) => `Intendevi ${values}?`,
+    whichNamesake: (name, people) => `Quale ${name} intendi: ${people}?`,
+    reask: "Scusa, non ho capito bene.",
+    clash: (people, date, time) =>
+      `Hai già un appuntamento con ${people} ${date} ${time == null ? "per tutto il giorno" : at(time)}.`,
+    noFreeDay: "Non c'è nessun giorno libero a breve.",
+    noFreeTime: "Non c'è nessun orario libero quel giorno.",
+    pickAnother: "Scegliamone un altro.",
+    nextFreeDay: (date) => `[pause 300ms] Il prossimo giorno libero è *${date}*. Lo prenoto per allora?`,
+    nearestFreeTime: (time) =>
+      `[pause 300ms] L'orario libero più vicino quel giorno è *${at(time)}*. Lo prenoto per allora?`,
+    holiday: (date, name) => `${capitalize(date)} è un giorno festivo${name ? `, ${name}` : ""}.`,
+    dayOff: (person, weekday) => `${person} non lavora ${WEEKDAYS[weekday]}.`,
+    away: (person, date) => `${person} è assente ${date}.`,
+    closed: (weekday) => `Non si fissano appuntamenti ${WEEKDAYS[weekday]}.`,
+    tooSoon: (minutes) => `Gli appuntamenti vanno fissati con almeno ${formatDuration(minutes)} di anticipo.`,
+    outsideHours: (start, end) =>
+      `Quel giorno gli appuntamenti devono essere tra le ${sayTime(start)} e le ${sayTime(end)}.`,
+    repeatsOn: (date) => `L'appuntamento cadrebbe anche ${date}.`,
+    onlyOnce: "Quindi posso fissarlo solo una volta.",
+    leaveOut: (repeats) => `Lo fisso *${repeats}*? Altrimenti posso fissarlo solo una volta.`,
+    except: (repeats, dates) => `${repeats}, tranne ${dates}`,
+    availableDay: (date) => `Va bene *${date}*?`,
+    availableTime: (time) => `Va bene *${at(time)}*?`,
+    whichPart: "Che cosa è sbagliato: la *persona*, il *giorno*, l'*ora* o la *durata*?",
+    saveFailed: "Scusa, non sono riuscito a salvare l'appuntamento. Ricominciamo.",
+    saved: "Il tuo appuntamento è stato creato!",
+    giveUp: "Scusa, non riusciamo ad andare avanti. Vuoi ricominciare?",
+    goodbye: "Va bene. Arrivederci!",
+    languageSwitched: "Va bene, adesso parlo italiano.",
+    resume: (people, date, time) =>
+      `Stavamo prenotando un incontro${people ? ` con ${people}` : ""}${date ? ` ${date}` : ""}` +
+      `${time ? ` ${at(time)}` : ""}, continuiamo?`,
+    meeting: (people, date, time) =>
+      `con ${people}${date ? ` ${date}` : ""}${time ? ` ${at(time)}` : " per tutto il giorno"}`,
+    queryWhich: "Di quale giorno vuoi sapere?",
+    agenda: (count, date, meetings) =>
+      count === 0
+        ? `Non hai appuntamenti${date ? ` ${date}` : ""}.`
+        : `Hai ${count === 1 ? "un appuntamento" : `${count} appuntamenti`}${date ? ` ${date}` : ""}: ${meetings}.`,
+    whichAppointment: (meetings) =>
+      meetings ? `Quale intendi: ${meetings}?` : "Quale appuntamento intendi? Dimmi con chi è, o il giorno.",
+    noAppointment: "Non ho trovato quell'appuntamento.",
+    moveTo: "A quando vuoi spostarlo?",
+    confirmMove: (meeting, to) => `Vuoi che sposti il tuo appuntamento ${meeting} a *${to}*?`,
+    confirmCancel: (meeting) => `Vuoi che cancelli il tuo appuntamento ${meeting}?`,
+    moved: "Il tuo appuntamento è stato spostato.",
+    cancelled: "Il tuo appuntamento è stato cancellato.",
+    unchanged: "Va bene, lo lascio com'è.",
+    calendarFailed: "Scusa, non riesco ad accedere al tuo calendario.",
+  },
+  appointment: {
+    slots: {
+      person: {
+        prompt: "Con chi hai l'appuntamento?",
+        followUp: "e con chi hai l'appuntamento?",
+        reprompts: [
+          "Chi incontrerai?",
+          "Puoi dire un nome, come Vlad o Aya.",
+          "Mi serve il nome della persona che incontri. Puoi anche dire il giorno e l'ora insieme, come Vlad venerdì alle 10.",
+        ],
+      },
+      day: {
+        prompt: "In che giorno vuoi l'appuntamento?",
+        followUp: "e in che giorno?",
+        reprompts: [
+          "Che giorno è l'appuntamento?",
+          "Puoi dire un giorno, come domani, martedì prossimo o il 3 marzo.",
+          "Mi serve il giorno dell'appuntamento. Di' un giorno della settimana, come lunedì, o una data, come il 21 febbraio.",
+        ],
+      },
+      fullDay: {
+        prompt: "Durerà tutto il giorno?",
+        followUp: "e durerà tutto il giorno?",
+        reprompts: [
+          "L'appuntamento dura tutta la giornata?",
+          "Puoi dire sì o no.",
+          "Devo sapere se l'appuntamento dura tutto il giorno. Di' sì o no, oppure l'ora, come no, alle 10.",
+        ],
+      },
+      time: {
+        prompt: "A che ora è l'appuntamento?",
+        followUp: "e a che ora?",
+        reprompts: [
+          "A che ora comincia l'appuntamento?",
+          "Puoi dire un'ora, come le 10 o le tre e mezza.",
+          "Mi serve l'ora di inizio dell'appuntamento. Di' un'ora, come le 15, o un orario, come le nove e un quarto.",
+        ],
+      },
+      duration: {
+        prompt: "Quanto durerà l'appuntamento?",
+        followUp: "e quanto durerà?",
+        reprompts: [
+          "Quanto dura l'appuntamento?",
+          "Puoi dire un'ora, 90 minuti o fino alle 15.",
+          "Devo sapere quanto dura l'appuntamento. Di' una durata, come mezz'ora, o quando finisce, come fino alle 16.",
+        ],
+      },
+    },
+    fullDayReply: (fullDay) =>
+      fullDay ? "Va bene, durerà tutto il giorno." : "Va bene, non durerà tutto il giorno.",
+    confirmation: (people, date, time, duration, repeats) =>
+      `Vuoi che crei un appuntamento con ${people} *${date}* ` +
+      `${time == null ? "per tutto il giorno" : `*${at(time)}* ${duration}`}${repeats ? `, e poi *${repeats}*` : ""}?`,
+  },
+};
@@ -0,0 +1,347 @@
+/*
+Swedish. Times are said with the 24-hour clock ("klockan 14:30"), and "halv tre" is half past two.
+*/
+
+import { CalendarDate, DateWords, Recurrence, TimeOfDay, weekday } from "../datetime";
+import { LocaleBundle } from "../locale";
+import { sayTime } from "../markup";
+
+const dates: DateWords = {
+  weekdays: ["söndag", "måndag", "tisdag", "onsdag", "torsdag", "fredag", "lördag"],
+  months: [
+    "januari",
+    "februari",
+    "mars",
+    "april",
+    "maj",
+    "juni",
+    "juli",
+    "augusti",
+    "september",
+    "oktober",
+    "november",
+    "december",
+  ],
+  today: [["idag"], ["i", "dag"], ["ikväll"], ["i", "kväll"]],
+  tomorrow: [["imorgon"], ["i", "morgon"]],
+  dayAfterTomorrow: [["övermorgon"], ["i", "övermorgon"]],
+  thisWeekday: ["på", "denna"],
+  nextWeekday: ["nästa"],
+  article: ["den"],
+  of: [],
+  units: [
+    "noll",
+    "ett",
+    "två",
+    "tre",
+    "fyra",
+    "fem",
+    "sex",
+    "sju",
+    "åtta",
+    "nio",
+    "tio",
+    "elva",
+    "tolv",
+    "tretton",
+    "fjorton",
+    "femton",
+    "sexton",
+    "sjutton",
+    "arton",
+    "nitton",
+  ],
+  tens: { tjugo: 20, trettio: 30, fyrtio: 40, femtio: 50 },
+  ordinalUnits: [
+    "nollte",
+    "första",
+    "andra",
+    "tredje",
+    "fjärde",
+    "femte",
+    "sjätte",
+    "sjunde",
+    "åttonde",
+    "nionde",
+    "tionde",
+    "elfte",
+    "tolfte",
+    "trettonde",
+    "fjortonde",
+    "femtonde",
+    "sextonde",
+    "sjuttonde",
+    "artonde",
+    "nittonde",
+  ],
+  ordinalTens: { tjugonde: 20, trettionde: 30 },
+  // "3:e", "21:a"
+  ordinalDigits: /^(\d{1,2}):[ea]$/,
+  timeWords: ["klockan", "kl", "vid"],
+  oclock: [],
+  noon: [],
+  midnight: ["midnatt"],
+  morning: [["på", "morgonen"], ["på", "förmiddagen"]],
+  afternoon: [["på", "eftermiddagen"], ["på", "kvällen"]],
+  half: ["halv"],
+  quarter: [["kvart"]],
+  minutes: ["minuter", "minut"],
+  past: ["över"],
+  to: ["i"],
+  halfBefore: true,
+  and: [],
+  a: ["en", "ett"],
+  hours: ["timmar", "timme"],
+  anHour: [],
+  halfAnHour: [["en", "halvtimme"], ["halvtimme"], ["en", "halv", "timme"]],
+  andAHalf: [["och", "en", "halv"]],
+  // not "till" alone, which says where an appointment is moved to
+  until: [["fram", "till"], ["tills"]],
+  // "var tredje vecka"
+  every: [["varje"], ["var"]],
+  everyOther: [["varannan"], ["vartannat"]],
+  day: ["dag", "dagar"],
+  week: ["vecka", "veckor"],
+  month: ["månad", "månader"],
+  times: ["gånger"],
+};
+
+// "måndag den 3 februari", with the year when it is not the current one
+function formatDate(date: CalendarDate, now: Date): string {
+  const year = date.year !== now.getFullYear() ? ` ${date.year}` : "";
+  return `${dates.weekdays[weekday(date)]} den ${date.day} ${dates.months[date.month - 1]}${year}`;
+}
+
+// "10", "14:30", "midnatt"
+function formatTime(time: TimeOfDay): string {
+  if (time.hour === 0 && time.minute === 0) {
+    return "midnatt";
+  }
+  return time.minute === 0 ? `${time.hour}` : `${time.hour}:${String(time.minute).padStart(2, "0")}`;
+}
+
+const at = (time: string) => (time === "midnatt" ? time : `klockan ${sayTime(time)}`);
+
+// "på söndagar"
+const WEEKDAYS = ["söndagar", "måndagar", "tisdagar", "onsdagar", "torsdagar", "fredagar", "lördagar"];
+
+// "30 minuter", "en timme", "en och en halv timme", "2 timmar", "2 timmar och 15 minuter"
+function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) {
+    return `${rest} minuter`;
+  }
+  if (hours === 1 && rest === 30) {
+    return "en och en halv timme";
+  }
+  const whole = hours === 1 ? "en timme" : `${hours} timmar`;
+  return rest === 0 ? whole : `${whole} och ${rest} minuter`;
+}
+
+// "varje måndag", "varannan dag", "var 3:e vecka på fredagar", "varje månad fram till lördag den 31 maj",
+// "varje måndag, 10 gånger"
+function formatRecurrence(rule: Recurrence, now: Date): string {
+  const unit = { daily: "dag", weekly: "vecka", monthly: "månad" }[rule.frequency];
+  const day = rule.weekday != null ? dates.weekdays[rule.weekday] : null;
+  let every: string;
+  if (rule.interval > 2) {
+    every = `var ${rule.interval}:e ${unit}${rule.weekday != null ? ` på ${WEEKDAYS[rule.weekday]}` : ""}`;
+  } else {
+    every = `${rule.interval === 2 ? "varannan" : "varje"} ${day ?? unit}`;
+  }
+  if (rule.until != null) {
+    return `${every} fram till ${formatDate(rule.until, now)}`;
+  }
+  return rule.count != null ? `${every}, ${rule.count} gånger` : every;
+}
+
+const capitalize = (text: string) => `${text[0].toUpperCase()}${text.slice(1)}`;
+
+export const swedish: LocaleBundle = {
+  name: "svenska",
+  speech: { locale: "sv-SE", voice: "sv-SE-MattiasNeural" },
+  phrases: {
+    "också": { invite: true },
+    "lägg till": { invite: true },
+    "bjud in": { invite: true },
+    "inte": { invite: false },
+    "utan": { invite: false },
+    "ta bort": { invite: false },
+    "bjud inte in": { invite: false },
+    "ja": { yesno: true },
+    "japp": { yesno: true },
+    "visst": { yesno: true },
+    "absolut": { yesno: true },
+    "självklart": { yesno: true },
+    // "the whole day", an answer to the full-day question rather than the part "dagen" below
+    "hela dagen": { yesno: true },
+    "nej": { yesno: false },
+    "nä": { yesno: false },
+    "absolut inte": { yesno: false },
+    "aldrig": { yesno: false },
+    "hjälp": { command: "help" },
+    "vad kan jag säga": { command: "help" },
+    "upprepa": { command: "repeat" },
+    "säg det igen": { command: "repeat" },
+    "förlåt": { command: "repeat" },
+    "gå tillbaka": { command: "back" },
+    "ångra": { command: "back" },
+    "börja om": { command: "startOver" },
+    "avbryt": { command: "cancel" },
+    "glöm det": { command: "cancel" },
+    "personen": { part: "person" },
+    "namnet": { part: "person" },
+    "dagen": { part: "day" },
+    "datumet": { part: "day" },
+    "tiden": { part: "time" },
+    "klockslaget": { part: "time" },
+    "längden": { part: "duration" },
+    "hur länge": { part: "duration" },
+    "engelska": { language: "en-US" },
+    "english": { language: "en-US" },
+    "på svenska": { language: "sv-SE" },
+    "italienska": { language: "it-IT" },
+    "italiano": { language: "it-IT" },
+    "boka": { intent: "book" },
+    "nytt möte": { intent: "book" },
+    "vad har jag": { intent: "query" },
+    "vad händer": { intent: "query" },
+    "när träffar jag": { intent: "query" },
+    "flytta": { intent: "move" },
+    "boka om": { intent: "move" },
+    "skjut upp": { intent: "move" },
+    "avboka": { intent: "cancel" },
+    "ställ in": { intent: "cancel" },
+    "ta bort mötet": { intent: "cancel" },
+    "till": { moveTo: true },
+  },
+  dates,
+  formatDate,
+  formatTime,
+  formatDuration,
+  formatRecurrence,
+  and: "och",
+  or: "eller",
+  prompts: {
+    greeting: "Hej! Vill du boka ett möte, höra vad du har en dag, eller flytta eller avboka ett möte?",
+    intents: "Du kan säga boka ett möte, vad har jag på fredag, flytta mötet med Lou till 15, eller avboka måndagens möte.",
+    anythingElse: "Något mer?",
+    help: "Du kan svara på frågan, eller säga upprepa, gå tillbaka, börja om eller avbryt.",
+    failureIntros: {
+      noInput: "Jag hörde dig inte.",
+      noMatch: "Förlåt, jag förstod inte.",
+    },
+    heard: (people, date, time, duration, repeats) =>
+      [people, date && `på ${date}`, time && at(time), duration, repeats && (date ? `och sedan ${repeats}` : repeats)]
+        .filter(Boolean)
+        .join(" "),
+    lasting: (duration) => `i ${duration}`,
+    until: (time) => `fram till ${at(time)}`,
+    endsBeforeStart: (time) => `Mötet måste sluta efter att det börjar, ${at(time)}.`,
+    endsNextDay: "Mötet måste sluta samma dag.",
+    noRepeat: "Mötet upprepas inte, så det kan inte ha något slutdatum.",
+    isThatRight: (heard) => `${heard[0].toUpperCase()}${heard.slice(1)}, stämmer det?`,
+    didYouMean: (values) => `Menade du ${values}?`,
+    whichNamesake: (name, people) => `Vilken ${name} menar du: ${people}?`,
+    reask: "Förlåt, det uppfattade jag inte.",
+    clash: (people, date, time) =>
+      `Du träffar redan ${people} ${time == null ? `på ${date} hela dagen` : `på ${date} ${at(time)}`}.`,
+    noFreeDay: "Det finns ingen ledig dag snart.",
+    noFreeTime: "Det finns ingen ledig tid den dagen.",
+    pickAnother: "Vi väljer en annan.",
+    nextFreeDay: (date) => `[pause 300ms] Nästa lediga dag är *${date}*. Ska jag boka den?`,
+    nearestFreeTime: (time) => `[pause 300ms] Närmaste lediga tid den dagen är *${at(time)}*. Ska jag boka den?`,
+    holiday: (date, name) => `${capitalize(date)} är en helgdag${name ? `, ${name}` : ""}.`,
+    dayOff: (person, weekday) => `${person} jobbar inte på ${WEEKDAYS[weekday]}.`,
+    away: (person, date) => `${person} är borta på ${date}.`,
+    closed: (weekday) => `Det går inte att boka möten på ${WEEKDAYS[weekday]}.`,
+    tooSoon: (minutes) => `Möten måste bokas minst ${formatDuration(minutes)} i förväg.`,
+    outsideHours: (start, end) => `Möten den dagen måste ligga mellan ${sayTime(start)} och ${sayTime(end)}.`,
+    repeatsOn: (date) => `Mötet skulle också vara på ${date}.`,
+    onlyOnce: "Så jag kan bara boka det en gång.",
+    leaveOut: (repeats) => `Ska jag boka det *${repeats}*? Annars kan jag bara boka det en gång.`,
+    except: (repeats, dates) => `${repeats}, utom ${dates}`,
+    availableDay: (date) => `Passar det på *${date}*?`,
+    availableTime: (time) => `Passar det *${at(time)}*?`,
+    whichPart: "Vad är fel: *personen*, *dagen*, *tiden* eller *längden*?",
+    saveFailed: "Förlåt, jag kunde inte spara mötet. Vi börjar om.",
+    saved: "Ditt möte är bokat!",
+    giveUp: "Förlåt, vi verkar inte komma någonstans. Vill du börja om?",
+    goodbye: "Okej. Hej då!",
+    languageSwitched: "Okej, nu pratar jag svenska.",
+    resume: (people, date, time) =>
+      `Vi höll på att boka ett möte${people ? ` med ${people}` : ""}${date ? ` på ${date}` : ""}` +
+      `${time ? ` ${at(time)}` : ""}, ska vi fortsätta?`,
+    meeting: (people, date, time) =>
+      `med ${people}${date ? ` på ${date}` : ""}${time ? ` ${at(time)}` : " hela dagen"}`,
+    queryWhich: "Vilken dag vill du veta om?",
+    agenda: (count, date, meetings) =>
+      count === 0
+        ? `Du har inga möten${date ? ` på ${date}` : ""}.`
+        : `Du har ${count === 1 ? "ett möte" : `${count} möten`}${date ? ` på ${date}` : ""}: ${meetings}.`,
+    whichAppointment: (meetings) =>
+      meetings ? `Vilket menar du: ${meetings}?` : "Vilket möte menar du? Säg vem det är med, eller vilken dag.",
+    noAppointment: "Jag hittade inte det mötet.",
+    moveTo: "När vill du flytta det till?",
+    confirmMove: (meeting, to) => `Vill du att jag flyttar ditt möte ${meeting} till *${to}*?`,
+    confirmCancel: (meeting) => `Vill du att jag avbokar ditt möte ${meeting}?`,
+    moved: "Ditt möte är flyttat.",
+    cancelled: "Ditt möte är avbokat.",
+    unchanged: "Okej, jag låter det vara.",
+    calendarFailed: "Förlåt, jag kommer inte åt din kalender.",
+  },
+  appointment: {
+    slots: {
+      person: {
+        prompt: "Vem ska du träffa?",
+        followUp: "och vem ska du träffa?",
+        reprompts: [
+          "Vem är mötet med?",
+          "Du kan säga ett namn, som Vlad eller Aya.",
+          "Jag behöver namnet på den du ska träffa. Du kan också säga dag och tid på en gång, som Vlad på fredag klockan 10.",
+        ],
+      },
+      day: {
+        prompt: "Vilken dag vill du ha mötet?",
+        followUp: "och vilken dag?",
+        reprompts: [
+          "Vilken dag är mötet?",
+          "Du kan säga en dag, som i morgon, nästa tisdag eller den 3 mars.",
+          "Jag behöver dagen för mötet. Säg en veckodag, som måndag, eller ett datum, som den 21 februari.",
+        ],
+      },
+      fullDay: {
+        prompt: "Tar det hela dagen?",
+        followUp: "och tar det hela dagen?",
+        reprompts: [
+          "Håller mötet på hela dagen?",
+          "Du kan säga ja eller nej.",
+          "Jag behöver veta om mötet tar hela dagen. Säg ja eller nej, eller säg tiden, som nej, klockan 10.",
+        ],
+      },
+      time: {
+        prompt: "Vilken tid är mötet?",
+        followUp: "och vilken tid?",
+        reprompts: [
+          "När börjar mötet?",
+          "Du kan säga en tid, som klockan 10 eller halv tre.",
+          "Jag behöver tiden då mötet börjar. Säg en timme, som klockan 15, eller en tid, som kvart i tio.",
+        ],
+      },
+      duration: {
+        prompt: "Hur länge ska mötet hålla på?",
+        followUp: "och hur länge ska det hålla på?",
+        reprompts: [
+          "Hur lång tid tar mötet?",
+          "Du kan säga en timme, 90 minuter eller fram till klockan 15.",
+          "Jag behöver veta hur länge mötet håller på. Säg en tid, som en halvtimme, eller när det slutar, som fram till 16.",
+        ],
+      },
+    },
+    fullDayReply: (fullDay) => (fullDay ? "Okej, det tar hela dagen." : "Okej, det tar inte hela dagen."),
+    confirmation: (people, date, time, duration, repeats) =>
+      `Vill du att jag bokar ett möte med ${people} på *${date}* ` +
+      `${time == null ? "hela dagen" : `*${at(time)}* ${duration}`}${repeats ? `, och sedan *${repeats}*` : ""}?`,
+  },
+};
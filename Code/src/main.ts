@@ -1,14 +1,42 @@
 import "./style.css";
 import typescriptLogo from "./typescript.svg";
 import viteLogo from "/vite.svg";
-import { setupButton } from "./dm.ts";
+import {
+  bargeInNotice,
+  setupButton,
+  setupContactsInput,
+  setupExportButton,
+  setupSessionExportButton,
+  setupTextInput,
+  setupTranscript,
+  speechMode,
+} from "./app.ts";
 
 document.querySelector<HTMLDivElement>("#app")!.innerHTML = `
   <div>
+    ${bargeInNotice ? `<p class="notice">${bargeInNotice}</p>` : ""}
     <div class="card">
       <button id="counter" type="button"></button>
+      <button id="export" type="button">Export calendar (.ics)</button>
+      <label>Load contacts (.json, .csv) <input id="contacts" type="file" accept=".json,.csv" /></label>
+    </div>
+    <div class="card">
+      <div id="transcript"></div>
+      ${speechMode === "text" ? `
+      <form id="text-input">
+        <input type="text" autocomplete="off" placeholder="Type your answer" />
+      </form>` : ""}
+      <button id="export-session" type="button">Export session (.json)</button>
     </div>
   </div>
 `;
 
 setupButton(document.querySelector<HTMLButtonElement>("#counter")!);
+setupExportButton(document.querySelector<HTMLButtonElement>("#export")!);
+setupContactsInput(document.querySelector<HTMLInputElement>("#contacts")!);
+setupTranscript(document.querySelector<HTMLDivElement>("#transcript")!);
+setupSessionExportButton(document.querySelector<HTMLButtonElement>("#export-session")!);
+
+if (speechMode === "text") {
+  setupTextInput(document.querySelector<HTMLFormElement>("#text-input")!);
+}
@@ -0,0 +1,110 @@
+/*
+Managing appointments: what the user says when they ask about, move or cancel appointments already in the
+calendar ("what do I have on Friday", "move my meeting with Lou to 3", "cancel Monday's meeting").
+
+The people, days and times are understood by the parser like in any other answer (see ./parser). readRequest
+then tells which of them say which appointment is meant (the query, see findAppointments in ./calendar), and which
+say where it is moved to:
+- what is said after the word of 'moveTo' ("to") is the new day or time, and what is said before it tells which
+  appointment it is: "move Monday's meeting to Tuesday";
+- without it, when a person is named, the days and times are the new ones: "move my meeting with Lou at 3";
+  otherwise the first day tells which appointment it is, and the rest is the new day or time: "move Monday's
+  meeting Tuesday at 10".
+
+The dialogues themselves are the states QueryCalendar, FindAppointment, AskMoveTo and ConfirmChange in dm.ts.
+*/
+
+import { Appointment, AppointmentQuery, NewAppointment } from "./calendar";
+import { anchorRecurrence, CalendarDate, TimeOfDay } from "./datetime";
+import { Intent } from "./grammar";
+import { Entity } from "./parser";
+
+// the new day and time of an appointment which is moved: a null field is not changed
+export interface MoveTarget {
+  date: CalendarDate | null;
+  time: TimeOfDay | null;
+}
+
+export const EMPTY_QUERY: AppointmentQuery = { people: null, date: null, time: null };
+
+// the people named, with every person a shared first name may be
+function peopleIn(entities: Entity[]): string[] | null {
+  const people = entities.flatMap((entity) =>
+    entity.slot === "person"
+      ? [entity.value as string]
+      : entity.slot === "namesakes"
+        ? (entity.value as string[])
+        : [],
+  );
+  return people.length > 0 ? people : null;
+}
+
+function first<S extends "day" | "time">(entities: Entity[], slot: S): Entity<S>["value"] | null {
+  const entity = entities.find((entity) => entity.slot === slot);
+  return entity ? (entity.value as Entity<S>["value"]) : null;
+}
+
+// which appointment the user means, when they are asked ("the one with Lou", "on Monday")
+export function queryOf(entities: Entity[]): AppointmentQuery {
+  return { people: peopleIn(entities), date: first(entities, "day"), time: first(entities, "time") };
+}
+
+// the new day and time, when the user is asked where the appointment goes ("to Tuesday at 10")
+export function targetOf(entities: Entity[]): MoveTarget | null {
+  const target = { date: first(entities, "day"), time: first(entities, "time") };
+  return target.date != null || target.time != null ? target : null;
+}
+
+// which appointment the user means, and for a move where it goes (see above)
+export function readRequest(
+  entities: Entity[],
+  intent: Intent,
+): { query: AppointmentQuery; moveTo: MoveTarget | null } {
+  if (intent !== "move") {
+    return { query: queryOf(entities), moveTo: null };
+  }
+  const marker = entities.findIndex((entity) => entity.slot === "moveTo");
+  if (marker >= 0) {
+    return { query: queryOf(entities.slice(0, marker)), moveTo: targetOf(entities.slice(marker + 1)) };
+  }
+  const people = peopleIn(entities);
+  if (people != null) {
+    return { query: { ...EMPTY_QUERY, people }, moveTo: targetOf(entities) };
+  }
+  const day = entities.findIndex((entity) => entity.slot === "day");
+  if (day < 0) {
+    return { query: EMPTY_QUERY, moveTo: targetOf(entities) };
+  }
+  return {
+    query: { ...EMPTY_QUERY, date: entities[day].value as CalendarDate },
+    moveTo: targetOf(entities.filter((_, index) => index !== day)),
+  };
+}
+
+// a query told in several answers ("the one with Lou", "on Monday"): what is said later is added to it
+export function refineQuery(query: AppointmentQuery, more: AppointmentQuery): AppointmentQuery {
+  return {
+    people: more.people ?? query.people,
+    date: more.date ?? query.date,
+    time: more.time ?? query.time,
+  };
+}
+
+export function isEmptyQuery(query: AppointmentQuery): boolean {
+  return query.people == null && query.date == null && query.time == null;
+}
+
+// the appointment once it is moved, for as long as it lasted: given a time, it no longer takes the whole day. A
+// recurring one is moved with all the times it takes place, from the new day on
+export function moveAppointment(appointment: Appointment, moveTo: MoveTarget): NewAppointment {
+  const time = moveTo.time ?? appointment.time;
+  const date = moveTo.date ?? appointment.date;
+  return {
+    people: appointment.people,
+    date,
+    time,
+    wholeDay: moveTo.time != null ? false : appointment.wholeDay,
+    ...(appointment.duration != null && { duration: appointment.duration }),
+    ...(appointment.recurrence && { recurrence: anchorRecurrence(appointment.recurrence, date) }),
+  };
+}
@@ -0,0 +1,188 @@
+/*
+Speech markup: how the prompts say how they are to be read. A prompt is plain text with a small markup:
+- *text*: the text is emphasised ("on *Monday the 3rd of February*");
+- [pause], [pause 300ms], [pause 1s]: a short silence (500 ms by default, at most 5 s);
+- [time 14:30], [time 2:30 pm]: a time, read as a time ("fourteen thirty") and not as numbers;
+- [date 2025-02-03]: a date, read as a date;
+- a backslash makes the next character plain text ("\*" is a star).
+
+The markup is checked (see parseMarkup, which throws a MarkupError when it is not valid) and turned into SSML for
+the real speech actor, which wraps it in its own <speak> and <voice> elements (toSSML), or into plain text for the
+text mode, where the markup is simply left out (toPlainText). See "spst.speak" in dm.ts.
+*/
+
+export class MarkupError extends Error {}
+
+export type Segment =
+  | { kind: "text"; text: string }
+  | { kind: "emphasis"; segments: Segment[] }
+  | { kind: "pause"; ms: number }
+  | { kind: "sayAs"; as: "time" | "date"; format: string; text: string };
+
+const DEFAULT_PAUSE = 500;
+const MAX_PAUSE = 5000;
+
+const TIME_24 = /^\d{1,2}(:\d\d)?$/;
+const TIME_12 = /^\d{1,2}(:\d\d)? ?[ap]m$/i;
+const DATE = /^\d{4}-\d\d-\d\d$/;
+
+// what is inside the brackets: "pause 300ms", "time 14:30"...
+function parseTag(tag: string): Segment {
+  const [name, ...rest] = tag.trim().split(/\s+/);
+  const argument = rest.join(" ");
+  switch (name) {
+    case "pause": {
+      if (argument === "") {
+        return { kind: "pause", ms: DEFAULT_PAUSE };
+      }
+      const duration = argument.match(/^(\d+)(ms|s)$/);
+      const ms = duration ? parseInt(duration[1]) * (duration[2] === "s" ? 1000 : 1) : NaN;
+      if (!(ms <= MAX_PAUSE)) {
+        throw new MarkupError(`A pause must last at most ${MAX_PAUSE} ms, like 300ms or 1s: "${argument}"`);
+      }
+      return { kind: "pause", ms };
+    }
+    case "time":
+      if (TIME_24.test(argument)) {
+        return { kind: "sayAs", as: "time", format: "hms24", text: argument };
+      }
+      if (TIME_12.test(argument)) {
+        return { kind: "sayAs", as: "time", format: "hms12", text: argument };
+      }
+      throw new MarkupError(`Not a time: "${argument}"`);
+    case "date":
+      if (DATE.test(argument)) {
+        return { kind: "sayAs", as: "date", format: "ymd", text: argument };
+      }
+      throw new MarkupError(`Not a date (year-month-day): "${argument}"`);
+    default:
+      throw new MarkupError(`Unknown markup: [${tag}]`);
+  }
+}
+
+export function parseMarkup(utterance: string): Segment[] {
+  const segments: Segment[] = [];
+  let emphasis: Segment[] | null = null;
+  let text = "";
+
+  const current = () => emphasis ?? segments;
+  const flush = () => {
+    if (text !== "") {
+      current().push({ kind: "text", text });
+      text = "";
+    }
+  };
+
+  for (let i = 0; i < utterance.length; i++) {
+    const char = utterance[i];
+    if (char === "\\" && i + 1 < utterance.length) {
+      text += utterance[++i];
+    } else if (char === "*") {
+      flush();
+      if (emphasis) {
+        segments.push({ kind: "emphasis", segments: emphasis });
+        emphasis = null;
+      } else {
+        emphasis = [];
+      }
+    } else if (char === "[") {
+      const end = utterance.indexOf("]", i);
+      if (end < 0) {
+        throw new MarkupError(`Unclosed [ in "${utterance}"`);
+      }
+      flush();
+      current().push(parseTag(utterance.slice(i + 1, end)));
+      i = end;
+    } else {
+      text += char;
+    }
+  }
+  if (emphasis) {
+    throw new MarkupError(`Unclosed * in "${utterance}"`);
+  }
+  flush();
+  return segments;
+}
+
+// the text with the characters of the markup made plain (for names and other values put in a prompt)
+export function literal(text: string): string {
+  return text.replace(/[\\*[\]]/g, (char) => `\\${char}`);
+}
+
+// a time as markup, if it is written with digits ("14:30", "10 am"); "noon" is left as it is
+export function sayTime(time: string): string {
+  return TIME_24.test(time) || TIME_12.test(time) ? `[time ${time}]` : time;
+}
+
+const XML_ENTITIES: { [char: string]: string } = { "&": "&amp;", "<": "&lt;", ">": "&gt;" };
+
+// the text as the content of an SSML element
+function escapeXML(text: string): string {
+  return text.replace(/[&<>]/g, (char) => XML_ENTITIES[char]);
+}
+
+export function toSSML(segments: Segment[]): string {
+  return segments
+    .map((segment) => {
+      switch (segment.kind) {
+        case "text":
+          return escapeXML(segment.text);
+        case "emphasis":
+          return `<emphasis level="moderate">${toSSML(segment.segments)}</emphasis>`;
+        case "pause":
+          return `<break time="${segment.ms}ms"/>`;
+        case "sayAs":
+          return `<say-as interpret-as="${segment.as}" format="${segment.format}">${escapeXML(segment.text)}</say-as>`;
+      }
+    })
+    .join("");
+}
+
+function plainText(segments: Segment[]): string {
+  return segments
+    .map((segment) => {
+      switch (segment.kind) {
+        case "text":
+        case "sayAs":
+          return segment.text;
+        case "emphasis":
+          return plainText(segment.segments);
+        case "pause":
+          return "";
+      }
+    })
+    .join("");
+}
+
+export function toPlainText(segments: Segment[]): string {
+  // a pause between two words leaves their spaces behind
+  return plainText(segments).replace(/\s{2,}/g, " ").trim();
+}
+
+const XML_CHARACTERS: { [entity: string]: string } = { amp: "&", lt: "<", gt: ">" };
+
+// the text of a prompt sent as SSML (see toSSML), without its elements
+export function ssmlToText(ssml: string): string {
+  return ssml
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(amp|lt|gt);/g, (_, entity: string) => XML_CHARACTERS[entity])
+    .replace(/\s{2,}/g, " ")
+    .trim();
+}
+
+/*
+render function:
+A prompt as the speech actor takes it: SSML, or plain text. A prompt whose markup is not valid is said as it is
+written (its SSML escaped), rather than not at all; the error is given back with it, for the caller to report.
+*/
+export function render(utterance: string, ssml: boolean): { text: string; error: MarkupError | null } {
+  try {
+    const segments = parseMarkup(utterance);
+    return { text: ssml ? toSSML(segments) : toPlainText(segments), error: null };
+  } catch (error) {
+    if (!(error instanceof MarkupError)) {
+      throw error;
+    }
+    return { text: ssml ? escapeXML(utterance) : utterance, error };
+  }
+}
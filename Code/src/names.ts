@@ -0,0 +1,114 @@
+/*
+Fuzzy matching of names: the recogniser often spells names differently from the contact directory ("flat" for
+Vlad, "Aja" for Aya, "Mateo" for Matteo), so that the grammar, which needs the exact words, does not find them.
+
+matchName compares the words of the utterance which the parser did not understand with every name and nickname
+of the contacts (see ./contacts), and returns the best guess with its score, from 0 (nothing alike) to 1 (the
+same). The score is the average of two similarities, each based on the edit distance (how many letters must be
+added, removed or changed to go from one to the other):
+- of the words as they are spelled;
+- of their phonetic keys, which spell alike what sounds alike: "vlad" and "flat" both give "flat".
+Guesses scoring less than MIN_SCORE are not returned. The dialogue checks a guess with the user ("Did you mean
+Nayat Astaiza Soriano?", see CheckGuess in dm.ts).
+*/
+
+import { Contact, personEntries } from "./contacts";
+import { Entity, tokenize } from "./parser";
+
+export interface NameMatch {
+  person: string;
+  // the words of the utterance taken for the name
+  text: string;
+  score: number;
+}
+
+export const MIN_SCORE = 0.7;
+
+// words shorter than this are never taken for names ("at", "on")
+const MIN_LENGTH = 3;
+
+// spelling rules, applied in this order, which give the same key to letters that sound alike
+const PHONETIC_RULES: [RegExp, string][] = [
+  [/ph/g, "f"],
+  [/th/g, "t"],
+  [/sch/g, "sk"],
+  [/ch/g, "k"],
+  [/ck/g, "k"],
+  [/c(?=[eiy])/g, "s"],
+  [/[cq]/g, "k"],
+  [/x/g, "ks"],
+  [/z/g, "s"],
+  [/[vw]/g, "f"],
+  [/d/g, "t"],
+  [/b/g, "p"],
+  [/g/g, "k"],
+  [/j/g, "y"],
+  [/h/g, ""],
+  [/[aeiou]+/g, "a"],
+  [/(.)\1+/g, "$1"],
+];
+
+export function phoneticKey(text: string): string {
+  const letters = text.toLowerCase().normalize("NFD").replace(/[^a-z ]/g, "");
+  return PHONETIC_RULES.reduce((key, [pattern, replacement]) => key.replace(pattern, replacement), letters);
+}
+
+// the number of letters to add, remove or change to turn a into b
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - editDistance(a, b) / length;
+}
+
+// how much the words 'heard' sound like the name (both lower-case)
+export function nameScore(heard: string, name: string): number {
+  return (similarity(heard, name) + similarity(phoneticKey(heard), phoneticKey(name))) / 2;
+}
+
+/*
+matchName function:
+The contact whose name or nickname is most like some words of the utterance, if any is alike enough. The words
+inside the entities the parser found ('found', e.g. a date) are not compared, and only names meaning one contact
+are: a nickname shared by several contacts is left to the grammar (see namesakes in ./people).
+*/
+export function matchName(utterance: string, contacts: Contact[], found: Entity[] = []): NameMatch | null {
+  const words = tokenize(utterance).filter(
+    (token) => !found.some((entity) => token.start < entity.end && entity.start < token.end),
+  );
+  let best: NameMatch | null = null;
+  for (const [name, entry] of Object.entries(personEntries(contacts))) {
+    if (!entry.person) {
+      continue;
+    }
+    const length = name.split(" ").length;
+    for (let i = 0; i + length <= words.length; i++) {
+      const phrase = words.slice(i, i + length);
+      // only neighbouring words make a phrase
+      const text = utterance.slice(phrase[0].start, phrase[length - 1].end);
+      const heard = phrase.map((word) => word.text).join(" ");
+      if (heard.length < MIN_LENGTH || /\d/.test(heard) || text.split(/\s+/).length !== length) {
+        continue;
+      }
+      const score = nameScore(heard, name);
+      if (score >= MIN_SCORE && (!best || score > best.score)) {
+        best = { person: entry.person, text, score };
+      }
+    }
+  }
+  return best;
+}
@@ -0,0 +1,77 @@
+/*
+N-best rescoring: chooses which of the recogniser's hypotheses to believe.
+
+RECOGNISED carries a list of hypotheses (the N-best list), ordered by the recogniser's confidence. The first one is
+not always the one we want: if the user was asked for a name, "flat" (confidence 0.8) is worth less than "vlad"
+(confidence 0.6), because only the second one answers the question.
+
+Every hypothesis is parsed and scored:
+- its ASR confidence,
+- plus ANSWER_BONUS if it contains a value for the slot being asked (the expected slot),
+- plus SLOT_BONUS for every other slot it contains.
+The interpretations are returned best first.
+
+Other hypotheses which give another value for the expected slot, and score almost as well as the best one (at most
+AMBIGUITY_MARGIN less), are the alternatives: the dialogue manager can ask the user which one they meant.
+*/
+
+import { Hypothesis } from "speechstate";
+import { Entity, parse, ParseOptions, ParseResult, Slot } from "./parser";
+
+export interface Interpretation {
+  hypothesis: Hypothesis;
+  result: ParseResult;
+  score: number;
+}
+
+const ANSWER_BONUS = 1;
+const SLOT_BONUS = 0.25;
+const AMBIGUITY_MARGIN = 0.2;
+
+function score(hypothesis: Hypothesis, result: ParseResult, expected: Slot | null): number {
+  return result.found.reduce(
+    (total, slot) => total + (slot === expected ? ANSWER_BONUS : SLOT_BONUS),
+    hypothesis.confidence,
+  );
+}
+
+// the interpretations of every hypothesis, best first (hypotheses with the same score keep the recogniser's order)
+export function rescore(
+  hypotheses: Hypothesis[],
+  expected: Slot | null,
+  options: ParseOptions = {},
+): Interpretation[] {
+  return hypotheses
+    .map((hypothesis) => {
+      const result = parse(hypothesis.utterance, options);
+      return { hypothesis, result, score: score(hypothesis, result, expected) };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+function sameValue(a: Entity, b: Entity): boolean {
+  return JSON.stringify(a.value) === JSON.stringify(b.value);
+}
+
+/*
+The values of the expected slot that the user may have meant instead of the best one: one entity per value, in the
+order of the interpretations. Empty if the best interpretation does not fill the expected slot.
+*/
+export function alternatives(interpretations: Interpretation[], expected: Slot | null): Entity[] {
+  const [best, ...others] = interpretations;
+  const chosen = best?.result.entities.find((entity) => entity.slot === expected);
+  if (!chosen) {
+    return [];
+  }
+  const found: Entity[] = [];
+  for (const interpretation of others) {
+    if (interpretation.score < best.score - AMBIGUITY_MARGIN) {
+      break;
+    }
+    const entity = interpretation.result.entities.find((entity) => entity.slot === expected);
+    if (entity && !sameValue(entity, chosen) && !found.some((other) => sameValue(entity, other))) {
+      found.push(entity);
+    }
+  }
+  return found;
+}
@@ -0,0 +1,225 @@
+/*
+The parser: finds the slots (person, day, time, duration, recurrence, yesno), the words adding or removing people
+(see ./people), the global commands ("repeat that", "go back"...) and the names of the parts of an appointment
+("the time") anywhere in an utterance.
+
+Instead of looking up the whole utterance in the grammar, the utterance is split into words (tokens) and every
+grammar key, which can be one word ("vlad") or a phrase of several words ("of course"), is searched for among
+the tokens. Casing and punctuation do not matter, and words that are not in the grammar ("I'm meeting", "on",
+"please") are simply skipped. So "I'm meeting Vlad." and "On Monday, please!" are understood too.
+
+Days and times are not in the grammar: at each word, the parser also asks the date and time resolver
+(datetime.ts) whether a date ("next Tuesday", "the 3rd of March"), a time ("half past two") or a duration ("for an
+hour", "until 3") starts there, or how often a meeting takes place ("every other Friday"; the day slot is the first
+of them, here the next Friday) and when it stops ("until June", "10 times": the recurrenceEnd slot).
+Relative dates are resolved against 'now', which can be given in the options (the current time by default). The
+words for dates and times are those of a language (English by default, see the locale bundles in ./locales).
+
+At each position the longest match wins, so "no way" is one phrase and not "no" followed by "way", and
+"3 March" is a date and not the time 3 followed by "March".
+*/
+
+import {
+  CalendarDate,
+  DateWords,
+  Duration,
+  ENGLISH_DATES,
+  firstDay,
+  matchDate,
+  matchDuration,
+  matchRecurrence,
+  matchRecurrenceEnd,
+  matchTime,
+  Recurrence,
+  RecurrenceEnd,
+  TimeOfDay,
+} from "./datetime";
+import { Command, grammar, GrammarEntry, Intent, Part } from "./grammar";
+import { Locale } from "./locale";
+
+// the values of the slots that can be found in an utterance
+export interface SlotValues {
+  person?: string;
+  namesakes?: string[];
+  invite?: boolean;
+  day?: CalendarDate;
+  time?: TimeOfDay;
+  duration?: Duration;
+  recurrence?: Recurrence;
+  recurrenceEnd?: RecurrenceEnd;
+  yesno?: boolean;
+  command?: Command;
+  part?: Part;
+  language?: Locale;
+  intent?: Intent;
+  moveTo?: boolean;
+}
+
+// the names of the slots that can be found in an utterance
+export type Slot = keyof SlotValues;
+
+export interface ParseOptions {
+  // the grammar to use (the one in grammar.ts by default)
+  lexicon?: { [index: string]: GrammarEntry };
+  // the moment against which relative dates like "tomorrow" are resolved (the current time by default)
+  now?: Date;
+  // the words for dates and times (English by default)
+  dates?: DateWords;
+}
+
+/*
+Entity: one slot value found in the utterance, with its span: 'text' is the part of the utterance that was
+matched, from character 'start' (included) to 'end' (excluded).
+*/
+export interface Entity<S extends Slot = Slot> {
+  slot: S;
+  value: NonNullable<SlotValues[S]>;
+  text: string;
+  start: number;
+  end: number;
+}
+
+/*
+ParseResult:
+- entities: every slot value found, in the order they appear in the utterance;
+- slots: the value of each slot found (the first one, if a slot was found several times);
+- found: the names of the slots that were found.
+*/
+export interface ParseResult {
+  utterance: string;
+  entities: Entity[];
+  slots: SlotValues;
+  found: Slot[];
+}
+
+interface Token {
+  text: string;
+  start: number;
+  end: number;
+}
+
+interface Phrase {
+  words: string[];
+  entry: GrammarEntry;
+}
+
+// a word is a sequence of letters and digits, possibly joined by ' or : (as in "i'm" or "10:30"); the 's of a
+// possessive is left out ("monday's meeting", "lou's meeting")
+const WORD = /[\p{L}\p{N}]+(?:['’:][\p{L}\p{N}]+)*/gu;
+
+export function tokenize(utterance: string): Token[] {
+  return Array.from(utterance.matchAll(WORD), (match) => ({
+    text: match[0].toLowerCase().replace("’", "'").replace(/'s$/, ""),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+// the grammar keys grouped by their first word, longest phrases first
+function indexPhrases(lexicon: { [index: string]: GrammarEntry }) {
+  const index = new Map<string, Phrase[]>();
+  for (const [key, entry] of Object.entries(lexicon)) {
+    const words = tokenize(key).map((token) => token.text);
+    if (words.length === 0) {
+      continue;
+    }
+    const phrases = index.get(words[0]) ?? [];
+    phrases.push({ words, entry });
+    index.set(words[0], phrases);
+  }
+  for (const phrases of index.values()) {
+    phrases.sort((a, b) => b.words.length - a.words.length);
+  }
+  return index;
+}
+
+function matchesAt(tokens: Token[], position: number, words: string[]) {
+  return words.every((word, i) => tokens[position + i]?.text === word);
+}
+
+// what can start at a position: a grammar phrase, a date, a time, a duration or a recurrence, and how many words it
+// takes
+interface Candidate {
+  length: number;
+  values: SlotValues;
+}
+
+function candidatesAt(
+  tokens: Token[],
+  words: string[],
+  position: number,
+  index: Map<string, Phrase[]>,
+  now: Date,
+  dates: DateWords,
+): Candidate[] {
+  const candidates: Candidate[] = [];
+  const phrase = (index.get(words[position]) ?? []).find((candidate) =>
+    matchesAt(tokens, position, candidate.words),
+  );
+  if (phrase) {
+    candidates.push({ length: phrase.words.length, values: phrase.entry });
+  }
+  const date = matchDate(words, position, now, dates);
+  if (date) {
+    candidates.push({ length: date.length, values: { day: date.value } });
+  }
+  const time = matchTime(words, position, dates);
+  if (time) {
+    candidates.push({ length: time.length, values: { time: time.value } });
+  }
+  const duration = matchDuration(words, position, dates);
+  if (duration) {
+    candidates.push({ length: duration.length, values: { duration: duration.value } });
+  }
+  const recurrence = matchRecurrence(words, position, dates);
+  if (recurrence) {
+    const first = firstDay(recurrence.value, now);
+    candidates.push({
+      length: recurrence.length,
+      values: { ...(first && { day: first }), recurrence: recurrence.value },
+    });
+  }
+  const end = matchRecurrenceEnd(words, position, now, dates);
+  if (end) {
+    candidates.push({ length: end.length, values: { recurrenceEnd: end.value } });
+  }
+  return candidates;
+}
+
+export function parse(utterance: string, options: ParseOptions = {}): ParseResult {
+  const index = indexPhrases(options.lexicon ?? grammar);
+  const now = options.now ?? new Date();
+  const dates = options.dates ?? ENGLISH_DATES;
+  const tokens = tokenize(utterance);
+  const words = tokens.map((token) => token.text);
+  const entities: Entity[] = [];
+
+  let position = 0;
+  while (position < tokens.length) {
+    // the longest candidate wins; with the same length, the grammar comes first
+    const best = candidatesAt(tokens, words, position, index, now, dates).reduce<Candidate | null>(
+      (best, candidate) => (!best || candidate.length > best.length ? candidate : best),
+      null,
+    );
+    if (!best) {
+      position++;
+      continue;
+    }
+    const start = tokens[position].start;
+    const end = tokens[position + best.length - 1].end;
+    for (const [slot, value] of Object.entries(best.values)) {
+      if (value !== undefined) {
+        entities.push({ slot: slot as Slot, value, text: utterance.slice(start, end), start, end });
+      }
+    }
+    position += best.length;
+  }
+
+  const slots: SlotValues = {};
+  for (const entity of entities) {
+    if (!(entity.slot in slots)) {
+      Object.assign(slots, { [entity.slot]: entity.value });
+    }
+  }
+  return { utterance, entities, slots, found: Object.keys(slots) as Slot[] };
+}
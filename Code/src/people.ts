@@ -0,0 +1,99 @@
+/*
+People: everyone a meeting is with. The person slot holds a list, which the user can change during the dialogue:
+- "Vlad and Aya": the people named replace the list;
+- "also invite Lou", "add Lou": they are added to it;
+- "not David", "without Lou": they are removed from it.
+Someone named twice is only listed once.
+
+A first name shared by several known people ("David") is not resolved here: the dialogue asks which of them is
+meant (see AskNamesake in dm.ts). When removing, only the people already invited can be meant, so if one of them
+has that name, it is removed straight away.
+*/
+
+import { Entity } from "./parser";
+
+// a name which several people share, and whether the one meant is to be invited or removed
+export interface Namesakes {
+  name: string;
+  people: string[];
+  invite: boolean;
+}
+
+export interface PeopleUpdate {
+  // the new list, null if nobody is left
+  people: string[] | null;
+  // a name to resolve with the user, if any
+  namesakes: Namesakes | null;
+  // whether the utterance changed the list (or named someone to resolve)
+  changed: boolean;
+}
+
+const capitalise = (name: string) => name[0].toUpperCase() + name.slice(1);
+
+// "Lou Reed", "Vladislav Maraev and Lou Reed", "Vladislav Maraev, Nayat Astaiza Soriano and Lou Reed"
+export function listPeople(people: string[], conjunction = "and"): string {
+  if (people.length <= 1) {
+    return people.join("");
+  }
+  return `${people.slice(0, -1).join(", ")} ${conjunction} ${people[people.length - 1]}`;
+}
+
+function invite(people: string[], person: string): string[] {
+  return people.includes(person) ? people : [...people, person];
+}
+
+function remove(people: string[], person: string): string[] {
+  return people.filter((other) => other !== person);
+}
+
+/*
+updatePeople function:
+Changes the list 'people' by the names in an utterance (its entities, see ./parser). The words "also", "invite" or
+"add" say that the names after them are added, "not", "without" or "remove" that they are removed. Names said
+without any of these words replace the list.
+*/
+export function updatePeople(people: string[] | null, entities: Entity[]): PeopleUpdate {
+  let list = people ?? [];
+  let mode: boolean | null = null;
+  let replaced = false;
+  let namesakes: Namesakes | null = null;
+  let changed = false;
+
+  for (const entity of entities) {
+    if (entity.slot === "invite") {
+      mode = entity.value as boolean;
+      continue;
+    }
+    if (entity.slot !== "person" && entity.slot !== "namesakes") {
+      continue;
+    }
+    if (mode === null && !replaced) {
+      changed = changed || list.length > 0;
+      list = [];
+      replaced = true;
+    }
+    const before = list;
+    if (entity.slot === "person") {
+      const person = entity.value as string;
+      list = mode === false ? remove(list, person) : invite(list, person);
+    } else if (mode === false) {
+      const invited = (entity.value as string[]).filter((person) => list.includes(person));
+      if (invited.length === 1) {
+        list = remove(list, invited[0]);
+      } else if (invited.length > 1 && !namesakes) {
+        namesakes = { name: capitalise(entity.text), people: invited, invite: false };
+      }
+    } else if (!namesakes) {
+      namesakes = { name: capitalise(entity.text), people: entity.value as string[], invite: true };
+    }
+    changed = changed || list !== before;
+  }
+
+  return { people: list.length > 0 ? list : null, namesakes, changed: changed || namesakes !== null };
+}
+
+// the user said which of the namesakes they meant: it is invited or removed
+export function resolveNamesakes(people: string[] | null, namesakes: Namesakes, person: string): string[] | null {
+  const list = namesakes.invite ? invite(people ?? [], person) : remove(people ?? [], person);
+  return list.length > 0 ? list : null;
+}
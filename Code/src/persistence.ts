@@ -0,0 +1,88 @@
+/*
+Saved sessions: the dialogue in progress is kept in the browser's localStorage, so that a reload of the page in the
+middle of a booking does not lose what the user already said.
+
+After every step of the dialogue manager, the values collected so far are saved (saveSession), with the language
+of the dialogue and the time. Only what can be written as JSON is saved: the slots and what was filled or
+skipped, not the speech actor (spstRef), the clock or the calendar store. There is no need to save the state the
+dialogue was in: it goes on at the first question still missing. When nothing has been collected yet, or
+any more (the appointment was booked, or the user started over), the saved session is removed.
+
+On startup, a saved session is given to dmMachine as 'resume' (see AskResume in dm.ts), which asks the user
+whether to go on with it. A session saved more than SESSION_EXPIRY ago is discarded (loadSession).
+*/
+
+import { KeyValueStorage } from "./calendar";
+import { Locale } from "./locale";
+import { DMContext } from "./types";
+
+// a saved session older than this is not resumed
+export const SESSION_EXPIRY = 30 * 60 * 1000;
+
+const SESSION_KEY = "session";
+
+// the slots of the appointment being booked
+const SLOTS = ["person", "day", "time", "duration", "recurrence", "yesno"] as const;
+
+export type SavedValues = Pick<DMContext, (typeof SLOTS)[number] | "filled" | "skipped">;
+
+export interface SavedSession {
+  savedAt: string;
+  // the language the dialogue was in (the user may have switched to it, see LanguageSwitched in dm.ts)
+  locale: Locale;
+  values: SavedValues;
+}
+
+// localStorage, which can also remove a key
+export interface SessionStorage extends KeyValueStorage {
+  removeItem(key: string): void;
+}
+
+function hasValues(values: SavedValues): boolean {
+  return SLOTS.some((slot) => values[slot] != null);
+}
+
+/*
+saveSession function:
+Saves the values of the context, and the language of the dialogue. A session still waiting to be resumed (the
+user has not said yet whether to go on with it) is left as it is.
+*/
+export function saveSession(storage: SessionStorage, context: DMContext, now: Date): void {
+  if (context.resume != null) {
+    return;
+  }
+  const values: SavedValues = {
+    person: context.person,
+    day: context.day,
+    time: context.time,
+    duration: context.duration,
+    recurrence: context.recurrence,
+    yesno: context.yesno,
+    filled: context.filled,
+    skipped: context.skipped,
+  };
+  if (!hasValues(values)) {
+    storage.removeItem(SESSION_KEY);
+    return;
+  }
+  const session: SavedSession = { savedAt: now.toISOString(), locale: context.locale, values };
+  storage.setItem(SESSION_KEY, JSON.stringify(session));
+}
+
+// the saved session, unless there is none, it cannot be read or it has expired (it is then removed)
+export function loadSession(storage: SessionStorage, now: Date, expiry = SESSION_EXPIRY): SavedSession | null {
+  const saved = storage.getItem(SESSION_KEY);
+  if (saved == null) {
+    return null;
+  }
+  try {
+    const session: SavedSession = JSON.parse(saved);
+    if (now.getTime() - new Date(session.savedAt).getTime() <= expiry && hasValues(session.values)) {
+      return session;
+    }
+  } catch (error) {
+    console.warn("Could not read the saved session:", error);
+  }
+  storage.removeItem(SESSION_KEY);
+  return null;
+}
@@ -0,0 +1,129 @@
+/*
+Session log: a record of the whole dialogue, so that a dialogue which went wrong can be looked at afterwards. It
+holds, each with the time it happened:
+- system: what the system said, as plain text (without its SSML, see ./markup);
+- user: what the user said, as the recogniser's hypotheses with their confidence, and the slots the answer
+  filled (none if it was not understood, or was a command);
+- noInput: the user said nothing;
+- transition: the dialogue manager went from one state to another, on an event;
+- markupError: a prompt whose speech markup was not valid, and which was said as it is written.
+
+The log is kept by watching dmMachine with XState's inspection API: the recorder's 'inspect' is given to
+createActor (see app.ts), so that the machine itself does not know about it. The prompts are the SPEAK events
+sent to the speech actor, the answers are the RECOGNISED and ASR_NOINPUT events, the slots filled are the ones
+added to 'filled' in the context, and the markup errors are the MARKUP_ERROR events the machine emits.
+
+The page shows the turns as they happen (see setupTranscript in app.ts) and exports the log as JSON
+(exportSession).
+*/
+
+import { Hypothesis } from "speechstate";
+import { InspectedSnapshotEvent, InspectionEvent, SnapshotFrom, StateValue } from "xstate";
+import { dmMachine } from "./dm";
+import { ssmlToText } from "./markup";
+import { Slot } from "./parser";
+import { DMEmitted } from "./types";
+
+export type SessionEntry =
+  | { time: string; type: "system"; utterance: string }
+  | { time: string; type: "user"; hypotheses: Hypothesis[]; filled: Slot[] }
+  | { time: string; type: "noInput" }
+  | { time: string; type: "transition"; from: string | null; to: string; event: string }
+  | { time: string; type: "markupError"; utterance: string; message: string };
+
+export interface SessionLog {
+  started: string;
+  entries: SessionEntry[];
+}
+
+export interface SessionRecorder {
+  log: SessionLog;
+  inspect: (inspectionEvent: InspectionEvent) => void;
+}
+
+// state values like { Booking: "AskTime" } are written "Booking.AskTime"
+export function stateName(value: StateValue): string {
+  if (typeof value === "string") {
+    return value;
+  }
+  return Object.entries(value)
+    .map(([key, child]) => (child ? `${key}.${stateName(child)}` : key))
+    .join(",");
+}
+
+// a snapshot of the dialogue manager itself (the root actor), not of the speech actor it spawned
+function isDMSnapshot(
+  inspectionEvent: InspectionEvent,
+): inspectionEvent is InspectedSnapshotEvent & { snapshot: SnapshotFrom<typeof dmMachine> } {
+  return (
+    inspectionEvent.type === "@xstate.snapshot" &&
+    inspectionEvent.actorRef.sessionId === inspectionEvent.rootId &&
+    "context" in inspectionEvent.snapshot
+  );
+}
+
+/*
+createSessionRecorder function:
+A new, empty log, and the inspection observer which fills it. 'onEntry' is called with every entry added to the
+log, and 'now' gives the time of the entries (the current time by default).
+*/
+export function createSessionRecorder(
+  options: { now?: () => Date; onEntry?: (entry: SessionEntry) => void } = {},
+): SessionRecorder {
+  const now = options.now ?? (() => new Date());
+  const log: SessionLog = { started: now().toISOString(), entries: [] };
+  let state: string | null = null;
+  let filled: Slot[] = [];
+  // the prompts are sent while the machine takes a step, before the snapshot which tells us why
+  let prompts: SessionEntry[] = [];
+
+  const add = (entry: SessionEntry) => {
+    log.entries.push(entry);
+    options.onEntry?.(entry);
+  };
+
+  const inspect = (inspectionEvent: InspectionEvent) => {
+    // only the dialogue manager itself (the root actor) is watched, not the speech actor
+    if (inspectionEvent.actorRef.sessionId !== inspectionEvent.rootId) {
+      return;
+    }
+    const time = now().toISOString();
+    if (inspectionEvent.type === "@xstate.action" && inspectionEvent.action.type === "xstate.sendTo") {
+      const { event } = inspectionEvent.action.params as { event: { type: string; value?: { utterance: string } } };
+      if (event.type === "SPEAK") {
+        prompts.push({ time, type: "system", utterance: ssmlToText(event.value!.utterance) });
+      }
+    }
+    if (inspectionEvent.type === "@xstate.action" && inspectionEvent.action.type === "xstate.emit") {
+      const { event } = inspectionEvent.action.params as { event: DMEmitted };
+      if (event.type === "MARKUP_ERROR") {
+        prompts.push({ time, type: "markupError", utterance: event.utterance, message: event.message });
+      }
+    }
+    if (isDMSnapshot(inspectionEvent)) {
+      const { snapshot } = inspectionEvent;
+      const event = inspectionEvent.event;
+      const added = snapshot.context.filled.length > filled.length ? snapshot.context.filled.slice(filled.length) : [];
+      filled = snapshot.context.filled;
+      if (event.type === "RECOGNISED") {
+        add({ time, type: "user", hypotheses: event.value, filled: added });
+      }
+      if (event.type === "ASR_NOINPUT") {
+        add({ time, type: "noInput" });
+      }
+      const to = stateName(snapshot.value);
+      if (to !== state) {
+        add({ time, type: "transition", from: state, to, event: event.type });
+        state = to;
+      }
+      prompts.forEach(add);
+      prompts = [];
+    }
+  };
+
+  return { log, inspect };
+}
+
+export function exportSession(log: SessionLog): string {
+  return JSON.stringify(log, null, 2);
+}
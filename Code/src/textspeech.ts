@@ -0,0 +1,182 @@
+/*
+textspeech:
+An offline stand-in for the 'speechstate' actor. It speaks the same protocol as speechstate, so the dialogue
+manager does not notice the difference:
+
+- it accepts PREPARE, SPEAK, LISTEN and STOP from the parent (the dialogue manager);
+- it answers with ASRTTS_READY, SPEAK_COMPLETE, RECOGNISED (with a Hypothesis[] list), ASR_NOINPUT and
+  LISTEN_COMPLETE, exactly like the real module.
+
+Instead of Azure TTS/ASR, system turns are emitted as text (SYSTEM_TURN) and user turns are typed in the page
+and sent to this actor as a TEXT_INPUT event. No key, microphone or network is needed.
+
+Unlike speechstate, it can also listen while it speaks (barge-in, see ../bargein): a LISTEN received while a
+system turn is on screen keeps it there as long as it would take to say it, and a user turn typed meanwhile stops
+it, without a SPEAK_COMPLETE.
+*/
+
+import { assign, emit, sendParent, setup } from "xstate";
+import { Hypothesis, Settings } from "speechstate";
+
+export type TextSpeechEvent =
+  | { type: "PREPARE" }
+  | { type: "SPEAK"; value: { utterance: string } }
+  | { type: "LISTEN"; value?: unknown }
+  | { type: "STOP" }
+  | { type: "TEXT_INPUT"; value: string };
+
+// events that can be observed from the page with `spstRef.on(...)`, used to render the dialogue as text
+export type TextSpeechEmitted =
+  | { type: "SYSTEM_TURN"; utterance: string }
+  | { type: "USER_TURN"; utterance: string };
+
+interface TextSpeechContext {
+  noInputTimeout: number;
+  utterance: string | null;
+  input: string | null;
+}
+
+// how long a system turn stays "on screen" before SPEAK_COMPLETE is sent back
+const SPEAK_DURATION = 300;
+// ... when the user may interrupt it: about as long as it takes to say it
+const WORD_DURATION = 300;
+
+export const textspeech = setup({
+  types: {
+    context: {} as TextSpeechContext,
+    events: {} as TextSpeechEvent,
+    emitted: {} as TextSpeechEmitted,
+    input: {} as Settings,
+  },
+  delays: {
+    SPEAK_DURATION,
+    SAYING_DURATION: ({ context }) => context.utterance!.split(/\s+/).length * WORD_DURATION,
+    // speechstate uses 0 as "no timeout" for completion; we do the same for no-input
+    NOINPUT_TIMEOUT: ({ context }) => context.noInputTimeout,
+  },
+  guards: {
+    hasNoInputTimeout: ({ context }) => context.noInputTimeout > 0,
+    hasInput: ({ context }) => !!context.input,
+  },
+}).createMachine({
+  id: "textspeech",
+  context: ({ input }) => ({
+    noInputTimeout: input.asrDefaultNoInputTimeout ?? 0,
+    utterance: null,
+    input: null,
+  }),
+  initial: "NotReady",
+  on: {
+    STOP: ".Stopped",
+  },
+  states: {
+    NotReady: {
+      meta: { view: "not-ready" },
+      on: {
+        PREPARE: "Ready",
+      },
+    },
+    Ready: {
+      initial: "Idle",
+      entry: sendParent({ type: "ASRTTS_READY" }),
+      states: {
+        Idle: {
+          meta: { view: "idle" },
+          on: {
+            SPEAK: {
+              target: "Speaking",
+              actions: assign({ utterance: ({ event }) => event.value.utterance }),
+            },
+            LISTEN: "Recognising",
+          },
+        },
+        Speaking: {
+          meta: { view: "speaking" },
+          entry: [
+            sendParent({ type: "TTS_STARTED" }),
+            emit(({ context }) => ({
+              type: "SYSTEM_TURN" as const,
+              utterance: context.utterance!,
+            })),
+          ],
+          on: {
+            LISTEN: "SpeakingAndListening",
+          },
+          after: {
+            SPEAK_DURATION: {
+              target: "Idle",
+              actions: sendParent({ type: "SPEAK_COMPLETE" }),
+            },
+          },
+        },
+        // barge-in: the system turn can be interrupted by the user, then we go on listening
+        SpeakingAndListening: {
+          meta: { view: "speaking" },
+          entry: [sendParent({ type: "ASR_STARTED" }), assign({ input: null })],
+          on: {
+            // saying nothing does not interrupt it
+            TEXT_INPUT: {
+              guard: ({ event }) => event.value.trim() !== "",
+              target: "Complete",
+              actions: assign({ input: ({ event }) => event.value.trim() }),
+            },
+          },
+          after: {
+            SAYING_DURATION: {
+              target: "Recognising",
+              actions: sendParent({ type: "SPEAK_COMPLETE" }),
+            },
+          },
+        },
+        Recognising: {
+          meta: { view: "recognising" },
+          entry: [
+            sendParent({ type: "ASR_STARTED" }),
+            assign({ input: null }),
+          ],
+          on: {
+            TEXT_INPUT: {
+              target: "Complete",
+              actions: assign({ input: ({ event }) => event.value.trim() }),
+            },
+          },
+          after: {
+            NOINPUT_TIMEOUT: {
+              guard: "hasNoInputTimeout",
+              target: "Complete",
+            },
+          },
+        },
+        Complete: {
+          always: [
+            {
+              guard: "hasInput",
+              target: "Idle",
+              actions: [
+                emit(({ context }) => ({
+                  type: "USER_TURN" as const,
+                  utterance: context.input!,
+                })),
+                sendParent(({ context }) => ({
+                  type: "RECOGNISED",
+                  value: [{ utterance: context.input!, confidence: 1 }] as Hypothesis[],
+                })),
+                sendParent({ type: "LISTEN_COMPLETE" }),
+              ],
+            },
+            {
+              target: "Idle",
+              actions: [
+                sendParent({ type: "ASR_NOINPUT" }),
+                sendParent({ type: "LISTEN_COMPLETE" }),
+              ],
+            },
+          ],
+        },
+      },
+    },
+    Stopped: {
+      meta: { view: "stopped" },
+    },
+  },
+});
@@ -1,13 +1,99 @@
-import { Hypothesis, SpeechStateExternalEvent } from "speechstate";
+import { Hypothesis, Settings, SpeechStateExternalEvent } from "speechstate";
 import { AnyActorRef } from "xstate";
+import { AvailabilityPolicy, Unavailability } from "./availability";
+import { Appointment, AppointmentQuery, CalendarStore, NewAppointment } from "./calendar";
+import { CalendarDate, Duration, Recurrence, TimeOfDay } from "./datetime";
+import { Intent } from "./grammar";
+import { Locale } from "./locale";
+import { MoveTarget } from "./manage";
+import { Entity, Slot } from "./parser";
+import { NameMatch } from "./names";
+import { Namesakes } from "./people";
+import { SavedSession } from "./persistence";
+
+/*
+GroundingThresholds: how sure the recogniser must be before we believe what it heard.
+- at or above 'accept', the values are accepted and only acknowledged in the next question ("Monday, and at
+  what time?");
+- at or above 'confirm', the user is asked whether we heard them right ("Monday, is that right?");
+- below 'confirm', the values are forgotten and the question is asked again.
+*/
+export interface GroundingThresholds {
+  accept: number;
+  confirm: number;
+}
+
+// how an attempt to answer a question can fail (see 'retry' in form.ts)
+export type FailureKind = "noInput" | "noMatch";
 
 export interface DMContext {
   spstRef: AnyActorRef;
   lastResult: Hypothesis[] | null;
-  person: string | null;
-  day: string | null;
+  person: string[] | null;
+  unresolvedName: Namesakes | null;
+  guess: NameMatch | null;
+  day: CalendarDate | null;
   yesno: boolean | null;
-  time: string | null;
+  time: TimeOfDay | null;
+  duration: Duration | null;
+  recurrence: Recurrence | null;
+  endWithoutRepeat: boolean;
+  now: () => Date;
+  store: CalendarStore;
+  conflict: Appointment | null;
+  suggestion: { date: CalendarDate; time: TimeOfDay | null; recurrence?: Recurrence } | null;
+  policy: AvailabilityPolicy;
+  unavailable: Unavailability | null;
+  grounding: GroundingThresholds;
+  heard: Slot[];
+  acknowledgement: string | null;
+  alternatives: Entity[];
+  failures: { [question: string]: Record<FailureKind, number> };
+  lastFailure: FailureKind | null;
+  maxReprompts: number;
+  skipped: string[];
+  lastPrompt: string | null;
+  filled: Slot[];
+  resumeState: string | null;
+  pronounce: boolean;
+  ssml: boolean;
+  locale: Locale;
+  bargeIn: boolean;
+  listening: boolean;
+  promptHeard: boolean;
+  resume: SavedSession | null;
+  intent: Intent | null;
+  query: AppointmentQuery;
+  matches: Appointment[];
+  moveTo: MoveTarget | null;
+  booking: NewAppointment | null;
 }
 
 export type DMEvents = SpeechStateExternalEvent | { type: "CLICK" };
+
+// emitted by the machine for whoever watches it (see the session log in ./session): a prompt whose speech markup
+// is not valid, and which was said as it is written
+export type DMEmitted = { type: "MARKUP_ERROR"; utterance: string; message: string };
+
+export interface DMInput {
+  settings: Settings;
+  now?: () => Date;
+  store?: CalendarStore;
+  // when meetings can be booked (see ./availability); any day and time by default
+  policy?: AvailabilityPolicy;
+  grounding?: GroundingThresholds;
+  // how many times a question is asked again after no input or an answer we did not understand (3 by default)
+  maxReprompts?: number;
+  // say the names of the contacts with their pronunciation (see ./contacts); only for real speech, as the text
+  // mode shows the names as they are written
+  pronounce?: boolean;
+  // send the prompts as SSML (see ./markup); only for real speech, as the text mode shows them as plain text
+  ssml?: boolean;
+  // the language of the dialogue (English by default)
+  locale?: Locale;
+  // let the user answer some prompts before they are said to the end (see ./bargein); only for a speech actor
+  // which can listen while it speaks, like textspeech
+  bargeIn?: boolean;
+  // a session saved before the page was reloaded, which the user is asked to go on with (see ./persistence)
+  resume?: SavedSession | null;
+}
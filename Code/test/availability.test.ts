@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { ANY_TIME, checkAvailability, readPolicy, suggestAvailable } from "../src/availability";
+import availability from "../src/availability.json";
+
+// Wednesday the 29th of January 2025, 9:00
+const now = new Date(2025, 0, 29, 9, 0);
+const policy = readPolicy({
+  workingHours: {
+    monday: ["08:00", "18:00"],
+    tuesday: ["08:00", "18:00"],
+    wednesday: ["08:00", "18:00"],
+    thursday: ["08:00", "18:00"],
+    friday: ["08:00", "16:00"],
+  },
+  holidays: [{ date: "2025-02-04", name: "Founders' Day" }],
+  people: { "Nayat Astaiza Soriano": { daysOff: ["friday"], away: ["2025-02-05"] } },
+  minimumNotice: 60,
+  duration: 60,
+});
+
+const friday = { year: 2025, month: 1, day: 31 };
+const sunday = { year: 2025, month: 2, day: 2 };
+const monday = { year: 2025, month: 2, day: 3 };
+const request = (fields: object) => ({ people: null, date: null, time: null, wholeDay: false, ...fields });
+
+describe("checkAvailability", () => {
+  it("tells why a day cannot be booked", () => {
+    expect(checkAvailability(policy, request({ date: sunday }), now)).toEqual({
+      slot: "day",
+      reason: "closed",
+      weekday: 0,
+    });
+    expect(checkAvailability(policy, request({ date: { year: 2025, month: 2, day: 4 } }), now)).toMatchObject({
+      reason: "holiday",
+      name: "Founders' Day",
+    });
+    const aya = request({ people: ["Lou Reed", "Nayat Astaiza Soriano"] });
+    expect(checkAvailability(policy, { ...aya, date: friday }, now)).toEqual({
+      slot: "day",
+      reason: "dayOff",
+      person: "Nayat Astaiza Soriano",
+      weekday: 5,
+    });
+    expect(checkAvailability(policy, { ...aya, date: { year: 2025, month: 2, day: 5 } }, now)).toMatchObject({
+      reason: "away",
+    });
+    expect(checkAvailability(policy, { ...aya, date: monday }, now)).toBeNull();
+  });
+
+  it("tells why a time cannot be booked", () => {
+    // the meeting must end by 16:00 on Fridays
+    expect(checkAvailability(policy, request({ date: friday, time: { hour: 15, minute: 30 } }), now)).toMatchObject({
+      slot: "time",
+      reason: "outsideHours",
+    });
+    expect(checkAvailability(policy, request({ date: friday, time: { hour: 15, minute: 0 } }), now)).toBeNull();
+    const today = { year: 2025, month: 1, day: 29 };
+    expect(checkAvailability(policy, request({ date: today, time: { hour: 9, minute: 30 } }), now)).toEqual({
+      slot: "time",
+      reason: "tooSoon",
+      notice: 60,
+    });
+    expect(checkAvailability(policy, request({ date: { year: 2025, month: 1, day: 28 } }), now)).toMatchObject({
+      slot: "day",
+      reason: "tooSoon",
+    });
+    expect(checkAvailability(ANY_TIME, request({ date: sunday, time: { hour: 23, minute: 0 } }), now)).toBeNull();
+  });
+});
+
+describe("checkAvailability for a recurring meeting", () => {
+  const weekly = { frequency: "weekly" as const, interval: 1, weekday: 1, until: null, count: null };
+  const atTen = request({ date: monday, time: { hour: 10, minute: 0 } });
+
+  it("checks every day it takes place", () => {
+    expect(checkAvailability(policy, { ...atTen, recurrence: weekly }, now)).toBeNull();
+    const daily = { ...weekly, frequency: "daily" as const, weekday: null };
+    // the holiday on Tuesday the 4th could be left out, but not the Saturdays
+    expect(checkAvailability(policy, { ...atTen, recurrence: daily }, now)).toEqual({
+      slot: "recurrence",
+      reason: "repeats",
+      date: { year: 2025, month: 2, day: 8 },
+      because: { slot: "day", reason: "closed", weekday: 6 },
+    });
+    // every 4 days from Monday, it takes place on Friday the 7th, when 5 pm is after the end of the day
+    const fridays = { ...atTen, time: { hour: 17, minute: 0 }, recurrence: { ...daily, interval: 4 } };
+    expect(checkAvailability(policy, fridays, now)).toMatchObject({
+      slot: "recurrence",
+      date: { year: 2025, month: 2, day: 7 },
+      because: { reason: "outsideHours" },
+    });
+  });
+
+  it("offers nothing instead", () => {
+    const daily = { ...weekly, frequency: "daily" as const, weekday: null };
+    const unavailable = checkAvailability(policy, { ...atTen, recurrence: daily }, now)!;
+    expect(suggestAvailable(policy, { ...atTen, recurrence: daily }, unavailable, now)).toBeNull();
+  });
+
+  it("offers to leave out the holidays and the days away", () => {
+    const everyMonday = { ...atTen, recurrence: weekly };
+    const holidays = readPolicy(availability);
+    const easterMonday = { year: 2025, month: 4, day: 21 };
+    const unavailable = checkAvailability(holidays, everyMonday, now)!;
+    const because = { slot: "day", reason: "holiday", date: easterMonday, name: "Easter Monday" };
+    expect(unavailable).toEqual({ slot: "recurrence", reason: "except", days: [{ date: easterMonday, because }] });
+    const suggestion = suggestAvailable(holidays, everyMonday, unavailable, now)!;
+    expect(suggestion).toEqual({ date: monday, time: null, recurrence: { ...weekly, except: [easterMonday] } });
+    expect(checkAvailability(holidays, { ...everyMonday, recurrence: suggestion.recurrence }, now)).toBeNull();
+
+    // twice, two days apart: Nayat Astaiza Soriano is away on Wednesday the 5th
+    const twice = { ...weekly, frequency: "daily" as const, interval: 2, weekday: null, count: 2 };
+    const aya = { ...atTen, people: ["Nayat Astaiza Soriano"], recurrence: twice };
+    expect(checkAvailability(policy, aya, now)).toMatchObject({
+      reason: "except",
+      days: [{ date: { year: 2025, month: 2, day: 5 }, because: { reason: "away" } }],
+    });
+  });
+});
+
+describe("suggestAvailable", () => {
+  it("offers the next day allowed, or the nearest time allowed that day", () => {
+    const aya = request({ people: ["Nayat Astaiza Soriano"], date: friday });
+    expect(suggestAvailable(policy, aya, checkAvailability(policy, aya, now)!, now)).toEqual({
+      date: monday,
+      time: null,
+    });
+    const evening = request({ date: friday, time: { hour: 19, minute: 0 } });
+    expect(suggestAvailable(policy, evening, checkAvailability(policy, evening, now)!, now)).toEqual({
+      date: friday,
+      time: { hour: 15, minute: 0 },
+    });
+  });
+});
+
+describe("readPolicy", () => {
+  it("says what is wrong in the policy", () => {
+    expect(() => readPolicy({ workingHours: { monday: ["8", "18:00"] } })).toThrow("monday: not a time");
+    expect(() => readPolicy({ people: { Lou: { daysOff: ["someday"] } } })).toThrow("not a day of the week");
+    expect(readPolicy({}).workingHours).toEqual(ANY_TIME.workingHours);
+  });
+});
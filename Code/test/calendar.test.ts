@@ -0,0 +1,242 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  Appointment,
+  AppointmentQuery,
+  createStorageStore,
+  findAppointments,
+  findConflicts,
+  firstClash,
+  nearestFreeSlot,
+  toICS,
+  UnknownAppointmentError,
+} from "../src/calendar";
+import { createFileStorage } from "./filestorage";
+
+describe("createStorageStore", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "calendar-"));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true });
+  });
+
+  it("keeps the appointments in the storage", async () => {
+    const path = join(directory, "calendar.json");
+    const store = createStorageStore(createFileStorage(path));
+    const added = await store.add({
+      people: ["Lou Reed"],
+      date: { year: 2025, month: 3, day: 3 },
+      time: { hour: 10, minute: 0 },
+      wholeDay: false,
+    });
+
+    expect(added.id).toEqual(expect.any(String));
+    // another store on the same file sees the same appointments
+    expect(await createStorageStore(createFileStorage(path)).list()).toEqual([added]);
+  });
+
+  it("moves and removes appointments, and refuses to change one it does not have", async () => {
+    const store = createStorageStore(createFileStorage(join(directory, "calendar.json")));
+    const added = await store.add({
+      people: ["Lou Reed"],
+      date: { year: 2025, month: 3, day: 3 },
+      time: { hour: 10, minute: 0 },
+      wholeDay: false,
+    });
+
+    const moved = await store.update(added.id, { time: { hour: 15, minute: 0 } });
+    expect(moved).toEqual({ ...added, time: { hour: 15, minute: 0 } });
+    expect(await store.list()).toEqual([moved]);
+    await store.remove(added.id);
+    expect(await store.list()).toEqual([]);
+    await expect(store.remove(added.id)).rejects.toThrow(UnknownAppointmentError);
+  });
+});
+
+describe("findAppointments", () => {
+  const today = { year: 2025, month: 1, day: 29 };
+  const appointment = (id: string, people: string[], day: number, hour: number | null): Appointment => ({
+    id,
+    people,
+    date: { year: 2025, month: 1, day },
+    time: hour === null ? null : { hour, minute: 0 },
+    wholeDay: hour === null,
+    created: "2025-01-28T12:00:00.000Z",
+  });
+  const appointments = [
+    appointment("friday", ["Lou Reed"], 31, 10),
+    appointment("yesterday", ["Lou Reed"], 28, 10),
+    appointment("thursday", ["Aya Ng", "Lou Reed"], 30, null),
+    appointment("friday-day", ["Vladislav Maraev"], 31, null),
+  ];
+  const ids = (query: Partial<AppointmentQuery>) =>
+    findAppointments(appointments, { people: null, date: null, time: null, ...query }, today).map((a) => a.id);
+
+  it("finds the appointments of a day, of a person from today on, or at a time, in their order", () => {
+    expect(ids({ date: { year: 2025, month: 1, day: 31 } })).toEqual(["friday-day", "friday"]);
+    expect(ids({ people: ["Lou Reed"] })).toEqual(["thursday", "friday"]);
+    expect(ids({ people: ["Lou Reed"], date: { year: 2025, month: 1, day: 28 } })).toEqual(["yesterday"]);
+    expect(ids({ time: { hour: 10, minute: 0 } })).toEqual(["friday"]);
+  });
+
+  it("finds a recurring appointment on every day it takes place", () => {
+    const weekly = {
+      ...appointment("weekly", ["Vladislav Maraev"], 27, 9),
+      recurrence: { frequency: "weekly" as const, interval: 1, weekday: 1, until: null, count: null },
+    };
+    const find = (query: Partial<AppointmentQuery>) =>
+      findAppointments([weekly, ...appointments], { people: null, date: null, time: null, ...query }, today).map(
+        (a) => a.id,
+      );
+    expect(find({ date: { year: 2025, month: 2, day: 10 } })).toEqual(["weekly"]);
+    expect(find({ date: { year: 2025, month: 2, day: 11 } })).toEqual([]);
+    // it started on Monday, but still takes place: it is next on Monday the 3rd of February
+    expect(find({ people: ["Vladislav Maraev"] })).toEqual(["friday-day", "weekly"]);
+  });
+});
+
+describe("findConflicts and nearestFreeSlot", () => {
+  const monday = { year: 2025, month: 2, day: 3 };
+  const appointment = (id: string, hour: number | null): Appointment => ({
+    id,
+    people: ["Lou Reed"],
+    date: monday,
+    time: hour === null ? null : { hour, minute: 0 },
+    wholeDay: hour === null,
+    created: "2025-01-28T12:00:00.000Z",
+  });
+  const proposal = (hour: number, minute = 0) => ({
+    people: ["Vladislav Maraev"],
+    date: monday,
+    time: { hour, minute },
+    wholeDay: false,
+  });
+
+  it("finds the appointments that overlap", () => {
+    const appointments = [appointment("ten", 10), appointment("twelve", 12)];
+    expect(findConflicts(appointments, proposal(10, 30)).map((a) => a.id)).toEqual(["ten"]);
+    expect(findConflicts(appointments, proposal(11)).map((a) => a.id)).toEqual([]);
+    expect(findConflicts(appointments, { ...proposal(9), time: null, wholeDay: true })).toHaveLength(2);
+    expect(findConflicts([appointment("day", null)], proposal(15))).toHaveLength(1);
+    // a meeting of two hours at 9 reaches the one at 10
+    expect(findConflicts(appointments, { ...proposal(9), duration: 120 }).map((a) => a.id)).toEqual(["ten"]);
+  });
+
+  it("compares every day a recurring appointment takes place", () => {
+    const everyMonday = { frequency: "weekly" as const, interval: 1, weekday: 1, until: null, count: null };
+    const weekly = { ...appointment("weekly", 10), recurrence: everyMonday };
+    const later = { ...proposal(10), date: { year: 2025, month: 2, day: 10 } };
+    expect(findConflicts([weekly], later).map((a) => a.id)).toEqual(["weekly"]);
+    expect(findConflicts([{ ...weekly, recurrence: { ...everyMonday, count: 1 } }], later)).toEqual([]);
+    expect(findConflicts([weekly], { ...later, date: { year: 2025, month: 2, day: 11 } })).toEqual([]);
+    expect(firstClash(weekly, later)).toEqual({ year: 2025, month: 2, day: 10 });
+
+    // a recurring proposal which lands on a one-off appointment, after its first day
+    const oneOff = { ...appointment("one-off", 10), date: { year: 2025, month: 2, day: 24 } };
+    const daily = { frequency: "daily" as const, interval: 7, weekday: null, until: null, count: null };
+    expect(findConflicts([oneOff], { ...proposal(10), recurrence: daily }).map((a) => a.id)).toEqual(["one-off"]);
+    expect(findConflicts([oneOff], { ...proposal(10), recurrence: { ...daily, count: 3 } })).toEqual([]);
+  });
+
+  it("finds the nearest free slot", () => {
+    const appointments = [appointment("ten", 10), appointment("eleven", 11)];
+    expect(nearestFreeSlot(appointments, proposal(10))).toEqual({ date: monday, time: { hour: 9, minute: 0 } });
+    // 9 and 12 are as near: the later one wins
+    expect(nearestFreeSlot(appointments, proposal(10, 30))).toEqual({ date: monday, time: { hour: 12, minute: 0 } });
+    expect(nearestFreeSlot(appointments, proposal(11))).toEqual({ date: monday, time: { hour: 12, minute: 0 } });
+    expect(nearestFreeSlot([appointment("day", null)], proposal(10))).toBeNull();
+    expect(nearestFreeSlot(appointments, { ...proposal(10), time: null, wholeDay: true })).toEqual({
+      date: { year: 2025, month: 2, day: 4 },
+      time: null,
+    });
+  });
+});
+
+describe("toICS", () => {
+  const created = "2025-01-29T08:00:00.000Z";
+  const appointments: Appointment[] = [
+    {
+      id: "a1",
+      people: ["Lou Reed"],
+      date: { year: 2025, month: 3, day: 3 },
+      time: { hour: 23, minute: 30 },
+      wholeDay: false,
+      created,
+    },
+    {
+      id: "a2",
+      people: ["Smith, John; Jr."],
+      date: { year: 2025, month: 12, day: 31 },
+      time: null,
+      wholeDay: true,
+      created,
+    },
+  ];
+
+  it("exports the appointments as iCalendar events", () => {
+    expect(toICS(appointments).split("\r\n")).toEqual([
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//dialogue-systems-1-2025//Appointments//EN",
+      "CALSCALE:GREGORIAN",
+      "BEGIN:VEVENT",
+      "UID:a1@dialogue-systems",
+      "DTSTAMP:20250129T080000Z",
+      "DTSTART:20250303T233000",
+      "DTEND:20250304T003000",
+      "SUMMARY:Meeting with Lou Reed",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "UID:a2@dialogue-systems",
+      "DTSTAMP:20250129T080000Z",
+      "DTSTART;VALUE=DATE:20251231",
+      "DTEND;VALUE=DATE:20260101",
+      "SUMMARY:Meeting with Smith\\, John\\; Jr.",
+      "END:VEVENT",
+      "END:VCALENDAR",
+      "",
+    ]);
+  });
+
+  it("folds long lines", () => {
+    const ics = toICS([{ ...appointments[0], people: ["x".repeat(100)] }]);
+    const summary = ics.split("\r\n").filter((line) => line.startsWith("SUMMARY") || line.startsWith(" "));
+    expect(summary.map((line) => line.length)).toEqual([75, 47]);
+    expect(summary.join("\r\n").replace(/\r\n /g, "")).toBe(`SUMMARY:Meeting with ${"x".repeat(100)}`);
+  });
+
+  it("exports how often a recurring event takes place", () => {
+    const recurrence = {
+      frequency: "weekly" as const,
+      interval: 2,
+      weekday: 1,
+      until: { year: 2025, month: 5, day: 31 },
+      count: null,
+    };
+    const rules = (ics: string) => ics.split("\r\n").filter((line) => line.startsWith("RRULE"));
+    expect(rules(toICS([{ ...appointments[0], recurrence }]))).toEqual([
+      "RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;UNTIL=20250531T235959",
+    ]);
+    const daily = { ...recurrence, frequency: "daily" as const, interval: 1, weekday: null, until: null, count: 5 };
+    expect(rules(toICS([{ ...appointments[1], recurrence: daily }]))).toEqual(["RRULE:FREQ=DAILY;COUNT=5"]);
+  });
+
+  it("exports the days a recurring event is left out on", () => {
+    const except = [{ year: 2025, month: 4, day: 21 }, { year: 2025, month: 5, day: 5 }];
+    const recurrence = { frequency: "weekly" as const, interval: 1, weekday: 1, until: null, count: null, except };
+    const exdates = (ics: string) => ics.split("\r\n").filter((line) => line.startsWith("EXDATE"));
+    expect(exdates(toICS([{ ...appointments[0], recurrence }]))).toEqual(["EXDATE:20250421T233000,20250505T233000"]);
+    expect(exdates(toICS([{ ...appointments[1], recurrence }]))).toEqual(["EXDATE;VALUE=DATE:20250421,20250505"]);
+  });
+
+  it("ends the events after their duration", () => {
+    const ics = toICS([{ ...appointments[0], time: { hour: 10, minute: 0 }, duration: 90 }]);
+    expect(ics.split("\r\n").filter((line) => line.startsWith("DTEND"))).toEqual(["DTEND:20250303T113000"]);
+  });
+});
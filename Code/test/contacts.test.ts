@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { Contact, formatOf, parseContacts, personEntries, pronounce } from "../src/contacts";
+import defaultContacts from "../src/contacts.json";
+import { currentContacts, useContacts } from "../src/grammar";
+import { parse } from "../src/parser";
+
+const team: Contact[] = [
+  { name: "Ada Lovelace", nicknames: ["ada"], pronunciation: "Ay-da Love-lace" },
+  { name: "Alan Turing", nicknames: ["alan"] },
+  { name: "Alan Kay", nicknames: ["alan", "kay"] },
+];
+
+describe("parseContacts", () => {
+  it("reads a JSON list of contacts", () => {
+    const json = JSON.stringify([{ name: " Ada Lovelace ", nicknames: ["ada", ""] }, { name: "Alan Kay" }]);
+    expect(parseContacts(json, "json")).toEqual([
+      { name: "Ada Lovelace", nicknames: ["ada"] },
+      { name: "Alan Kay", nicknames: [] },
+    ]);
+  });
+
+  it("reads a CSV table, with quoted cells and nicknames separated by semicolons", () => {
+    const csv = 'Name,Nicknames,Pronunciation\r\nAda Lovelace,ada,Ay-da Love-lace\r\n"Kay, Alan",alan;kay,\r\n\r\n';
+    expect(parseContacts(csv, "csv")).toEqual([
+      { name: "Ada Lovelace", nicknames: ["ada"], pronunciation: "Ay-da Love-lace" },
+      { name: "Kay, Alan", nicknames: ["alan", "kay"] },
+    ]);
+  });
+
+  it("rejects contacts without a name", () => {
+    expect(() => parseContacts('[{ "nicknames": ["ada"] }]', "json")).toThrow("Contact number 1 has no name");
+    expect(() => parseContacts("name,nicknames\nAda Lovelace,ada\n,alan", "csv")).toThrow("on line 3");
+    expect(() => parseContacts("nickname\nada", "csv")).toThrow("name column");
+  });
+
+  it("tells the format from the file name", () => {
+    expect(formatOf("team.CSV")).toBe("csv");
+    expect(formatOf("team.json")).toBe("json");
+  });
+});
+
+describe("personEntries", () => {
+  it("gives every full name and nickname, and the namesakes of shared ones", () => {
+    expect(personEntries(team)).toEqual({
+      "ada lovelace": { person: "Ada Lovelace" },
+      ada: { person: "Ada Lovelace" },
+      "alan turing": { person: "Alan Turing" },
+      alan: { namesakes: ["Alan Turing", "Alan Kay"] },
+      "alan kay": { person: "Alan Kay" },
+      kay: { person: "Alan Kay" },
+    });
+  });
+});
+
+describe("pronounce", () => {
+  it("replaces the full names which have a pronunciation", () => {
+    expect(pronounce("Ada Lovelace and Alan Kay, and on which day?", team)).toBe(
+      "Ay-da Love-lace and Alan Kay, and on which day?",
+    );
+  });
+});
+
+describe("useContacts", () => {
+  afterEach(() => useContacts(defaultContacts));
+
+  it("replaces the people understood by the parser", () => {
+    useContacts(team);
+    expect(currentContacts()).toBe(team);
+    expect(parse("ada and vlad").slots).toEqual({ person: "Ada Lovelace" });
+    expect(parse("vlad, yes").slots).toEqual({ yesno: true });
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, expect, it } from "vitest";
+import {
+  anchorRecurrence,
+  formatDate,
+  formatDuration,
+  formatRecurrence,
+  formatTime,
+  matchDate,
+  matchDuration,
+  matchRecurrence,
+  matchRecurrenceEnd,
+  matchTime,
+  nextOccurrence,
+  occurrences,
+} from "../src/datetime";
+import { tokenize } from "../src/parser";
+
+// Wednesday the 29th of January 2025
+const now = new Date(2025, 0, 29, 9, 0);
+
+function date(utterance: string) {
+  const words = tokenize(utterance).map((token) => token.text);
+  return matchDate(words, 0, now);
+}
+
+function time(utterance: string) {
+  const words = tokenize(utterance).map((token) => token.text);
+  return matchTime(words, 0);
+}
+
+function duration(utterance: string) {
+  const words = tokenize(utterance).map((token) => token.text);
+  return matchDuration(words, 0);
+}
+
+describe("matchDate", () => {
+  it("resolves relative dates against now", () => {
+    expect(date("today")?.value).toEqual({ year: 2025, month: 1, day: 29 });
+    expect(date("tomorrow")?.value).toEqual({ year: 2025, month: 1, day: 30 });
+    expect(date("the day after tomorrow")).toEqual({ value: { year: 2025, month: 1, day: 31 }, length: 4 });
+  });
+
+  it("resolves weekdays to the next one", () => {
+    expect(date("friday")?.value).toEqual({ year: 2025, month: 1, day: 31 });
+    expect(date("wednesday")?.value).toEqual({ year: 2025, month: 1, day: 29 });
+    expect(date("this wednesday")?.value).toEqual({ year: 2025, month: 1, day: 29 });
+    expect(date("next wednesday")?.value).toEqual({ year: 2025, month: 2, day: 5 });
+    expect(date("next tuesday")?.value).toEqual({ year: 2025, month: 2, day: 4 });
+  });
+
+  it("understands absolute dates", () => {
+    expect(date("the 3rd of March")).toEqual({ value: { year: 2025, month: 3, day: 3 }, length: 4 });
+    expect(date("the third of march")?.value).toEqual({ year: 2025, month: 3, day: 3 });
+    expect(date("3 March")?.value).toEqual({ year: 2025, month: 3, day: 3 });
+    expect(date("March the 21st")?.value).toEqual({ year: 2025, month: 3, day: 21 });
+    expect(date("march twenty first 2026")).toEqual({ value: { year: 2026, month: 3, day: 21 }, length: 4 });
+    expect(date("Monday the 3rd of February")?.value).toEqual({ year: 2025, month: 2, day: 3 });
+  });
+
+  it("takes the next year or month for days that are already past", () => {
+    expect(date("the 2nd of January")?.value).toEqual({ year: 2026, month: 1, day: 2 });
+    expect(date("the 5th")?.value).toEqual({ year: 2025, month: 2, day: 5 });
+    expect(date("the 30th")?.value).toEqual({ year: 2025, month: 1, day: 30 });
+    expect(date("the 30th of February")).toBeNull();
+  });
+
+  it("does not take a plain number or word for a date", () => {
+    expect(date("3")).toBeNull();
+    expect(date("may")).toBeNull();
+    expect(date("first")).toBeNull();
+  });
+});
+
+describe("matchTime", () => {
+  it("understands hours and minutes", () => {
+    expect(time("10")?.value).toEqual({ hour: 10, minute: 0 });
+    expect(time("10:30")?.value).toEqual({ hour: 10, minute: 30 });
+    expect(time("ten thirty")).toEqual({ value: { hour: 10, minute: 30 }, length: 2 });
+    expect(time("ten oh five")?.value).toEqual({ hour: 10, minute: 5 });
+    expect(time("10 o'clock")).toEqual({ value: { hour: 10, minute: 0 }, length: 2 });
+  });
+
+  it("understands am and pm", () => {
+    expect(time("3:45 pm")).toEqual({ value: { hour: 15, minute: 45 }, length: 2 });
+    expect(time("3pm")?.value).toEqual({ hour: 15, minute: 0 });
+    expect(time("9 a.m.")).toEqual({ value: { hour: 9, minute: 0 }, length: 3 });
+    expect(time("12 am")?.value).toEqual({ hour: 0, minute: 0 });
+    expect(time("8 in the evening")).toEqual({ value: { hour: 20, minute: 0 }, length: 4 });
+    expect(time("13 pm")).toBeNull();
+  });
+
+  it("understands times relative to the hour", () => {
+    expect(time("half past two")).toEqual({ value: { hour: 14, minute: 30 }, length: 3 });
+    expect(time("quarter to ten")?.value).toEqual({ hour: 9, minute: 45 });
+    expect(time("a quarter past 9 in the morning")?.value).toEqual({ hour: 9, minute: 15 });
+    expect(time("twenty five past 4")?.value).toEqual({ hour: 16, minute: 25 });
+    expect(time("10 minutes to midnight")).toEqual({ value: { hour: 23, minute: 50 }, length: 4 });
+  });
+
+  it("takes hours without am or pm from 1 to 7 as afternoon hours", () => {
+    expect(time("2")?.value).toEqual({ hour: 14, minute: 0 });
+    expect(time("8")?.value).toEqual({ hour: 8, minute: 0 });
+    expect(time("20")?.value).toEqual({ hour: 20, minute: 0 });
+    expect(time("noon")?.value).toEqual({ hour: 12, minute: 0 });
+  });
+
+  it("only takes a number written with words for a time when it is alone or after 'at'", () => {
+    expect(time("ten")?.value).toEqual({ hour: 10, minute: 0 });
+    expect(matchTime(["at", "ten", "please"], 1)?.value).toEqual({ hour: 10, minute: 0 });
+    expect(matchTime(["the", "one", "on", "friday"], 1)).toBeNull();
+  });
+});
+
+describe("matchDuration", () => {
+  it("understands lengths in hours and minutes", () => {
+    expect(duration("an hour")).toEqual({ value: { minutes: 60 }, length: 2 });
+    expect(duration("half an hour")?.value).toEqual({ minutes: 30 });
+    expect(duration("an hour and a half")?.value).toEqual({ minutes: 90 });
+    expect(duration("one and a half hours")?.value).toEqual({ minutes: 90 });
+    expect(duration("two hours")?.value).toEqual({ minutes: 120 });
+    expect(duration("45 minutes")?.value).toEqual({ minutes: 45 });
+  });
+
+  it("understands when the meeting ends", () => {
+    expect(duration("until 3 pm")).toEqual({ value: { until: { hour: 15, minute: 0 } }, length: 3 });
+    expect(duration("till half past four")?.value).toEqual({ until: { hour: 16, minute: 30 } });
+  });
+
+  it("does not take a plain number for a length", () => {
+    expect(duration("two")).toBeNull();
+    expect(duration("zero hours")).toBeNull();
+  });
+});
+
+describe("matchRecurrence and matchRecurrenceEnd", () => {
+  const words = (utterance: string) => tokenize(utterance).map((token) => token.text);
+  const weekly = { frequency: "weekly", interval: 1, weekday: null, until: null, count: null };
+  const rule = (fields: object) => ({ ...weekly, ...fields });
+
+  it("understands how often a meeting takes place", () => {
+    expect(matchRecurrence(words("every Monday"), 0)).toEqual({ value: rule({ weekday: 1 }), length: 2 });
+    expect(matchRecurrence(words("every other Friday"), 0)?.value).toEqual(rule({ interval: 2, weekday: 5 }));
+    expect(matchRecurrence(words("every third week"), 0)?.value).toEqual(rule({ interval: 3 }));
+    expect(matchRecurrence(words("every 2 days"), 0)?.value).toEqual(rule({ frequency: "daily", interval: 2 }));
+    expect(matchRecurrence(words("each month"), 0)?.value).toEqual(rule({ frequency: "monthly" }));
+    expect(matchRecurrence(words("every meeting"), 0)).toBeNull();
+  });
+
+  it("understands when it stops", () => {
+    expect(matchRecurrenceEnd(words("until the 3rd of March"), 0, now)?.value).toEqual({
+      until: { year: 2025, month: 3, day: 3 },
+    });
+    // the last time is before June
+    expect(matchRecurrenceEnd(words("until June"), 0, now)).toEqual({
+      value: { until: { year: 2025, month: 5, day: 31 } },
+      length: 2,
+    });
+    expect(matchRecurrenceEnd(words("10 times"), 0, now)?.value).toEqual({ count: 10 });
+    expect(matchRecurrenceEnd(words("until 3"), 0, now)).toBeNull();
+  });
+});
+
+describe("occurrences and nextOccurrence", () => {
+  const day = (month: number, day: number) => ({ year: 2025, month, day });
+  const weekly = { frequency: "weekly" as const, interval: 1, weekday: 1, until: null, count: null };
+
+  it("lists the days a recurring meeting takes place on", () => {
+    expect(occurrences(day(2, 3), weekly, day(2, 20))).toEqual([day(2, 3), day(2, 10), day(2, 17)]);
+    expect(occurrences(day(2, 3), { ...weekly, interval: 2, count: 2 }, day(12, 31))).toEqual([day(2, 3), day(2, 17)]);
+    expect(occurrences(day(2, 3), { ...weekly, until: day(2, 10) }, day(12, 31))).toEqual([day(2, 3), day(2, 10)]);
+    expect(occurrences(day(2, 3), null, day(12, 31))).toEqual([day(2, 3)]);
+  });
+
+  it("leaves out the days it does not take place on, which still count", () => {
+    const except = { ...weekly, count: 3, except: [day(2, 10)] };
+    expect(occurrences(day(2, 3), except, day(12, 31))).toEqual([day(2, 3), day(2, 17)]);
+    expect(nextOccurrence(day(2, 3), except, day(2, 5))).toEqual(day(2, 17));
+    // moved to Tuesday, it is no longer left out on a Monday
+    expect(anchorRecurrence(except, day(2, 3))).toEqual(except);
+    expect(anchorRecurrence(except, day(2, 4))).toEqual({ ...weekly, weekday: 2, count: 3 });
+  });
+
+  it("skips the months without the day of a monthly meeting", () => {
+    const monthly = { ...weekly, frequency: "monthly" as const, weekday: null, count: 3 };
+    expect(occurrences(day(1, 31), monthly, day(12, 31))).toEqual([day(1, 31), day(3, 31), day(5, 31)]);
+  });
+
+  it("finds the next day a meeting takes place on", () => {
+    const daily = { ...weekly, frequency: "daily" as const, interval: 3, weekday: null };
+    expect(nextOccurrence(day(2, 3), weekly, day(2, 5))).toEqual(day(2, 10));
+    expect(nextOccurrence(day(2, 3), daily, day(2, 9))).toEqual(day(2, 9));
+    expect(nextOccurrence(day(2, 3), { ...weekly, count: 1 }, day(2, 5))).toBeNull();
+    expect(nextOccurrence(day(2, 3), null, day(2, 3))).toEqual(day(2, 3));
+  });
+});
+
+describe("formatDate and formatTime", () => {
+  it("say dates and times naturally", () => {
+    expect(formatDate({ year: 2025, month: 3, day: 3 }, now)).toBe("Monday the 3rd of March");
+    expect(formatDate({ year: 2026, month: 1, day: 22 }, now)).toBe("Thursday the 22nd of January 2026");
+    expect(formatDate({ year: 2025, month: 2, day: 11 }, now)).toBe("Tuesday the 11th of February");
+    expect(formatTime({ hour: 10, minute: 0 })).toBe("10 am");
+    expect(formatTime({ hour: 14, minute: 5 })).toBe("2:05 pm");
+    expect(formatTime({ hour: 12, minute: 0 })).toBe("noon");
+    expect(formatTime({ hour: 0, minute: 30 })).toBe("12:30 am");
+    expect(formatDuration(30)).toBe("30 minutes");
+    expect(formatDuration(90)).toBe("an hour and a half");
+    expect(formatDuration(135)).toBe("2 hours and 15 minutes");
+    const weekly = { frequency: "weekly" as const, interval: 1, weekday: 1, until: null, count: null };
+    expect(formatRecurrence(weekly, now)).toBe("every Monday");
+    expect(formatRecurrence({ ...weekly, interval: 2, until: { year: 2025, month: 5, day: 31 } }, now)).toBe(
+      "every other Monday until Saturday the 31st of May",
+    );
+    expect(formatRecurrence({ ...weekly, interval: 3, count: 4 }, now)).toBe("every 3 weeks on Monday, 4 times");
+    expect(formatRecurrence({ ...weekly, frequency: "daily", weekday: null }, now)).toBe("every day");
+  });
+});
@@ -0,0 +1,1671 @@
+import { describe, expect, it } from "vitest";
+import { readPolicy } from "../src/availability";
+import availability from "../src/availability.json";
+import { Appointment, CalendarStore, createMemoryStore } from "../src/calendar";
+import { runScript, Turn } from "./harness";
+
+const greeting: Turn[] = [
+  { system: "Hi! Do you want to book a meeting, hear what you have on a day, or move or cancel a meeting?" },
+  { user: "book a meeting" },
+  { system: "Who are you meeting with?" },
+];
+
+describe("appointment dialogue", async () => {
+  it("books a meeting at a given time", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad" },
+      { system: "Vladislav Maraev, and on which day?" },
+      { user: "monday" },
+      { system: "Monday the 3rd of February, and will it take the whole day?" },
+      { user: "no" },
+      { system: "Ok, the meeting will not be the whole day." },
+      { system: "What time is your meeting?" },
+      { user: "10" },
+      { system: "At 10 am, and how long will it last?" },
+      { user: "for an hour and a half" },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 10 am for an hour and a half?",
+      },
+      { user: "yes" },
+      { system: "Your appointment has been created!" },
+      ...greeting,
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.path).toEqual([
+      "Prepare",
+      "WaitToStart",
+      "Greeting",
+      "ListenIntent",
+      "AskPerson",
+      "ListenPerson",
+      "AskDay",
+      "ListenDay",
+      "AskFullDay",
+      "ListenFullDay",
+      "CheckFullDay",
+      "AskTime",
+      "ListenTime",
+      "AskDuration",
+      "ListenDuration",
+      "CheckAvailability",
+      "ConfirmAppointment",
+      "ListenConfirm",
+      "SaveAppointment",
+      "CheckConfirmation",
+      "Greeting",
+      "ListenIntent",
+      "AskPerson",
+      "ListenPerson",
+    ]);
+    // the slots are cleared once the appointment is created
+    expect(run.context).toMatchObject({ person: null, day: null, time: null, duration: null, yesno: null });
+  });
+
+  it("saves the confirmed appointment in the calendar store", async () => {
+    const appointments: Appointment[] = [];
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Friday" },
+      { system: "Vladislav Maraev on Friday the 31st of January, and will it take the whole day?" },
+      { user: "yes" },
+      { system: "Ok, you will take the whole day." },
+      {
+        system: "Do you want me to create an appointment with Vladislav Maraev on Friday the 31st of January for the whole day?",
+      },
+      { user: "yes please" },
+      { system: "Your appointment has been created!" },
+      ...greeting,
+    ];
+    const run = await runScript(script, { store: createMemoryStore(appointments) });
+
+    expect(run.transcript).toEqual(script);
+    expect(appointments).toEqual([
+      {
+        id: expect.any(String),
+        created: expect.any(String),
+        people: ["Vladislav Maraev"],
+        date: { year: 2025, month: 1, day: 31 },
+        time: null,
+        wholeDay: true,
+      },
+    ]);
+  });
+
+  it("tells the user when the appointment cannot be saved", async () => {
+    const store: CalendarStore = {
+      list: async () => [],
+      add: async () => {
+        throw new Error("disk full");
+      },
+      update: async () => {
+        throw new Error("disk full");
+      },
+      remove: async () => {
+        throw new Error("disk full");
+      },
+    };
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Friday at 10 for an hour" },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on Friday the 31st of January at 10 am for an hour?",
+      },
+      { user: "yes" },
+      { system: "Sorry, I could not save your appointment. Let's start over." },
+      ...greeting,
+    ];
+    const run = await runScript(script, { store });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: null, day: null, time: null });
+  });
+
+  it("books a whole-day meeting without asking for the time", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "aya" },
+      { system: "Nayat Astaiza Soriano, and on which day?" },
+      { user: "friday" },
+      { system: "Friday the 31st of January, and will it take the whole day?" },
+      { user: "yes" },
+      { system: "Ok, you will take the whole day." },
+      {
+        system: "Do you want me to create an appointment with Nayat Astaiza Soriano on Friday the 31st of January for the whole day?",
+      },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.path[run.path.length - 1]).toBe("ListenConfirm");
+    expect(run.context).toMatchObject({
+      person: ["Nayat Astaiza Soriano"],
+      day: { year: 2025, month: 1, day: 31 },
+      yesno: true,
+      time: null,
+    });
+  });
+
+  it("takes the whole day or all day as a yes to the full-day question", async () => {
+    for (const answer of ["the whole day", "all day", "whole day, please"]) {
+      const script: Turn[] = [
+        ...greeting,
+        { user: "aya on friday" },
+        { system: "Nayat Astaiza Soriano on Friday the 31st of January, and will it take the whole day?" },
+        { user: answer },
+        { system: "Ok, you will take the whole day." },
+        {
+          system: "Do you want me to create an appointment with Nayat Astaiza Soriano on Friday the 31st of January for the whole day?",
+        },
+      ];
+      const run = await runScript(script);
+
+      expect(run.transcript).toEqual(script);
+      expect(run.context).toMatchObject({ yesno: true, time: null });
+    }
+  });
+
+  it("understands the slots inside longer answers", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "I'm meeting Matteo." },
+      { system: "Matteo Ripamonti, and on which day?" },
+      { user: "On Wednesday, please" },
+      { system: "Wednesday the 29th of January, and will it take the whole day?" },
+      { user: "No, just a couple of hours" },
+      { system: "Ok, the meeting will not be the whole day." },
+      { system: "What time is your meeting?" },
+      { user: "let's say at 16" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript.slice(0, script.length)).toEqual(script);
+    expect(run.context).toMatchObject({
+      person: ["Matteo Ripamonti"],
+      day: { year: 2025, month: 1, day: 29 },
+      time: { hour: 16, minute: 0 },
+    });
+  });
+
+  it("fills every slot given in one answer and skips their questions", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Friday at 10 until noon" },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on Friday the 31st of January at 10 am for 2 hours?",
+      },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.path).toEqual([
+      "Prepare",
+      "WaitToStart",
+      "Greeting",
+      "ListenIntent",
+      "AskPerson",
+      "ListenPerson",
+      "CheckAvailability",
+      "ConfirmAppointment",
+      "ListenConfirm",
+    ]);
+    expect(run.context).toMatchObject({
+      person: ["Vladislav Maraev"],
+      day: { year: 2025, month: 1, day: 31 },
+      time: { hour: 10, minute: 0 },
+      duration: { until: { hour: 12, minute: 0 } },
+      yesno: false,
+    });
+  });
+
+  it("asks only for what is still missing", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "on Tuesday" },
+      { system: "Tuesday the 4th of February, and who are you meeting with?" },
+      { user: "victoria" },
+      { system: "Victoria Daniilidou, and will it take the whole day?" },
+      { user: "no, at 11" },
+      { system: "Ok, the meeting will not be the whole day." },
+      { system: "At 11 am, and how long will it last?" },
+      // without an answer, the meeting lasts an hour
+      { noInput: true },
+      {
+        system:
+          "Do you want me to create an appointment with Victoria Daniilidou on Tuesday the 4th of February at 11 am for an hour?",
+      },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+  });
+
+  it("understands relative dates and times against the given now", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Lou, tomorrow at quarter to ten for half an hour" },
+      {
+        system:
+          "Do you want me to create an appointment with Lou Reed on Saturday the 1st of March at 9:45 am for 30 minutes?",
+      },
+    ];
+    // Friday the 28th of February 2025
+    const run = await runScript(script, { now: new Date(2025, 1, 28, 17, 0) });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({
+      day: { year: 2025, month: 3, day: 1 },
+      time: { hour: 9, minute: 45 },
+    });
+  });
+
+  it("asks again after no input or an unknown answer", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { noInput: true },
+      { system: "I didn't hear you. Who will you meet?" },
+      { user: "somebody else" },
+      { system: "Sorry, I didn't understand. You can say a name such as Vlad or Aya." },
+      { user: "lou" },
+      { system: "Lou Reed, and on which day?" },
+      { user: "someday" },
+      { system: "Sorry, I didn't understand. On which day is the meeting?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: ["Lou Reed"], day: null });
+  });
+
+  it("asks which part is wrong when the appointment is rejected", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "david bowie" },
+      { system: "David Bowie, and on which day?" },
+      { user: "sunday" },
+      { system: "Sunday the 2nd of February, and will it take the whole day?" },
+      { user: "no" },
+      { system: "Ok, the meeting will not be the whole day." },
+      { system: "What time is your meeting?" },
+      { user: "whenever" },
+      { system: "Sorry, I didn't understand. At what time does the meeting start?" },
+      { user: "20" },
+      { system: "At 8 pm, and how long will it last?" },
+      { user: "90 minutes" },
+      {
+        system:
+          "Do you want me to create an appointment with David Bowie on Sunday the 2nd of February at 8 pm for an hour and a half?",
+      },
+      { user: "no way" },
+      { system: "Which part is wrong: the person, the day, the time or the length?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: ["David Bowie"], time: { hour: 20, minute: 0 } });
+  });
+});
+
+describe("corrections during the confirmation", () => {
+  const booked: Turn[] = [
+    ...greeting,
+    { user: "Vlad on Monday at 10 for an hour" },
+    {
+      system:
+        "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 10 am for an hour?",
+    },
+  ];
+
+  it("changes only the day and confirms again", async () => {
+    const appointments: Appointment[] = [];
+    const script: Turn[] = [
+      ...booked,
+      { user: "no, on Tuesday" },
+      {
+        system: "Do you want me to create an appointment with Vladislav Maraev on Tuesday the 4th of February at 10 am for an hour?",
+      },
+      { user: "yes" },
+      { system: "Your appointment has been created!" },
+      ...greeting,
+    ];
+    const run = await runScript(script, { store: createMemoryStore(appointments) });
+
+    expect(run.transcript).toEqual(script);
+    expect(appointments).toMatchObject([
+      { people: ["Vladislav Maraev"], date: { year: 2025, month: 2, day: 4 }, time: { hour: 10, minute: 0 } },
+    ]);
+  });
+
+  it("changes the time", async () => {
+    const script: Turn[] = [
+      ...booked,
+      { user: "change the time to 11" },
+      {
+        system: "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 11 am for an hour?",
+      },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: ["Vladislav Maraev"], yesno: false });
+  });
+
+  it("asks again for the part named after a plain no", async () => {
+    const script: Turn[] = [
+      ...booked,
+      { user: "no" },
+      { system: "Which part is wrong: the person, the day, the time or the length?" },
+      { user: "the person" },
+      { system: "Who are you meeting with?" },
+      { user: "Aya" },
+      {
+        system: "Do you want me to create an appointment with Nayat Astaiza Soriano on Monday the 3rd of February at 10 am for an hour?",
+      },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+  });
+
+  it("takes the right value given instead of the part", async () => {
+    const script: Turn[] = [
+      ...booked,
+      { user: "no" },
+      { system: "Which part is wrong: the person, the day, the time or the length?" },
+      { user: "the time should be 3 pm" },
+      {
+        system: "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 3 pm for an hour?",
+      },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+  });
+});
+
+describe("several participants", () => {
+  it("books a meeting with several people", async () => {
+    const appointments: Appointment[] = [];
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad, Aya and Lou" },
+      { system: "Vladislav Maraev, Nayat Astaiza Soriano and Lou Reed, and on which day?" },
+      { user: "Friday" },
+      { system: "Friday the 31st of January, and will it take the whole day?" },
+      { user: "yes" },
+      { system: "Ok, you will take the whole day." },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev, Nayat Astaiza Soriano and Lou Reed on Friday the 31st of January for the whole day?",
+      },
+      { user: "yes" },
+      { system: "Your appointment has been created!" },
+      ...greeting,
+    ];
+    const run = await runScript(script, { store: createMemoryStore(appointments) });
+
+    expect(run.transcript).toEqual(script);
+    expect(appointments).toMatchObject([
+      { people: ["Vladislav Maraev", "Nayat Astaiza Soriano", "Lou Reed"], wholeDay: true },
+    ]);
+  });
+
+  it("adds and removes people during the confirmation", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad and Lou on Monday at 10 for an hour" },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev and Lou Reed on Monday the 3rd of February at 10 am for an hour?",
+      },
+      { user: "also invite Aya and Lou" },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev, Lou Reed and Nayat Astaiza Soriano on Monday the 3rd of February at 10 am for an hour?",
+      },
+      { user: "not Vlad" },
+      {
+        system:
+          "Do you want me to create an appointment with Lou Reed and Nayat Astaiza Soriano on Monday the 3rd of February at 10 am for an hour?",
+      },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+  });
+
+  it("asks again for the person once everyone is removed", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Monday at 10 for an hour" },
+      {
+        system: "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 10 am for an hour?",
+      },
+      { user: "without Vlad" },
+      { system: "Who are you meeting with?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: null, time: { hour: 10, minute: 0 } });
+  });
+
+  it("asks which person is meant by a shared first name", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad and David" },
+      { system: "Which David do you mean: David Bowie or David Lynch?" },
+      { user: "I don't know" },
+      { system: "Which David do you mean: David Bowie or David Lynch?" },
+      { user: "Lynch" },
+      { system: "Vladislav Maraev and David Lynch, and on which day?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: ["Vladislav Maraev", "David Lynch"], unresolvedName: null });
+  });
+});
+
+describe("names spelled differently", () => {
+  it("checks a guessed name and goes on when it is right", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Aja" },
+      { system: "Did you mean Nayat Astaiza Soriano?" },
+      { user: "yes" },
+      { system: "Which day do you want the meeting?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: ["Nayat Astaiza Soriano"] });
+  });
+
+  it("checks the guess together with the rest of the answer", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "flat on Friday" },
+      { system: "Did you mean Vladislav Maraev on Friday the 31st of January?" },
+      { user: "no" },
+      { system: "Who are you meeting with?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: null, day: null, guess: null });
+  });
+});
+
+describe("contacts", () => {
+  it("says the names with their pronunciation when asked to", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad" },
+      { system: "Vladislav Mah-rah-yev, and on which day?" },
+    ];
+    const run = await runScript(script, { pronounce: true });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({
+      person: ["Vladislav Maraev"],
+      lastPrompt: "Vladislav Maraev, and on which day?",
+    });
+  });
+});
+
+describe("speech markup", () => {
+  it("sends the prompts as SSML when asked to, and remembers them with their markup", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on monday at 10 for an hour" },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on " +
+          '<emphasis level="moderate">Monday the 3rd of February</emphasis> at ' +
+          '<emphasis level="moderate"><say-as interpret-as="time" format="hms12">10 am</say-as></emphasis> for an hour?',
+      },
+    ];
+    const run = await runScript(script, { ssml: true });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context.lastPrompt).toBe(
+      "Do you want me to create an appointment with Vladislav Maraev on *Monday the 3rd of February* at *[time 10 am]* " +
+        "for an hour?",
+    );
+  });
+});
+
+describe("languages", () => {
+  it("holds the whole dialogue in Swedish", async () => {
+    const script: Turn[] = [
+      { system: "Hej! Vill du boka ett möte, höra vad du har en dag, eller flytta eller avboka ett möte?" },
+      { user: "boka ett möte" },
+      { system: "Vem ska du träffa?" },
+      { user: "Vlad på måndag" },
+      { system: "Vladislav Maraev på måndag den 3 februari, och tar det hela dagen?" },
+      { user: "nej, halv tre" },
+      { system: "Okej, det tar inte hela dagen." },
+      { system: "Klockan 14:30, och hur länge ska det hålla på?" },
+      { user: "en och en halv timme" },
+      {
+        system:
+          "Vill du att jag bokar ett möte med Vladislav Maraev på måndag den 3 februari klockan 14:30 i en och en halv timme?",
+      },
+      { user: "ja" },
+      { system: "Ditt möte är bokat!" },
+      { system: "Hej! Vill du boka ett möte, höra vad du har en dag, eller flytta eller avboka ett möte?" },
+    ];
+    const run = await runScript(script, { locale: "sv-SE" });
+
+    expect(run.transcript).toEqual(script);
+  });
+
+  it("understands the Italian words for people, days and times", async () => {
+    const script: Turn[] = [
+      {
+        system: "Ciao! Vuoi fissare un appuntamento, sapere cosa hai in un giorno, oppure spostarne o cancellarne uno?",
+      },
+      { user: "fissa un appuntamento" },
+      { system: "Con chi hai l'appuntamento?" },
+      { user: "Aya e Lou domani alle tre e mezza per un'ora" },
+      {
+        system:
+          "Vuoi che crei un appuntamento con Nayat Astaiza Soriano e Lou Reed giovedì 30 gennaio alle 15:30 per un'ora?",
+      },
+    ];
+    const run = await runScript(script, { locale: "it-IT" });
+
+    expect(run.transcript).toEqual(script);
+  });
+
+  it("switches to the language the user names, and asks the question again in it", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad" },
+      { system: "Vladislav Maraev, and on which day?" },
+      { user: "can you speak Swedish" },
+      { system: "Okej, nu pratar jag svenska." },
+      { system: "Vilken dag vill du ha mötet?" },
+      { user: "engelska" },
+      { system: "Okay, I will speak English." },
+      { system: "Which day do you want the meeting?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.path).toContain("LanguageSwitched");
+    expect(run.context).toMatchObject({ locale: "en-US", person: ["Vladislav Maraev"] });
+  });
+});
+
+describe("barge-in", () => {
+  const booking: Turn[] = [
+    ...greeting,
+    { user: "Vlad on Monday at 10 for an hour", bargeIn: true },
+    {
+      system:
+        "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 10 am for an hour?",
+    },
+  ];
+  const whichPart: Turn = { system: "Which part is wrong: the person, the day, the time or the length?" };
+
+  it("handles an answer said during the prompt as if the prompt had been said to the end", async () => {
+    const script: Turn[] = [
+      ...booking,
+      { user: "yes", bargeIn: true },
+      { system: "Your appointment has been created!" },
+      ...greeting,
+    ];
+    const run = await runScript(script, { bargeIn: true });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.path).toEqual([
+      "Prepare",
+      "WaitToStart",
+      "Greeting",
+      "ListenIntent",
+      "AskPerson",
+      "ListenPerson",
+      "CheckAvailability",
+      "ConfirmAppointment",
+      "ListenConfirm",
+      "SaveAppointment",
+      "CheckConfirmation",
+      "Greeting",
+      "ListenIntent",
+      "AskPerson",
+      "ListenPerson",
+    ]);
+  });
+
+  it("tracks whether the prompt was heard to the end", async () => {
+    const interrupted = await runScript([...booking, { user: "no", bargeIn: true }, whichPart], { bargeIn: true });
+    const heard = await runScript([...booking, { user: "no" }, whichPart], { bargeIn: true });
+
+    expect(interrupted.context.promptHeard).toBe(false);
+    expect(heard.context.promptHeard).toBe(true);
+  });
+
+  it("waits for the end of the prompt unless barge-in is asked for", async () => {
+    const script: Turn[] = [...booking, { user: "no", bargeIn: true }, whichPart];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context.promptHeard).toBe(true);
+  });
+
+  it("listens after the prompt with speechstate, which cannot listen while it speaks", async () => {
+    const script: Turn[] = [...booking, { user: "no" }, whichPart];
+    const run = await runScript(script, { speechstate: true });
+
+    expect(run.transcript).toEqual(script);
+  });
+
+  it("would never listen with speechstate if barge-in was on, which is why the page refuses it", async () => {
+    const run = await runScript(booking, { speechstate: true, bargeIn: true });
+
+    expect(run.transcript).toEqual([greeting[0]]);
+    expect(run.path[run.path.length - 1]).toBe("ListenIntent");
+  });
+});
+
+describe("resuming a saved session", () => {
+  const resume = {
+    savedAt: "2025-01-29T08:55:00.000Z",
+    locale: "en-US" as const,
+    values: {
+      person: ["Vladislav Maraev"],
+      day: { year: 2025, month: 2, day: 3 },
+      time: null,
+      duration: null,
+      recurrence: null,
+      yesno: false,
+      filled: ["person" as const, "day" as const, "yesno" as const],
+      skipped: [],
+    },
+  };
+  const question: Turn = {
+    system: "We were booking a meeting with Vladislav Maraev on Monday the 3rd of February, shall we continue?",
+  };
+
+  it("goes on with the saved values at the question still missing", async () => {
+    const script: Turn[] = [question, { user: "yes" }, { system: "What time is your meeting?" }];
+    const run = await runScript(script, { resume });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: ["Vladislav Maraev"], yesno: false, resume: null });
+  });
+
+  it("starts a new booking when the user does not want to go on", async () => {
+    const script: Turn[] = [question, { user: "no" }, ...greeting];
+    const run = await runScript(script, { resume });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: null, day: null, resume: null });
+  });
+
+  it("asks again in the language the user switches to", async () => {
+    const script: Turn[] = [
+      question,
+      { user: "svenska" },
+      { system: "Okej, nu pratar jag svenska." },
+      { system: "Vi höll på att boka ett möte med Vladislav Maraev på måndag den 3 februari, ska vi fortsätta?" },
+    ];
+    const run = await runScript(script, { resume });
+
+    expect(run.transcript).toEqual(script);
+  });
+
+  it("goes on in the language the session was saved in", async () => {
+    const script: Turn[] = [
+      { system: "Vi höll på att boka ett möte med Vladislav Maraev på måndag den 3 februari, ska vi fortsätta?" },
+    ];
+    const run = await runScript(script, { resume: { ...resume, locale: "sv-SE" } });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context.locale).toBe("sv-SE");
+  });
+});
+
+describe("reprompts", () => {
+  it("escalates from a rephrase to an example and to help", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad" },
+      { system: "Vladislav Maraev, and on which day?" },
+      { user: "whenever" },
+      { system: "Sorry, I didn't understand. On which day is the meeting?" },
+      { noInput: true },
+      { system: "I didn't hear you. You can say a day such as tomorrow, next Tuesday or the 3rd of March." },
+      { user: "I don't know" },
+      {
+        system:
+          "Sorry, I didn't understand. I need the day of the meeting. Say a weekday, like Monday, or a date, like the 21st of February.",
+      },
+      { user: "friday" },
+      { system: "Friday the 31st of January, and will it take the whole day?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context.failures.day).toEqual({ noInput: 1, noMatch: 2 });
+  });
+
+  it("offers to start over after too many failures", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { noInput: true },
+      { system: "I didn't hear you. Who will you meet?" },
+      { user: "hmm" },
+      { system: "Sorry, I didn't understand. You can say a name such as Vlad or Aya." },
+      { noInput: true },
+      { system: "Sorry, we don't seem to get anywhere. Do you want to start over?" },
+      { user: "yes" },
+      ...greeting,
+    ];
+    const run = await runScript(script, { maxReprompts: 2 });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context.failures).toEqual({});
+  });
+
+  it("ends the dialogue if the user does not want to start over", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "hmm" },
+      { system: "Sorry, we don't seem to get anywhere. Do you want to start over?" },
+      { noInput: true },
+      { system: "Okay. Goodbye!" },
+    ];
+    const run = await runScript(script, { maxReprompts: 0 });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.path[run.path.length - 1]).toBe("Done");
+  });
+
+  it("gives up after too many failures at the greeting", async () => {
+    const intents =
+      "You can say book a meeting, what do I have on Friday, move my meeting with Lou to 3, or cancel Monday's meeting.";
+    const script: Turn[] = [
+      greeting[0],
+      { noInput: true },
+      { system: intents },
+      { user: "blah" },
+      { system: intents },
+      { noInput: true },
+      { system: "Sorry, we don't seem to get anywhere. Do you want to start over?" },
+    ];
+    const run = await runScript(script, { maxReprompts: 2 });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context.failures.intent).toEqual({ noInput: 1, noMatch: 1 });
+  });
+
+  it("gives up after too many answers we did not understand to the confirmation", async () => {
+    const confirmation =
+      "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 10 am for an hour?";
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Monday at 10 for an hour" },
+      { system: confirmation },
+      { user: "blah" },
+      { system: confirmation },
+      { noInput: true },
+      { system: confirmation },
+      { user: "blah" },
+      { system: "Sorry, we don't seem to get anywhere. Do you want to start over?" },
+    ];
+    const run = await runScript(script, { maxReprompts: 2 });
+
+    expect(run.transcript).toEqual(script);
+  });
+
+  it("keeps what it heard while checking it again after no input", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Friday", confidence: 0.6 },
+      { system: "Vladislav Maraev on Friday the 31st of January, is that right?" },
+      { noInput: true },
+      { system: "Vladislav Maraev on Friday the 31st of January, is that right?" },
+      { user: "yes" },
+      { system: "Will it take the whole day?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+  });
+});
+
+describe("global commands", () => {
+  it("repeats the last prompt and listens again", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad" },
+      { system: "Vladislav Maraev, and on which day?" },
+      { user: "could you repeat that?" },
+      { system: "Vladislav Maraev, and on which day?" },
+      { user: "friday" },
+      { system: "Friday the 31st of January, and will it take the whole day?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.path).toContain("Repeat");
+  });
+
+  it("explains what can be said, then asks again", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "help" },
+      {
+        system:
+          "You can answer the question, or say repeat that, go back, start over or cancel. Who are you meeting with?",
+      },
+      { user: "what can I say" },
+      {
+        system:
+          "You can answer the question, or say repeat that, go back, start over or cancel. Who are you meeting with?",
+      },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.path[run.path.length - 1]).toBe("ListenPerson");
+  });
+
+  it("goes back to the question of the last slot filled", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Friday at 10" },
+      { system: "Vladislav Maraev on Friday the 31st of January at 10 am, and how long will it last?" },
+      { user: "go back" },
+      { system: "What time is your meeting?" },
+      { user: "undo" },
+      { system: "Which day do you want the meeting?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: ["Vladislav Maraev"], day: null, time: null });
+  });
+
+  it("starts over from the greeting", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad" },
+      { system: "Vladislav Maraev, and on which day?" },
+      { user: "let's start over" },
+      ...greeting,
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: null });
+  });
+
+  it("cancels in any listening state", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Friday at 10 for an hour" },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on Friday the 31st of January at 10 am for an hour?",
+      },
+      { user: "cancel" },
+      { system: "Okay. Goodbye!" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.path[run.path.length - 1]).toBe("Done");
+    expect(run.context).toMatchObject({ person: null, day: null, time: null });
+  });
+});
+
+describe("grounding by recognition confidence", () => {
+  it("accepts a confident answer and acknowledges it in the next question", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad", confidence: 0.9 },
+      { system: "Vladislav Maraev, and on which day?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: ["Vladislav Maraev"] });
+  });
+
+  it("checks an answer of medium confidence with the user", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Friday", confidence: 0.6 },
+      { system: "Vladislav Maraev on Friday the 31st of January, is that right?" },
+      { user: "yes" },
+      { system: "Will it take the whole day?" },
+      { user: "no, at 10", confidence: 0.7 },
+      { system: "Ok, the meeting will not be the whole day." },
+      { system: "At 10 am, is that right?" },
+      { user: "no" },
+      { system: "Will it take the whole day?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.path).toContain("CheckHeard");
+    expect(run.context).toMatchObject({
+      person: ["Vladislav Maraev"],
+      day: { year: 2025, month: 1, day: 31 },
+      time: null,
+      yesno: null,
+    });
+  });
+
+  it("asks again after an answer of low confidence", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "lou", confidence: 0.2 },
+      { system: "Sorry, I didn't catch that." },
+      { system: "Who are you meeting with?" },
+      { user: "on Monday", confidence: 0.3 },
+      { system: "Sorry, I didn't catch that." },
+      { system: "Who are you meeting with?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: null, day: null });
+  });
+
+  it("uses the thresholds given in the input", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "lou", confidence: 0.9 },
+      { system: "Lou Reed, is that right?" },
+    ];
+    const run = await runScript(script, { grounding: { accept: 0.95, confirm: 0.4 } });
+
+    expect(run.transcript).toEqual(script);
+  });
+});
+
+describe("N-best hypotheses", () => {
+  it("uses the hypothesis which answers the question", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      {
+        user: [
+          { utterance: "flat", confidence: 0.9 },
+          { utterance: "vlad", confidence: 0.85 },
+        ],
+      },
+      { system: "Vladislav Maraev, and on which day?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context.lastResult![0].utterance).toBe("vlad");
+  });
+
+  it("asks which name was meant when the hypotheses disagree", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      {
+        user: [
+          { utterance: "vlad", confidence: 0.6 },
+          { utterance: "lou", confidence: 0.55 },
+        ],
+      },
+      { system: "Did you mean Vladislav Maraev or Lou Reed?" },
+      { user: "Lou" },
+      { system: "Lou Reed, and on which day?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: ["Lou Reed"], alternatives: [] });
+  });
+
+  it("asks the question again when the clarification is not answered", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "vlad" },
+      { system: "Vladislav Maraev, and on which day?" },
+      { noInput: true },
+      { system: "I didn't hear you. On which day is the meeting?" },
+      {
+        user: [
+          { utterance: "on Monday", confidence: 0.9 },
+          { utterance: "on Sunday", confidence: 0.8 },
+        ],
+      },
+      { system: "Did you mean Monday the 3rd of February or Sunday the 2nd of February?" },
+      { noInput: true },
+      { system: "Which day do you want the meeting?" },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ day: null });
+  });
+});
+
+describe("conflicts with existing appointments", () => {
+  const existing = (): Appointment[] => [
+    {
+      id: "lou",
+      people: ["Lou Reed"],
+      date: { year: 2025, month: 2, day: 3 },
+      time: { hour: 10, minute: 0 },
+      wholeDay: false,
+      created: "2025-01-28T12:00:00.000Z",
+    },
+    {
+      id: "david",
+      people: ["David Bowie"],
+      date: { year: 2025, month: 2, day: 4 },
+      time: null,
+      wholeDay: true,
+      created: "2025-01-28T12:00:00.000Z",
+    },
+  ];
+
+  it("offers the nearest free time and books it when accepted", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Monday at 10:30 for an hour" },
+      {
+        system:
+          "You already meet Lou Reed at 10 am on Monday the 3rd of February. The nearest free time that day is 11 am. Shall I book it then?",
+      },
+      { user: "yes" },
+      {
+        system: "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 11 am for an hour?",
+      },
+    ];
+    const run = await runScript(script, { store: createMemoryStore(existing()) });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.path.slice(-5)).toEqual([
+      "CheckAvailability",
+      "AnnounceConflict",
+      "ListenConflict",
+      "ConfirmAppointment",
+      "ListenConfirm",
+    ]);
+    expect(run.context).toMatchObject({ time: { hour: 11, minute: 0 }, conflict: null });
+  });
+
+  it("lets the user pick another time", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Monday at 10 for an hour" },
+      {
+        system:
+          "You already meet Lou Reed at 10 am on Monday the 3rd of February. The nearest free time that day is 11 am. Shall I book it then?",
+      },
+      { user: "no" },
+      { system: "What time is your meeting?" },
+      { user: "9:30" },
+      {
+        system: "You already meet Lou Reed at 10 am on Monday the 3rd of February. The nearest free time that day is 9 am. Shall I book it then?",
+      },
+      { user: "no, at 2 pm" },
+      {
+        system: "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 2 pm for an hour?",
+      },
+    ];
+    const run = await runScript(script, { store: createMemoryStore(existing()) });
+
+    expect(run.transcript).toEqual(script);
+  });
+
+  it("looks for a free time as long as the meeting", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Monday at 9 for two hours" },
+      {
+        system:
+          "You already meet Lou Reed at 10 am on Monday the 3rd of February. The nearest free time that day is 8 am. Shall I book it then?",
+      },
+    ];
+    const run = await runScript(script, { store: createMemoryStore(existing()) });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context.duration).toEqual({ minutes: 120 });
+  });
+
+  it("offers the next free day for a whole-day appointment", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Aya on Tuesday" },
+      { system: "Nayat Astaiza Soriano on Tuesday the 4th of February, and will it take the whole day?" },
+      { user: "yes" },
+      { system: "Ok, you will take the whole day." },
+      {
+        system:
+          "You already meet David Bowie on Tuesday the 4th of February for the whole day. The next free day is Wednesday the 5th of February. Shall I book it then?",
+      },
+      { user: "sure" },
+      {
+        system:
+          "Do you want me to create an appointment with Nayat Astaiza Soriano on Wednesday the 5th of February for the whole day?",
+      },
+    ];
+    const run = await runScript(script, { store: createMemoryStore(existing()) });
+
+    expect(run.transcript).toEqual(script);
+  });
+
+  it("does not book the same meeting twice", async () => {
+    const store = createMemoryStore();
+    const booking: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Monday at 10 for an hour" },
+      {
+        system: "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 10 am for an hour?",
+      },
+      { user: "yes" },
+      { system: "Your appointment has been created!" },
+      ...greeting,
+    ];
+    await runScript(booking, { store });
+    const again = await runScript(booking.slice(0, 4), { store });
+
+    expect(again.transcript[again.transcript.length - 1]).toEqual({
+      system:
+        "You already meet Vladislav Maraev at 10 am on Monday the 3rd of February. The nearest free time that day is 11 am. Shall I book it then?",
+    });
+  });
+});
+
+describe("managing appointments", () => {
+  const hello: Turn = {
+    system: "Hi! Do you want to book a meeting, hear what you have on a day, or move or cancel a meeting?",
+  };
+  const existing = (): Appointment[] => [
+    {
+      id: "lou",
+      people: ["Lou Reed"],
+      date: { year: 2025, month: 2, day: 3 },
+      time: { hour: 10, minute: 0 },
+      wholeDay: false,
+      created: "2025-01-28T12:00:00.000Z",
+    },
+    {
+      id: "aya",
+      people: ["Nayat Astaiza Soriano"],
+      date: { year: 2025, month: 2, day: 3 },
+      time: { hour: 9, minute: 0 },
+      wholeDay: false,
+      created: "2025-01-28T12:00:00.000Z",
+    },
+    {
+      id: "david",
+      people: ["David Bowie"],
+      date: { year: 2025, month: 2, day: 4 },
+      time: null,
+      wholeDay: true,
+      created: "2025-01-28T12:00:00.000Z",
+    },
+  ];
+
+  it("tells the user which meetings they have on a day", async () => {
+    const script: Turn[] = [
+      hello,
+      { user: "what do I have on Monday" },
+      {
+        system:
+          "You have 2 meetings on Monday the 3rd of February: with Nayat Astaiza Soriano at 9 am and with Lou Reed at 10 am. Anything else?",
+      },
+      { user: "when do I meet David" },
+      {
+        system:
+          "You have a meeting: with David Bowie on Tuesday the 4th of February for the whole day. Anything else?",
+      },
+      { user: "no" },
+      { system: "Okay. Goodbye!" },
+    ];
+    const run = await runScript(script, { store: createMemoryStore(existing()) });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.path).toContain("TellAgenda");
+  });
+
+  it("moves a meeting once the user confirms it", async () => {
+    const appointments = existing();
+    const script: Turn[] = [
+      hello,
+      { user: "move my meeting with Lou to 3 pm" },
+      {
+        system:
+          "Do you want me to move your meeting with Lou Reed on Monday the 3rd of February at 10 am to Monday the 3rd of February at 3 pm?",
+      },
+      { user: "yes" },
+      { system: "Your meeting has been moved. Anything else?" },
+    ];
+    const run = await runScript(script, { store: createMemoryStore(appointments) });
+
+    expect(run.transcript).toEqual(script);
+    expect(appointments.find((appointment) => appointment.id === "lou")).toMatchObject({
+      date: { year: 2025, month: 2, day: 3 },
+      time: { hour: 15, minute: 0 },
+    });
+  });
+
+  it("asks where the meeting goes again when it would clash", async () => {
+    const script: Turn[] = [
+      hello,
+      { user: "reschedule Lou's meeting" },
+      { system: "When do you want to move it to?" },
+      { user: "to Tuesday" },
+      {
+        system:
+          "You already meet David Bowie on Tuesday the 4th of February for the whole day. When do you want to move it to?",
+      },
+      { user: "Thursday" },
+      {
+        system:
+          "Do you want me to move your meeting with Lou Reed on Monday the 3rd of February at 10 am to Thursday the 30th of January at 10 am?",
+      },
+    ];
+    const run = await runScript(script, { store: createMemoryStore(existing()) });
+
+    expect(run.transcript).toEqual(script);
+  });
+
+  it("asks which meeting to cancel, and leaves the calendar as it is until the user confirms", async () => {
+    const appointments = existing();
+    const script: Turn[] = [
+      hello,
+      { user: "cancel my meeting" },
+      { system: "Which meeting do you mean? Say who it is with, or its day." },
+      { user: "Monday" },
+      {
+        system:
+          "Which one do you mean: with Nayat Astaiza Soriano on Monday the 3rd of February at 9 am or with Lou Reed on Monday the 3rd of February at 10 am?",
+      },
+      { user: "the one with Aya" },
+      {
+        system:
+          "Do you want me to cancel your meeting with Nayat Astaiza Soriano on Monday the 3rd of February at 9 am?",
+      },
+      { user: "no" },
+      { system: "Okay, I will leave it as it is. Anything else?" },
+      { user: "cancel Monday's meeting with Aya" },
+      {
+        system:
+          "Do you want me to cancel your meeting with Nayat Astaiza Soriano on Monday the 3rd of February at 9 am?",
+      },
+      { user: "yes" },
+      { system: "Your meeting has been cancelled. Anything else?" },
+    ];
+    const run = await runScript(script, { store: createMemoryStore(appointments) });
+
+    expect(run.transcript).toEqual(script);
+    expect(appointments.map((appointment) => appointment.id)).toEqual(["lou", "david"]);
+  });
+});
+
+describe("availability policy", () => {
+  const policy = readPolicy({
+    workingHours: {
+      monday: ["08:00", "18:00"],
+      tuesday: ["08:00", "18:00"],
+      wednesday: ["08:00", "18:00"],
+      thursday: ["08:00", "18:00"],
+      friday: ["08:00", "16:00"],
+    },
+    people: { "Nayat Astaiza Soriano": { daysOff: ["friday"] } },
+    minimumNotice: 60,
+  });
+
+  it("explains why the person cannot meet that day, and books the day offered instead", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Aya on Friday at 10 for an hour" },
+      { system: "Nayat Astaiza Soriano doesn't work on Fridays. How about Monday the 3rd of February?" },
+      { user: "yes" },
+      {
+        system:
+          "Do you want me to create an appointment with Nayat Astaiza Soriano on Monday the 3rd of February at 10 am for an hour?",
+      },
+    ];
+    const run = await runScript(script, { policy });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.path).toContain("Unavailable");
+  });
+
+  it("offers the nearest time within the working hours, and takes another one instead", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Friday at 5 pm for an hour" },
+      { system: "Meetings that day must be between 8 am and 4 pm. How about 3 pm?" },
+      { user: "no, at 2" },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on Friday the 31st of January at 2 pm for an hour?",
+      },
+    ];
+    const run = await runScript(script, { policy });
+
+    expect(run.transcript).toEqual(script);
+  });
+
+  it("keeps the whole meeting within the working hours", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Friday at 2 pm for three hours" },
+      { system: "Meetings that day must be between 8 am and 4 pm. How about 1 pm?" },
+    ];
+    const run = await runScript(script, { policy });
+
+    expect(run.transcript).toEqual(script);
+  });
+
+  it("asks for the day again when the one offered is refused", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Sunday" },
+      { system: "There are no meetings on Sundays. How about Monday the 3rd of February?" },
+      { user: "no" },
+      { system: "Which day do you want the meeting?" },
+    ];
+    const run = await runScript(script, { policy });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ person: ["Vladislav Maraev"], day: null });
+  });
+
+  it("checks the new day of a meeting which is moved", async () => {
+    const lou: Appointment = {
+      id: "lou",
+      people: ["Lou Reed"],
+      date: { year: 2025, month: 2, day: 3 },
+      time: { hour: 10, minute: 0 },
+      wholeDay: false,
+      created: "2025-01-28T12:00:00.000Z",
+    };
+    const script: Turn[] = [
+      { system: "Hi! Do you want to book a meeting, hear what you have on a day, or move or cancel a meeting?" },
+      { user: "move my meeting with Lou to Sunday" },
+      { system: "There are no meetings on Sundays. When do you want to move it to?" },
+    ];
+    const run = await runScript(script, { policy, store: createMemoryStore([lou]) });
+
+    expect(run.transcript).toEqual(script);
+  });
+});
+
+describe("meeting duration", () => {
+  it("asks how long the meeting lasts, and asks again when it would end before it starts", async () => {
+    const appointments: Appointment[] = [];
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Monday at 3" },
+      { system: "Vladislav Maraev on Monday the 3rd of February at 3 pm, and how long will it last?" },
+      { user: "until 2" },
+      { system: "The meeting has to end after it starts, at 3 pm." },
+      { system: "How long will the meeting last?" },
+      { user: "until half past five" },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 3 pm for 2 hours and 30 minutes?",
+      },
+      { user: "no, for an hour" },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 3 pm for an hour?",
+      },
+      { user: "yes" },
+      { system: "Your appointment has been created!" },
+      ...greeting,
+    ];
+    const run = await runScript(script, { store: createMemoryStore(appointments) });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.path).toContain("BadDuration");
+    expect(appointments).toMatchObject([{ time: { hour: 15, minute: 0 }, duration: 60 }]);
+  });
+
+  it("asks for the length again when the user names it as the part which is wrong", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Monday at 10" },
+      { system: "Vladislav Maraev on Monday the 3rd of February at 10 am, and how long will it last?" },
+      { noInput: true },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 10 am for an hour?",
+      },
+      { user: "no" },
+      { system: "Which part is wrong: the person, the day, the time or the length?" },
+      { user: "the length" },
+      { system: "How long will the meeting last?" },
+      { user: "half an hour" },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 10 am for 30 minutes?",
+      },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context.duration).toEqual({ minutes: 30 });
+  });
+
+  it("does not take a yes or a no as the default length", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Monday at 10" },
+      { system: "Vladislav Maraev on Monday the 3rd of February at 10 am, and how long will it last?" },
+      { user: "yes" },
+      { system: "Sorry, I didn't understand. For how long is the meeting?" },
+      { user: "no" },
+      { system: "Sorry, I didn't understand. You can say an hour, 90 minutes or until 3 pm." },
+      { user: "two hours" },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 10 am for 2 hours?",
+      },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context.duration).toEqual({ minutes: 120 });
+  });
+});
+
+describe("recurring meetings", () => {
+  it("books a meeting taking place every other week until a month", async () => {
+    const appointments: Appointment[] = [];
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad every other Friday at 10 until June for an hour" },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on Friday the 31st of January at 10 am for an hour, " +
+          "and then every other Friday until Saturday the 31st of May?",
+      },
+      { user: "yes" },
+      { system: "Your appointment has been created!" },
+      ...greeting,
+    ];
+    const run = await runScript(script, { store: createMemoryStore(appointments) });
+
+    expect(run.transcript).toEqual(script);
+    expect(appointments).toMatchObject([
+      {
+        date: { year: 2025, month: 1, day: 31 },
+        recurrence: {
+          frequency: "weekly",
+          interval: 2,
+          weekday: 5,
+          until: { year: 2025, month: 5, day: 31 },
+          count: null,
+        },
+      },
+    ]);
+  });
+
+  it("takes the day of the week from the first day, and when it stops from a later answer", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad every week" },
+      { system: "Vladislav Maraev every week, and on which day?" },
+      { user: "on Monday" },
+      { system: "Monday the 3rd of February, and will it take the whole day?" },
+      { user: "yes, 10 times" },
+      { system: "Ok, you will take the whole day." },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February for the whole day, " +
+          "and then every Monday, 10 times?",
+      },
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context.recurrence).toEqual({ frequency: "weekly", interval: 1, weekday: null, until: null, count: 10 });
+  });
+
+  const everyMonday = { frequency: "weekly" as const, interval: 1, weekday: 1, until: null, count: null };
+  const lou = (date: number, recurrence?: typeof everyMonday): Appointment => ({
+    id: "lou",
+    people: ["Lou Reed"],
+    date: { year: 2025, month: 2, day: date },
+    time: { hour: 10, minute: 0 },
+    wholeDay: false,
+    created: "2025-01-28T12:00:00.000Z",
+    ...(recurrence && { recurrence }),
+  });
+
+  it("finds a clash with a later time a recurring meeting takes place", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on the 10th of February at 10 for an hour" },
+      {
+        system:
+          "You already meet Lou Reed at 10 am on Monday the 10th of February. The nearest free time that day is 11 am. Shall I book it then?",
+      },
+    ];
+    const run = await runScript(script, { store: createMemoryStore([lou(3, everyMonday)]) });
+
+    expect(run.transcript).toEqual(script);
+  });
+
+  it("finds a clash with a meeting on a later day the new one takes place", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad every Monday at 10 for an hour" },
+      {
+        system:
+          "You already meet Lou Reed at 10 am on Monday the 10th of February. The nearest free time that day is 11 am. Shall I book it then?",
+      },
+    ];
+    const run = await runScript(script, { store: createMemoryStore([lou(10)]) });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context.suggestion).toEqual({ date: { year: 2025, month: 2, day: 3 }, time: { hour: 11, minute: 0 } });
+  });
+
+  it("books a recurring meeting only once when it cannot take place on every day it would", async () => {
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad every day at 10 for an hour starting tomorrow" },
+      {
+        system:
+          "The meeting would also take place on Saturday the 1st of February. There are no meetings on Saturdays. " +
+          "So I can only book it once.",
+      },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on Thursday the 30th of January at 10 am for an hour?",
+      },
+    ];
+    const run = await runScript(script, { policy: readPolicy(availability) });
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context.recurrence).toBeNull();
+  });
+
+  it("asks whether to leave out the holidays of a recurring meeting", async () => {
+    const holiday: Turn = {
+      system:
+        "The meeting would also take place on Monday the 21st of April. Monday the 21st of April is a holiday, " +
+        "Easter Monday. Shall I book it every Monday, except on Monday the 21st of April? If not, I can only book it once.",
+    };
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad every Monday at 9 for an hour" },
+      holiday,
+      { user: "yes" },
+      {
+        system:
+          "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 9 am for an hour, " +
+          "and then every Monday, except on Monday the 21st of April?",
+      },
+      { user: "yes" },
+      { system: "Your appointment has been created!" },
+      greeting[0],
+    ];
+    const store = createMemoryStore();
+    const run = await runScript(script, { store, policy: readPolicy(availability) });
+
+    expect(run.transcript).toEqual(script);
+    const [appointment] = await store.list();
+    expect(appointment.recurrence?.except).toEqual([{ year: 2025, month: 4, day: 21 }]);
+
+    const once: Turn[] = [
+      ...script.slice(0, 5),
+      { user: "no" },
+      {
+        system: "Do you want me to create an appointment with Vladislav Maraev on Monday the 3rd of February at 9 am for an hour?",
+      },
+    ];
+    const refused = await runScript(once, { policy: readPolicy(availability) });
+    expect(refused.transcript).toEqual(once);
+    expect(refused.context.recurrence).toBeNull();
+  });
+
+  it("tells the user that a meeting which does not repeat has no end date", async () => {
+    const confirmation: Turn = {
+      system: "Do you want me to create an appointment with Vladislav Maraev on Friday the 31st of January for the whole day?",
+    };
+    const script: Turn[] = [
+      ...greeting,
+      { user: "Vlad on Friday" },
+      { system: "Vladislav Maraev on Friday the 31st of January, and will it take the whole day?" },
+      { user: "yes" },
+      { system: "Ok, you will take the whole day." },
+      confirmation,
+      { user: "until June" },
+      { system: "The meeting does not repeat, so it cannot have an end date." },
+      confirmation,
+      { user: "yes, until June" },
+      { system: "The meeting does not repeat, so it cannot have an end date." },
+      confirmation,
+    ];
+    const run = await runScript(script);
+
+    expect(run.transcript).toEqual(script);
+    expect(run.context).toMatchObject({ recurrence: null, endWithoutRepeat: false });
+  });
+
+  it("tells the user about a recurring meeting on a later day it takes place", async () => {
+    const script: Turn[] = [
+      { system: "Hi! Do you want to book a meeting, hear what you have on a day, or move or cancel a meeting?" },
+      { user: "what do I have on the 10th of February" },
+      { system: "You have a meeting on Monday the 10th of February: with Lou Reed at 10 am. Anything else?" },
+    ];
+    const run = await runScript(script, { store: createMemoryStore([lou(3, everyMonday)]) });
+
+    expect(run.transcript).toEqual(script);
+  });
+});
@@ -0,0 +1,15 @@
+/*
+A key-value storage backed by a JSON file, to use createStorageStore under Node (where there is no localStorage).
+*/
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { KeyValueStorage } from "../src/calendar";
+
+export function createFileStorage(path: string): KeyValueStorage {
+  const read = (): { [key: string]: string } =>
+    existsSync(path) ? JSON.parse(readFileSync(path, "utf-8")) : {};
+  return {
+    getItem: (key) => read()[key] ?? null,
+    setItem: (key, value) => writeFileSync(path, JSON.stringify({ ...read(), [key]: value })),
+  };
+}
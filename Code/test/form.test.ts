@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { appointmentForm } from "../src/appointment";
+import { Form, formStates, isMissing, nextQuestion } from "../src/form";
+import { DMContext } from "../src/types";
+
+const form: Form = {
+  slots: [
+    {
+      name: "guest",
+      entity: "person",
+      required: true,
+      texts: () => ({ prompt: "Who is coming?", followUp: "and who is coming?", reprompts: ["Who will come?"] }),
+    },
+    {
+      name: "arrival",
+      entity: "time",
+      required: false,
+      condition: (context) => !context.person?.includes("Lou Reed"),
+      texts: () => ({ prompt: "When will they arrive?", followUp: "and when will they arrive?", reprompts: [] }),
+      reply: () => "Noted.",
+    },
+  ],
+  done: "Finish",
+  confirmation: (context) => `Invite ${context.person}?`,
+};
+
+const context = (values: Partial<DMContext>) =>
+  ({ person: null, day: null, time: null, yesno: null, skipped: [], ...values }) as DMContext;
+
+describe("formStates", () => {
+  it("generates Ask, Listen and Check states for the slots", () => {
+    expect(Object.keys(formStates(form))).toEqual([
+      "AskGuest",
+      "ListenGuest",
+      "AskArrival",
+      "ListenArrival",
+      "CheckArrival",
+    ]);
+    expect(Object.keys(formStates(appointmentForm))).toEqual([
+      "AskPerson",
+      "ListenPerson",
+      "AskDay",
+      "ListenDay",
+      "AskFullDay",
+      "ListenFullDay",
+      "CheckFullDay",
+      "AskTime",
+      "ListenTime",
+      "AskDuration",
+      "ListenDuration",
+    ]);
+  });
+
+  it("skips an optional slot which got no answer", () => {
+    const listen = formStates(form).ListenArrival as { on: { ASR_NOINPUT: unknown } };
+    expect(listen.on.ASR_NOINPUT).toEqual([
+      { actions: { type: "skipSlot", params: { question: "arrival" } }, target: "Grounded" },
+    ]);
+  });
+});
+
+describe("nextQuestion", () => {
+  it("goes to the first missing slot, then to the end of the form", () => {
+    expect(nextQuestion(form).map((transition) => transition.target)).toEqual([
+      "AskGuest",
+      "AskArrival",
+      "Finish",
+    ]);
+  });
+
+  it("only asks for a slot whose condition holds and which was not skipped", () => {
+    const [guest, arrival] = form.slots;
+    expect(isMissing(guest, context({}))).toBe(true);
+    expect(isMissing(guest, context({ person: ["Vladislav Maraev"] }))).toBe(false);
+    expect(isMissing(arrival, context({ person: ["Vladislav Maraev"] }))).toBe(true);
+    expect(isMissing(arrival, context({ person: ["Lou Reed"] }))).toBe(false);
+    expect(isMissing(arrival, context({ skipped: ["arrival"] }))).toBe(false);
+  });
+});
@@ -0,0 +1,178 @@
+/*
+A harness to run dmMachine headlessly (under Node, no browser, no Azure).
+
+The speech actor is replaced by a fake one which speaks the speechstate protocol: it answers PREPARE with
+ASRTTS_READY and every SPEAK with SPEAK_COMPLETE, and answers every LISTEN with the next user turn of the script
+(RECOGNISED + LISTEN_COMPLETE, or ASR_NOINPUT + LISTEN_COMPLETE). When the next user turn barges in, SPEAK is
+only answered if the machine does not listen during the prompt; if it does, the user turn interrupts it and
+SPEAK_COMPLETE is never sent. With 'speechstate' in the options, it behaves like the real speechstate instead: a
+prompt takes a moment to say, and a LISTEN sent while it is said is dropped.
+
+A script is the expected dialogue, written as a list of turns:
+
+  { system: "Who are you meeting with?" }   an utterance the system is expected to say
+  { user: "vlad" }                          what the user says (confidence 1)
+  { user: "vlad", confidence: 0.3 }         ... with a given ASR confidence
+  { user: [{ utterance, confidence }, ...] } ... as a full list of hypotheses (N-best)
+  { noInput: true }                         the user says nothing
+  { user: "yes", bargeIn: true }            the user answers before the system has finished its prompt
+
+runScript plays the user turns (and waits for the machine to settle, e.g. while an appointment is saved) and records what actually happened in the same format, so that a test can simply
+compare `transcript` with the script, and also check the `path` of states and the final `context`.
+
+Relative dates are resolved against a fixed "now" (NOW below, a Wednesday) unless another one is given.
+*/
+
+import { AnyActorRef, createActor, fromCallback, InspectionEvent } from "xstate";
+import { Hypothesis, SpeechStateExternalEvent } from "speechstate";
+import { AvailabilityPolicy } from "../src/availability";
+import { CalendarStore } from "../src/calendar";
+import { dmMachine } from "../src/dm";
+import { Locale } from "../src/locale";
+import { SavedSession } from "../src/persistence";
+import { stateName } from "../src/session";
+import { DMContext, GroundingThresholds } from "../src/types";
+
+export type Turn =
+  | { system: string }
+  | { user: string; confidence?: number; bargeIn?: boolean }
+  | { user: Hypothesis[] }
+  | { noInput: true };
+
+export interface DialogueRun {
+  transcript: Turn[];
+  path: string[];
+  context: Omit<DMContext, "spstRef">;
+  actor: AnyActorRef;
+}
+
+// safety net against dialogues that loop without ever listening
+const MAX_TURNS = 100;
+
+// Wednesday the 29th of January 2025, 9:00
+export const NOW = new Date(2025, 0, 29, 9, 0);
+
+export interface RunOptions {
+  now?: Date;
+  store?: CalendarStore;
+  policy?: AvailabilityPolicy;
+  grounding?: GroundingThresholds;
+  maxReprompts?: number;
+  pronounce?: boolean;
+  ssml?: boolean;
+  locale?: Locale;
+  bargeIn?: boolean;
+  // the speech actor cannot listen while it speaks, like speechstate (see ../src/bargein)
+  speechstate?: boolean;
+  resume?: SavedSession;
+  // watches the machine, like the session log of the page (see ../src/session)
+  inspect?: (inspectionEvent: InspectionEvent) => void;
+}
+
+function isUserTurn(turn: Turn) {
+  return "user" in turn || "noInput" in turn;
+}
+
+function toHypotheses(turn: { user: string; confidence?: number } | { user: Hypothesis[] }): Hypothesis[] {
+  if (typeof turn.user === "string") {
+    return [{ utterance: turn.user, confidence: (turn as { confidence?: number }).confidence ?? 1 }];
+  }
+  return turn.user;
+}
+
+export async function runScript(script: Turn[], options: RunOptions = {}): Promise<DialogueRun> {
+  const now = options.now ?? NOW;
+  const userTurns = script.filter(isUserTurn);
+  const transcript: Turn[] = [];
+  const path: string[] = [];
+  // a prompt is being said, which the next user turn interrupts
+  let speaking = false;
+
+  const fakespeech = fromCallback<SpeechStateExternalEvent>(({ sendBack, receive }) => {
+    receive((event) => {
+      if (transcript.length > MAX_TURNS) {
+        return;
+      }
+      switch (event.type) {
+        case "PREPARE":
+          sendBack({ type: "ASRTTS_READY" });
+          break;
+        case "SPEAK":
+          transcript.push({ system: event.value.utterance });
+          if (options.speechstate) {
+            speaking = true;
+            setTimeout(() => {
+              speaking = false;
+              sendBack({ type: "SPEAK_COMPLETE" });
+            });
+          } else if (userTurns[0] && "bargeIn" in userTurns[0] && userTurns[0].bargeIn) {
+            // the machine sends LISTEN at once if it listens during the prompt
+            speaking = true;
+            setTimeout(() => {
+              if (speaking) {
+                speaking = false;
+                sendBack({ type: "SPEAK_COMPLETE" });
+              }
+            });
+          } else {
+            sendBack({ type: "SPEAK_COMPLETE" });
+          }
+          break;
+        case "LISTEN": {
+          if (options.speechstate && speaking) {
+            return;
+          }
+          speaking = false;
+          const turn = userTurns.shift();
+          if (!turn) {
+            // the script is over: the system keeps listening forever
+            return;
+          }
+          transcript.push(turn);
+          if ("noInput" in turn) {
+            sendBack({ type: "ASR_NOINPUT" });
+          } else {
+            sendBack({ type: "RECOGNISED", value: toHypotheses(turn) });
+          }
+          sendBack({ type: "LISTEN_COMPLETE" });
+          break;
+        }
+      }
+    });
+  });
+
+  const actor = createActor(dmMachine.provide({ actors: { speechstate: fakespeech } }), {
+    input: {
+      settings: {},
+      now: () => now,
+      store: options.store,
+      policy: options.policy,
+      grounding: options.grounding,
+      maxReprompts: options.maxReprompts,
+      pronounce: options.pronounce,
+      ssml: options.ssml,
+      locale: options.locale,
+      bargeIn: options.bargeIn,
+      resume: options.resume,
+    },
+    inspect: options.inspect,
+  });
+  actor.subscribe((snapshot) => {
+    const name = stateName(snapshot.value);
+    if (path[path.length - 1] !== name) {
+      path.push(name);
+    }
+  });
+  actor.start();
+  actor.send({ type: "CLICK" });
+
+  // let invoked actors (promises) finish, until nothing happens any more
+  let progress;
+  do {
+    progress = transcript.length + path.length;
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  } while (progress !== transcript.length + path.length);
+
+  const { spstRef, ...context } = actor.getSnapshot().context;
+  return { transcript, path, context, actor };
+}
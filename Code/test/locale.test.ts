@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { lexicon } from "../src/grammar";
+import { bundle, findLocale, Locale } from "../src/locale";
+import { parse } from "../src/parser";
+
+// Wednesday the 29th of January 2025
+const now = new Date(2025, 0, 29, 9, 0);
+
+function slots(utterance: string, locale: Locale) {
+  return parse(utterance, { lexicon: lexicon(locale), dates: bundle(locale).dates, now }).slots;
+}
+
+describe("findLocale", () => {
+  it("accepts a language or a full locale", () => {
+    expect(findLocale("sv")).toBe("sv-SE");
+    expect(findLocale("it-IT")).toBe("it-IT");
+    expect(findLocale("de")).toBeNull();
+    expect(findLocale(null)).toBeNull();
+  });
+});
+
+describe("Swedish", () => {
+  it("understands dates", () => {
+    expect(slots("i morgon", "sv-SE").day).toEqual({ year: 2025, month: 1, day: 30 });
+    expect(slots("på fredag", "sv-SE").day).toEqual({ year: 2025, month: 1, day: 31 });
+    expect(slots("nästa onsdag", "sv-SE").day).toEqual({ year: 2025, month: 2, day: 5 });
+    expect(slots("den 3:e mars", "sv-SE").day).toEqual({ year: 2025, month: 3, day: 3 });
+    expect(slots("tredje mars", "sv-SE").day).toEqual({ year: 2025, month: 3, day: 3 });
+  });
+
+  it("understands times", () => {
+    expect(slots("klockan tio", "sv-SE").time).toEqual({ hour: 10, minute: 0 });
+    expect(slots("halv tre", "sv-SE").time).toEqual({ hour: 14, minute: 30 });
+    expect(slots("kvart i tio", "sv-SE").time).toEqual({ hour: 9, minute: 45 });
+    expect(slots("tio över fyra", "sv-SE").time).toEqual({ hour: 16, minute: 10 });
+  });
+
+  it("understands how long a meeting lasts", () => {
+    expect(slots("en halvtimme", "sv-SE").duration).toEqual({ minutes: 30 });
+    expect(slots("två timmar", "sv-SE").duration).toEqual({ minutes: 120 });
+    expect(slots("fram till tre", "sv-SE").duration).toEqual({ until: { hour: 15, minute: 0 } });
+  });
+
+  it("understands how often a meeting takes place", () => {
+    expect(slots("varannan fredag", "sv-SE")).toMatchObject({
+      day: { year: 2025, month: 1, day: 31 },
+      recurrence: { frequency: "weekly", interval: 2, weekday: 5 },
+    });
+    expect(slots("fram till juni", "sv-SE").recurrenceEnd).toEqual({ until: { year: 2025, month: 5, day: 31 } });
+    expect(slots("tio gånger", "sv-SE").recurrenceEnd).toEqual({ count: 10 });
+  });
+
+  it("understands the phrases of the grammar and the people", () => {
+    expect(slots("nej, Vlad", "sv-SE")).toEqual({ yesno: false, person: "Vladislav Maraev" });
+    expect(slots("börja om", "sv-SE").command).toBe("startOver");
+    expect(slots("engelska", "sv-SE").language).toBe("en-US");
+  });
+
+  it("says dates and times back", () => {
+    const swedish = bundle("sv-SE");
+    expect(swedish.formatDate({ year: 2025, month: 2, day: 3 }, now)).toBe("måndag den 3 februari");
+    expect(swedish.formatTime({ hour: 14, minute: 30 })).toBe("14:30");
+    expect(swedish.formatDuration(90)).toBe("en och en halv timme");
+    const weekly = { frequency: "weekly" as const, interval: 2, weekday: 5, until: null, count: null };
+    expect(swedish.formatRecurrence(weekly, now)).toBe("varannan fredag");
+  });
+});
+
+describe("Italian", () => {
+  it("understands dates", () => {
+    expect(slots("domani", "it-IT").day).toEqual({ year: 2025, month: 1, day: 30 });
+    expect(slots("venerdì", "it-IT").day).toEqual({ year: 2025, month: 1, day: 31 });
+    expect(slots("il 3 marzo", "it-IT").day).toEqual({ year: 2025, month: 3, day: 3 });
+    expect(slots("primo di febbraio", "it-IT").day).toEqual({ year: 2025, month: 2, day: 1 });
+  });
+
+  it("understands times", () => {
+    expect(slots("alle dieci", "it-IT").time).toEqual({ hour: 10, minute: 0 });
+    expect(slots("le tre e mezza", "it-IT").time).toEqual({ hour: 15, minute: 30 });
+    expect(slots("le nove e un quarto di mattina", "it-IT").time).toEqual({ hour: 9, minute: 15 });
+    expect(slots("mezzogiorno", "it-IT").time).toEqual({ hour: 12, minute: 0 });
+  });
+
+  it("understands how long a meeting lasts", () => {
+    expect(slots("per un'ora e mezza", "it-IT").duration).toEqual({ minutes: 90 });
+    expect(slots("mezz'ora", "it-IT").duration).toEqual({ minutes: 30 });
+    expect(slots("fino alle cinque", "it-IT").duration).toEqual({ until: { hour: 17, minute: 0 } });
+  });
+
+  it("understands how often a meeting takes place", () => {
+    expect(slots("tutti i lunedì", "it-IT")).toMatchObject({
+      day: { year: 2025, month: 2, day: 3 },
+      recurrence: { frequency: "weekly", interval: 1, weekday: 1 },
+    });
+    expect(slots("ogni due settimane", "it-IT").recurrence).toMatchObject({ interval: 2, weekday: null });
+    expect(slots("fino a giugno", "it-IT").recurrenceEnd).toEqual({ until: { year: 2025, month: 5, day: 31 } });
+  });
+
+  it("says dates and times back", () => {
+    const italian = bundle("it-IT");
+    expect(italian.formatDate({ year: 2026, month: 2, day: 3 }, now)).toBe("martedì 3 febbraio 2026");
+    expect(italian.formatTime({ hour: 12, minute: 0 })).toBe("mezzogiorno");
+    expect(italian.formatDuration(90)).toBe("un'ora e mezza");
+    const weekly = { frequency: "weekly" as const, interval: 2, weekday: 5, until: null, count: 3 };
+    expect(italian.formatRecurrence(weekly, now)).toBe("ogni 2 settimane, il venerdì, per 3 volte");
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { Appointment } from "../src/calendar";
+import { EMPTY_QUERY, moveAppointment, readRequest, refineQuery } from "../src/manage";
+import { parse } from "../src/parser";
+
+// Wednesday the 29th of January 2025
+const now = new Date(2025, 0, 29, 9, 0);
+const monday = { year: 2025, month: 2, day: 3 };
+const tuesday = { year: 2025, month: 2, day: 4 };
+
+function request(utterance: string) {
+  const { slots, entities } = parse(utterance, { now });
+  return readRequest(entities, slots.intent ?? "cancel");
+}
+
+describe("readRequest", () => {
+  it("tells the appointment meant from where it is moved to", () => {
+    expect(request("move Monday's meeting to Tuesday at 10")).toEqual({
+      query: { ...EMPTY_QUERY, date: monday },
+      moveTo: { date: tuesday, time: { hour: 10, minute: 0 } },
+    });
+    expect(request("move my meeting with Lou to 3 pm")).toEqual({
+      query: { ...EMPTY_QUERY, people: ["Lou Reed"] },
+      moveTo: { date: null, time: { hour: 15, minute: 0 } },
+    });
+    // without "to", the person tells which appointment it is, or else the first day
+    expect(request("reschedule the meeting with Lou on Tuesday").moveTo).toEqual({ date: tuesday, time: null });
+    expect(request("move Monday's meeting Tuesday")).toEqual({
+      query: { ...EMPTY_QUERY, date: monday },
+      moveTo: { date: tuesday, time: null },
+    });
+  });
+
+  it("only reads the appointment meant when it is not moved", () => {
+    expect(request("cancel Monday's meeting with David")).toEqual({
+      query: { people: ["David Bowie", "David Lynch"], date: monday, time: null },
+      moveTo: null,
+    });
+    expect(request("what do I have on Monday at 10")).toEqual({
+      query: { people: null, date: monday, time: { hour: 10, minute: 0 } },
+      moveTo: null,
+    });
+  });
+});
+
+describe("refineQuery and moveAppointment", () => {
+  it("adds what is said later to the query", () => {
+    const query = { ...EMPTY_QUERY, people: ["Lou Reed"] };
+    expect(refineQuery(query, { ...EMPTY_QUERY, date: monday })).toEqual({ ...query, date: monday });
+  });
+
+  it("takes a whole-day appointment moved to a time off the whole day", () => {
+    const appointment: Appointment = {
+      id: "1",
+      people: ["Lou Reed"],
+      date: monday,
+      time: null,
+      wholeDay: true,
+      created: "2025-01-28T12:00:00.000Z",
+    };
+    expect(moveAppointment(appointment, { date: tuesday, time: null })).toMatchObject({
+      date: tuesday,
+      wholeDay: true,
+    });
+    expect(moveAppointment(appointment, { date: null, time: { hour: 9, minute: 0 } })).toEqual({
+      people: ["Lou Reed"],
+      date: monday,
+      time: { hour: 9, minute: 0 },
+      wholeDay: false,
+    });
+  });
+
+  it("moves a recurring appointment to the day of the week of its new day", () => {
+    const appointment: Appointment = {
+      id: "1",
+      people: ["Lou Reed"],
+      date: monday,
+      time: { hour: 10, minute: 0 },
+      wholeDay: false,
+      recurrence: { frequency: "weekly", interval: 1, weekday: 1, until: null, count: null },
+      created: "2025-01-28T12:00:00.000Z",
+    };
+    expect(moveAppointment(appointment, { date: tuesday, time: null }).recurrence).toMatchObject({ weekday: 2 });
+  });
+});
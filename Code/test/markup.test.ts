@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { literal, MarkupError, parseMarkup, render, sayTime, ssmlToText, toPlainText, toSSML } from "../src/markup";
+
+describe("parseMarkup", () => {
+  it("finds emphasis, pauses, times and dates", () => {
+    expect(parseMarkup("on *Monday* [pause 300ms] at [time 14:30] [date 2025-02-03]")).toEqual([
+      { kind: "text", text: "on " },
+      { kind: "emphasis", segments: [{ kind: "text", text: "Monday" }] },
+      { kind: "text", text: " " },
+      { kind: "pause", ms: 300 },
+      { kind: "text", text: " at " },
+      { kind: "sayAs", as: "time", format: "hms24", text: "14:30" },
+      { kind: "text", text: " " },
+      { kind: "sayAs", as: "date", format: "ymd", text: "2025-02-03" },
+    ]);
+    expect(parseMarkup("[pause]")).toEqual([{ kind: "pause", ms: 500 }]);
+    expect(parseMarkup("[pause 1s]")).toEqual([{ kind: "pause", ms: 1000 }]);
+    expect(parseMarkup("*at [time 10 am]*")).toEqual([
+      {
+        kind: "emphasis",
+        segments: [
+          { kind: "text", text: "at " },
+          { kind: "sayAs", as: "time", format: "hms12", text: "10 am" },
+        ],
+      },
+    ]);
+  });
+
+  it("rejects markup which is not valid", () => {
+    expect(() => parseMarkup("on *Monday")).toThrow(MarkupError);
+    expect(() => parseMarkup("[pause")).toThrow(MarkupError);
+    expect(() => parseMarkup("[pause 10s]")).toThrow(MarkupError);
+    expect(() => parseMarkup("[time noon]")).toThrow(MarkupError);
+    expect(() => parseMarkup("[date monday]")).toThrow(MarkupError);
+    expect(() => parseMarkup("[shout hello]")).toThrow(MarkupError);
+  });
+
+  it("keeps escaped characters as text", () => {
+    expect(parseMarkup(literal("A*B [c]"))).toEqual([{ kind: "text", text: "A*B [c]" }]);
+  });
+});
+
+describe("toSSML and toPlainText", () => {
+  const segments = parseMarkup("Meet *Lou & Aya* [pause] at [time 14:30]?");
+
+  it("turns the markup into SSML, escaping the text", () => {
+    expect(toSSML(segments)).toBe(
+      'Meet <emphasis level="moderate">Lou &amp; Aya</emphasis> <break time="500ms"/> at ' +
+        '<say-as interpret-as="time" format="hms24">14:30</say-as>?',
+    );
+  });
+
+  it("leaves the markup out of plain text", () => {
+    expect(toPlainText(segments)).toBe("Meet Lou & Aya at 14:30?");
+  });
+
+  it("gives the text of the SSML back", () => {
+    expect(ssmlToText(toSSML(segments))).toBe("Meet Lou & Aya at 14:30?");
+  });
+});
+
+describe("render", () => {
+  it("renders a prompt with valid markup without an error", () => {
+    expect(render("on *Monday*", false)).toEqual({ text: "on Monday", error: null });
+  });
+
+  it("says a prompt with markup which is not valid as it is written, and gives back the error", () => {
+    const plain = render("on *Monday", false);
+    expect(plain.text).toBe("on *Monday");
+    expect(plain.error).toBeInstanceOf(MarkupError);
+    expect(render("<on> *Monday", true).text).toBe("&lt;on&gt; *Monday");
+  });
+});
+
+describe("sayTime", () => {
+  it("marks the times written with digits", () => {
+    expect(sayTime("14:30")).toBe("[time 14:30]");
+    expect(sayTime("2:30 pm")).toBe("[time 2:30 pm]");
+    expect(sayTime("noon")).toBe("noon");
+  });
+});
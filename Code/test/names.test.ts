@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import defaultContacts from "../src/contacts.json";
+import { editDistance, matchName, MIN_SCORE, nameScore, phoneticKey } from "../src/names";
+import { parse } from "../src/parser";
+
+describe("phoneticKey", () => {
+  it("spells alike what sounds alike", () => {
+    expect(phoneticKey("flat")).toBe(phoneticKey("vlad"));
+    expect(phoneticKey("aja")).toBe(phoneticKey("aya"));
+    expect(phoneticKey("mateo")).toBe(phoneticKey("matteo"));
+    expect(phoneticKey("lou")).not.toBe(phoneticKey("vlad"));
+  });
+});
+
+describe("editDistance", () => {
+  it("counts the letters to add, remove or change", () => {
+    expect(editDistance("mateo", "matteo")).toBe(1);
+    expect(editDistance("flat", "vlad")).toBe(2);
+    expect(editDistance("", "aya")).toBe(3);
+  });
+});
+
+describe("matchName", () => {
+  it("guesses the contact from a name spelled differently", () => {
+    expect(matchName("flat", defaultContacts)).toEqual({
+      person: "Vladislav Maraev",
+      text: "flat",
+      score: nameScore("flat", "vlad"),
+    });
+    expect(matchName("I'm meeting Aja", defaultContacts)?.person).toBe("Nayat Astaiza Soriano");
+    expect(matchName("Mateo", defaultContacts)?.person).toBe("Matteo Ripamonti");
+  });
+
+  it("prefers the closest name, and compares full names as a whole", () => {
+    const match = matchName("with Nayat Astaisa Soriano", defaultContacts)!;
+    expect(match).toMatchObject({ person: "Nayat Astaiza Soriano", text: "Nayat Astaisa Soriano" });
+    expect(match.score).toBeGreaterThan(nameScore("nayat", "aya"));
+  });
+
+  it("does not guess from words which are not alike enough", () => {
+    expect(matchName("on Friday at 10", defaultContacts)).toBeNull();
+    expect(matchName("whenever", defaultContacts)).toBeNull();
+    expect(nameScore("whenever", "vlad")).toBeLessThan(MIN_SCORE);
+  });
+
+  it("skips the words the parser understood", () => {
+    const utterance = "flat on Friday";
+    expect(matchName(utterance, defaultContacts, parse(utterance).entities)?.text).toBe("flat");
+    expect(matchName("Friday", defaultContacts, parse("Friday").entities)).toBeNull();
+  });
+
+  it("leaves shared nicknames to the grammar", () => {
+    expect(matchName("Davit", defaultContacts)).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { alternatives, rescore } from "../src/nbest";
+
+describe("rescore", () => {
+  it("prefers a hypothesis which answers the question over a more confident one", () => {
+    const interpretations = rescore(
+      [
+        { utterance: "flat", confidence: 0.8 },
+        { utterance: "vlad", confidence: 0.6 },
+      ],
+      "person",
+    );
+    expect(interpretations.map((interpretation) => interpretation.hypothesis.utterance)).toEqual(["vlad", "flat"]);
+    expect(interpretations[0].result.slots).toEqual({ person: "Vladislav Maraev" });
+  });
+
+  it("keeps the recogniser's order when the hypotheses match equally well", () => {
+    const interpretations = rescore(
+      [
+        { utterance: "vlad", confidence: 0.7 },
+        { utterance: "lou", confidence: 0.7 },
+      ],
+      "person",
+    );
+    expect(interpretations[0].hypothesis.utterance).toBe("vlad");
+  });
+
+  it("counts the other slots found as well", () => {
+    const interpretations = rescore(
+      [
+        { utterance: "fled on friday", confidence: 0.7 },
+        { utterance: "vlad on friday", confidence: 0.6 },
+      ],
+      "day",
+    );
+    expect(interpretations[0].hypothesis.utterance).toBe("vlad on friday");
+  });
+});
+
+describe("alternatives", () => {
+  it("offers the other values which score almost as well", () => {
+    const interpretations = rescore(
+      [
+        { utterance: "vlad", confidence: 0.5 },
+        { utterance: "lou", confidence: 0.45 },
+        { utterance: "flat", confidence: 0.4 },
+        { utterance: "vlad please", confidence: 0.4 },
+      ],
+      "person",
+    );
+    expect(alternatives(interpretations, "person").map((entity) => entity.value)).toEqual(["Lou Reed"]);
+  });
+
+  it("offers nothing when the others are far behind or the best does not answer", () => {
+    const far = rescore(
+      [
+        { utterance: "vlad", confidence: 0.9 },
+        { utterance: "lou", confidence: 0.3 },
+      ],
+      "person",
+    );
+    expect(alternatives(far, "person")).toEqual([]);
+    const unanswered = rescore([{ utterance: "flat", confidence: 0.9 }], "person");
+    expect(alternatives(unanswered, "person")).toEqual([]);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { parse, tokenize } from "../src/parser";
+
+// Wednesday the 29th of January 2025
+const now = new Date(2025, 0, 29, 9, 0);
+
+describe("tokenize", () => {
+  it("splits on spaces and punctuation and lowercases", () => {
+    expect(tokenize("I'm meeting Vlad, at 10:30!").map((token) => token.text)).toEqual([
+      "i'm",
+      "meeting",
+      "vlad",
+      "at",
+      "10:30",
+    ]);
+  });
+});
+
+describe("parse", () => {
+  it("finds a slot anywhere in the utterance", () => {
+    expect(parse("I'm meeting Vlad").slots).toEqual({ person: "Vladislav Maraev" });
+    expect(parse("on Monday please", { now }).slots).toEqual({ day: { year: 2025, month: 2, day: 3 } });
+    expect(parse("At 14.").slots).toEqual({ time: { hour: 14, minute: 0 } });
+  });
+
+  it("returns the spans of the entities and the slots found", () => {
+    const result = parse("Meet Aya on FRIDAY at 9", { now });
+    expect(result.found).toEqual(["person", "day", "time"]);
+    expect(result.entities).toEqual([
+      { slot: "person", value: "Nayat Astaiza Soriano", text: "Aya", start: 5, end: 8 },
+      { slot: "day", value: { year: 2025, month: 1, day: 31 }, text: "FRIDAY", start: 12, end: 18 },
+      { slot: "time", value: { hour: 9, minute: 0 }, text: "9", start: 22, end: 23 },
+    ]);
+  });
+
+  it("prefers the longest phrase", () => {
+    const result = parse("No way, sorry");
+    expect(result.entities).toHaveLength(1);
+    expect(result.entities[0]).toMatchObject({ slot: "yesno", value: false, text: "No way" });
+    expect(parse("yes, of course").slots).toEqual({ yesno: true });
+  });
+
+  it("matches whole words only", () => {
+    expect(parse("nobody").found).toEqual([]);
+    expect(parse("108").found).toEqual([]);
+  });
+
+  it("prefers a date over a time when both start at the same word", () => {
+    const result = parse("3 March at half past two", { now });
+    expect(result.entities.map((entity) => [entity.slot, entity.text])).toEqual([
+      ["day", "3 March"],
+      ["time", "half past two"],
+    ]);
+    expect(result.slots).toEqual({
+      day: { year: 2025, month: 3, day: 3 },
+      time: { hour: 14, minute: 30 },
+    });
+  });
+
+  it("keeps the first value of a slot found twice", () => {
+    const result = parse("lou or vlad");
+    expect(result.slots).toEqual({ person: "Lou Reed" });
+    expect(result.entities.map((entity) => entity.value)).toEqual(["Lou Reed", "Vladislav Maraev"]);
+  });
+
+  it("finds the global commands", () => {
+    expect(parse("Could you say that again?").slots).toEqual({ command: "repeat" });
+    expect(parse("no, go back").slots).toEqual({ yesno: false, command: "back" });
+    expect(parse("let's start over").slots).toEqual({ command: "startOver" });
+  });
+
+  it("can use another grammar", () => {
+    expect(parse("ja tack", { lexicon: { ja: { yesno: true } } }).slots).toEqual({ yesno: true });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { parse } from "../src/parser";
+import { listPeople, resolveNamesakes, updatePeople } from "../src/people";
+
+const update = (people: string[] | null, utterance: string) => updatePeople(people, parse(utterance).entities);
+
+describe("listPeople", () => {
+  it("reads a list the way it is said", () => {
+    expect(listPeople(["Lou Reed"])).toBe("Lou Reed");
+    expect(listPeople(["Vladislav Maraev", "Lou Reed"])).toBe("Vladislav Maraev and Lou Reed");
+    expect(listPeople(["Vladislav Maraev", "Nayat Astaiza Soriano", "Lou Reed"], "or")).toBe(
+      "Vladislav Maraev, Nayat Astaiza Soriano or Lou Reed",
+    );
+  });
+});
+
+describe("updatePeople", () => {
+  it("replaces the list with the people named", () => {
+    expect(update(["Lou Reed"], "Vlad and Aya")).toEqual({
+      people: ["Vladislav Maraev", "Nayat Astaiza Soriano"],
+      namesakes: null,
+      changed: true,
+    });
+  });
+
+  it("adds and removes people", () => {
+    expect(update(["Vladislav Maraev"], "also invite Lou").people).toEqual(["Vladislav Maraev", "Lou Reed"]);
+    expect(update(["Vladislav Maraev", "Lou Reed"], "not Vlad").people).toEqual(["Lou Reed"]);
+    expect(update(["Lou Reed"], "without Lou").people).toBeNull();
+  });
+
+  it("lists someone named twice only once", () => {
+    expect(update(null, "Vlad, Lou and Vlad").people).toEqual(["Vladislav Maraev", "Lou Reed"]);
+    expect(update(["Lou Reed"], "also Lou")).toMatchObject({ people: ["Lou Reed"], changed: false });
+  });
+
+  it("leaves a shared first name to resolve", () => {
+    const result = update(["Lou Reed"], "also invite David");
+    expect(result).toEqual({
+      people: ["Lou Reed"],
+      namesakes: { name: "David", people: ["David Bowie", "David Lynch"], invite: true },
+      changed: true,
+    });
+    expect(resolveNamesakes(result.people, result.namesakes!, "David Lynch")).toEqual(["Lou Reed", "David Lynch"]);
+  });
+
+  it("removes the only invited person with a shared first name", () => {
+    expect(update(["David Bowie", "Lou Reed"], "not David")).toMatchObject({ people: ["Lou Reed"], namesakes: null });
+    expect(update(["David Bowie", "David Lynch"], "not David").namesakes).toEqual({
+      name: "David",
+      people: ["David Bowie", "David Lynch"],
+      invite: false,
+    });
+  });
+});
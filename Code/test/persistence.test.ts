@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import { InspectionEvent } from "xstate";
+import { CalendarStore, createMemoryStore } from "../src/calendar";
+import { loadSession, saveSession, SESSION_EXPIRY, SessionStorage } from "../src/persistence";
+import { DMContext } from "../src/types";
+import { runScript } from "./harness";
+
+function memoryStorage(): SessionStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => items.set(key, value),
+    removeItem: (key) => items.delete(key),
+  };
+}
+
+const savedAt = new Date(2025, 0, 29, 9, 0);
+const minutes = (n: number) => new Date(savedAt.getTime() + n * 60 * 1000);
+
+// the context of a dialogue which got the person and the day, and is asking for the time
+async function askingForTime(): Promise<DMContext> {
+  const run = await runScript([
+    { system: "Hi! Do you want to book a meeting, hear what you have on a day, or move or cancel a meeting?" },
+    { user: "Vlad on Monday" },
+    { system: "Vladislav Maraev on Monday the 3rd of February, and will it take the whole day?" },
+    { user: "no" },
+  ]);
+  return run.context as DMContext;
+}
+
+describe("saveSession and loadSession", () => {
+  it("saves the values collected and the language, without what cannot be written as JSON", async () => {
+    const storage = memoryStorage();
+    saveSession(storage, await askingForTime(), savedAt);
+
+    expect(JSON.parse(storage.items.get("session")!)).toEqual({
+      savedAt: savedAt.toISOString(),
+      locale: "en-US",
+      values: {
+        person: ["Vladislav Maraev"],
+        day: { year: 2025, month: 2, day: 3 },
+        time: null,
+        duration: null,
+        recurrence: null,
+        yesno: false,
+        filled: ["person", "day", "yesno"],
+        skipped: [],
+      },
+    });
+    expect(loadSession(storage, minutes(5))?.values.person).toEqual(["Vladislav Maraev"]);
+  });
+
+  it("discards a session which has expired", async () => {
+    const storage = memoryStorage();
+    saveSession(storage, await askingForTime(), savedAt);
+
+    expect(loadSession(storage, new Date(savedAt.getTime() + SESSION_EXPIRY + 1))).toBeNull();
+    expect(storage.items.has("session")).toBe(false);
+  });
+
+  it("removes the session once there is nothing to resume, but not while it waits to be resumed", async () => {
+    const storage = memoryStorage();
+    const context = await askingForTime();
+    saveSession(storage, context, savedAt);
+    const session = loadSession(storage, minutes(1))!;
+
+    const waiting = { ...context, person: null, day: null, resume: session };
+    saveSession(storage, waiting, minutes(2));
+    expect(loadSession(storage, minutes(3))).toEqual(session);
+
+    saveSession(storage, { ...context, person: null, day: null, yesno: null }, minutes(4));
+    expect(storage.items.has("session")).toBe(false);
+  });
+
+  it("keeps a session in which only the duration was said", async () => {
+    const storage = memoryStorage();
+    const context = await askingForTime();
+    saveSession(storage, { ...context, person: null, day: null, yesno: null, duration: { minutes: 90 } }, savedAt);
+
+    expect(loadSession(storage, minutes(1))?.values.duration).toEqual({ minutes: 90 });
+  });
+
+  it("removes the session by the time the appointment is saved", async () => {
+    const storage = memoryStorage();
+    const sessionWhenSaved: boolean[] = [];
+    const store: CalendarStore = {
+      ...createMemoryStore([]),
+      add: async (appointment) => {
+        // a store takes a while to write the appointment: a reload then must not find the session any more
+        await Promise.resolve();
+        sessionWhenSaved.push(storage.items.has("session"));
+        return { ...appointment, id: "1", created: savedAt.toISOString() };
+      },
+    };
+    await runScript(
+      [
+        { system: "Hi! Do you want to book a meeting, hear what you have on a day, or move or cancel a meeting?" },
+        { user: "Vlad on Friday at 10 for an hour" },
+        {
+          system:
+            "Do you want me to create an appointment with Vladislav Maraev on Friday the 31st of January at 10 am for an hour?",
+        },
+        { user: "yes" },
+        { system: "Your appointment has been created!" },
+      ],
+      {
+        store,
+        inspect: (inspectionEvent) => {
+          // as app.ts does, the session is saved after every step of the dialogue manager
+          const { type, actorRef, rootId, snapshot } = inspectionEvent as InspectionEvent & { snapshot?: unknown };
+          if (type === "@xstate.snapshot" && actorRef.sessionId === rootId) {
+            saveSession(storage, (snapshot as unknown as { context: DMContext }).context, savedAt);
+          }
+        },
+      },
+    );
+
+    expect(sessionWhenSaved).toEqual([false]);
+  });
+});
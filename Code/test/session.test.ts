@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it } from "vitest";
+import defaultContacts from "../src/contacts.json";
+import { useContacts } from "../src/grammar";
+import { createSessionRecorder, exportSession } from "../src/session";
+import { runScript, Turn } from "./harness";
+
+describe("session log", () => {
+  afterEach(() => useContacts(defaultContacts));
+
+  const script: Turn[] = [
+    { system: "Hi! Do you want to book a meeting, hear what you have on a day, or move or cancel a meeting?" },
+    { user: [{ utterance: "vlad on monday", confidence: 0.9 }, { utterance: "flat on monday", confidence: 0.4 }] },
+    { system: "Vladislav Maraev on Monday the 3rd of February, and will it take the whole day?" },
+    { noInput: true },
+    { system: "I didn't hear you. Is the meeting going to last all day?" },
+    { user: "help" },
+  ];
+
+  it("records the turns, with the hypotheses and the slots they filled", async () => {
+    const recorder = createSessionRecorder();
+    await runScript(script, { inspect: recorder.inspect });
+
+    const turns = recorder.log.entries.filter((entry) => entry.type !== "transition");
+    expect(turns.map(({ time, ...turn }) => turn)).toEqual([
+      {
+        type: "system",
+        utterance: "Hi! Do you want to book a meeting, hear what you have on a day, or move or cancel a meeting?",
+      },
+      {
+        type: "user",
+        hypotheses: [
+          { utterance: "vlad on monday", confidence: 0.9 },
+          { utterance: "flat on monday", confidence: 0.4 },
+        ],
+        filled: ["person", "day"],
+      },
+      { type: "system", utterance: "Vladislav Maraev on Monday the 3rd of February, and will it take the whole day?" },
+      { type: "noInput" },
+      { type: "system", utterance: "I didn't hear you. Is the meeting going to last all day?" },
+      { type: "user", hypotheses: [{ utterance: "help", confidence: 1 }], filled: [] },
+      {
+        type: "system",
+        utterance:
+          "You can answer the question, or say repeat that, go back, start over or cancel. I didn't hear you. Is the meeting going to last all day?",
+      },
+    ]);
+  });
+
+  it("records the state transitions with the time they happened", async () => {
+    const time = new Date("2025-01-29T09:00:00Z");
+    const recorder = createSessionRecorder({ now: () => time });
+    await runScript(script.slice(0, 2), { inspect: recorder.inspect });
+
+    const transitions = recorder.log.entries.filter((entry) => entry.type === "transition");
+    expect(transitions.slice(0, 4)).toEqual([
+      { time: "2025-01-29T09:00:00.000Z", type: "transition", from: null, to: "Prepare", event: "xstate.init" },
+      { time: "2025-01-29T09:00:00.000Z", type: "transition", from: "Prepare", to: "WaitToStart", event: "ASRTTS_READY" },
+      { time: "2025-01-29T09:00:00.000Z", type: "transition", from: "WaitToStart", to: "Greeting", event: "CLICK" },
+      {
+        time: "2025-01-29T09:00:00.000Z",
+        type: "transition",
+        from: "Greeting",
+        to: "ListenIntent",
+        event: "SPEAK_COMPLETE",
+      },
+    ]);
+    expect(JSON.parse(exportSession(recorder.log))).toEqual({
+      started: "2025-01-29T09:00:00.000Z",
+      entries: recorder.log.entries,
+    });
+  });
+
+  it("records the prompts whose markup is not valid", async () => {
+    useContacts([{ name: "Ada Lovelace", nicknames: ["ada"], pronunciation: "*Ay-da Love-lace" }]);
+    const recorder = createSessionRecorder();
+    const turns: Turn[] = [script[0], { user: "ada" }, { system: "*Ay-da Love-lace, and on which day?" }];
+    const run = await runScript(turns, { inspect: recorder.inspect, pronounce: true });
+
+    expect(run.transcript).toEqual(turns);
+
+    const entries = recorder.log.entries.filter((entry) => entry.type !== "transition");
+    expect(entries.slice(-2).map(({ time, ...turn }) => turn)).toEqual([
+      {
+        type: "markupError",
+        utterance: "*Ay-da Love-lace, and on which day?",
+        message: 'Unclosed * in "*Ay-da Love-lace, and on which day?"',
+      },
+      { type: "system", utterance: "*Ay-da Love-lace, and on which day?" },
+    ]);
+  });
+});